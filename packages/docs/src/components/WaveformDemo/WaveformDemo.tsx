@@ -131,12 +131,10 @@ export default function WaveformPreviewer() {
         progress: 0, // Always start at 0 progress
       });
 
-      // Listen to seek events
-      waveformRef.current.on("seek", (progress: number) => {
-        if (audioRef.current) {
-          audioRef.current.currentTime = progress * audioRef.current.duration;
-        }
-      });
+      // Follow playback and apply seeks to the audio element
+      if (audioRef.current) {
+        waveformRef.current.attachMedia(audioRef.current);
+      }
     } catch (error) {
       console.error("Error initializing waveform:", error);
       throw error;
@@ -219,14 +217,7 @@ export default function WaveformPreviewer() {
     const audio = audioRef.current;
     if (!audio) return;
 
-    const handleTimeUpdate = () => {
-      setCurrentTime(audio.currentTime);
-
-      if (waveformRef.current && audio.duration > 0) {
-        const progress = audio.currentTime / audio.duration;
-        waveformRef.current.setProgress(progress);
-      }
-    };
+    const handleTimeUpdate = () => setCurrentTime(audio.currentTime);
 
     const handleLoadedMetadata = () => {
       setDuration(audio.duration);
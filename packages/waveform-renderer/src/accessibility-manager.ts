@@ -0,0 +1,194 @@
+import { findAdjacentPosition, formatValueText, getKeyName, resolveKeyBindings } from "@/utils";
+
+import type { AccessibilityCallbacks, KeyAction, KeyBindings, WaveformOptions } from "@/types";
+
+const ARIA_ATTRIBUTES = [
+  "aria-label",
+  "aria-orientation",
+  "aria-valuemax",
+  "aria-valuemin",
+  "aria-valuenow",
+  "aria-valuetext",
+  "role",
+  "tabindex",
+];
+
+export class AccessibilityManager {
+  private canvas: HTMLCanvasElement;
+  private callbacks: AccessibilityCallbacks;
+  private bindings = new Map<string, KeyAction>();
+  private keyBindings?: KeyBindings;
+  private enabled = false;
+  private focused = false;
+  private progress = 0;
+  private stepSize = 0.01;
+  private largeStepSize = 0.1;
+  private previousAttributes = new Map<string, string | null>();
+  private forcedColorsQuery?: MediaQueryList;
+  private readonly fallbackStep = 0.01; // of the waveform, without a duration
+  private readonly fallbackLargeStep = 0.1;
+
+  constructor(canvas: HTMLCanvasElement, callbacks: AccessibilityCallbacks) {
+    this.canvas = canvas;
+    this.callbacks = callbacks;
+
+    // Not every environment implements matchMedia, e.g. older WebViews and jsdom
+    if (typeof window.matchMedia === "function") {
+      this.forcedColorsQuery = window.matchMedia("(forced-colors: active)");
+      this.forcedColorsQuery.addEventListener?.("change", this.handleForcedColorsChange);
+    }
+  }
+
+  public destroy(): void {
+    this.forcedColorsQuery?.removeEventListener?.("change", this.handleForcedColorsChange);
+    this.disable();
+  }
+
+  /**
+   * Whether the user agent currently forces a high-contrast palette
+   */
+  public isForcedColors(): boolean {
+    return !!this.forcedColorsQuery?.matches;
+  }
+
+  /**
+   * Brings the slider semantics and key bindings in line with the options and progress.
+   * Attributes the page had set are restored once `accessibility` is `null`.
+   */
+  public sync(options: Required<WaveformOptions>): void {
+    const { accessibility, duration, progress } = options;
+
+    if (!accessibility) {
+      this.disable();
+      return;
+    }
+
+    this.enable();
+
+    const hasDuration = typeof duration === "number" && duration > 0;
+    const { keyBindings, label = "", largeStep = 0, step = 0 } = accessibility;
+
+    // Synced on every progress update, so bindings are only resolved when they change
+    if (keyBindings !== this.keyBindings) {
+      this.keyBindings = keyBindings;
+      this.bindings = resolveKeyBindings(keyBindings);
+    }
+    this.progress = progress;
+    this.stepSize = hasDuration ? step / duration : this.fallbackStep;
+    this.largeStepSize = hasDuration ? largeStep / duration : this.fallbackLargeStep;
+
+    this.updateAttribute("aria-label", label);
+    this.updateAttribute("aria-valuenow", String(Math.round(progress * 1000) / 10));
+    this.updateAttribute("aria-valuetext", formatValueText(progress, options));
+  }
+
+  /**
+   * Progress may be synced many times a second, e.g. while media plays. Values that did not
+   * change are not written again, so screen readers do not announce them again.
+   */
+  private updateAttribute(name: string, value: string): void {
+    if (this.canvas.getAttribute(name) !== value) {
+      this.canvas.setAttribute(name, value);
+    }
+  }
+
+  private enable(): void {
+    if (this.enabled) return;
+
+    this.enabled = true;
+    ARIA_ATTRIBUTES.forEach(name => this.previousAttributes.set(name, this.canvas.getAttribute(name)));
+
+    this.canvas.setAttribute("role", "slider");
+    this.canvas.setAttribute("aria-orientation", "horizontal");
+    this.canvas.setAttribute("aria-valuemin", "0");
+    this.canvas.setAttribute("aria-valuemax", "100");
+    if (this.previousAttributes.get("tabindex") === null) {
+      this.canvas.setAttribute("tabindex", "0");
+    }
+
+    this.canvas.addEventListener("keydown", this.handleKeyDown);
+    this.canvas.addEventListener("focus", this.handleFocus);
+    this.canvas.addEventListener("blur", this.handleBlur);
+  }
+
+  private disable(): void {
+    if (!this.enabled) return;
+
+    this.enabled = false;
+    this.canvas.removeEventListener("keydown", this.handleKeyDown);
+    this.canvas.removeEventListener("focus", this.handleFocus);
+    this.canvas.removeEventListener("blur", this.handleBlur);
+
+    this.previousAttributes.forEach((value, name) => {
+      if (value === null) {
+        this.canvas.removeAttribute(name);
+      } else {
+        this.canvas.setAttribute(name, value);
+      }
+    });
+    this.previousAttributes.clear();
+
+    if (this.focused) {
+      this.handleBlur();
+    }
+  }
+
+  private getTarget(action: KeyAction): number | null {
+    const progress = this.progress;
+
+    switch (action) {
+      case "end":
+        return 1;
+      case "home":
+        return 0;
+      case "largeStepBackward":
+        return progress - this.largeStepSize;
+      case "largeStepForward":
+        return progress + this.largeStepSize;
+      case "nextMarker":
+      case "previousMarker": {
+        const positions = this.callbacks.getMarkers().map(marker => marker.position);
+        return findAdjacentPosition(positions, progress, action === "nextMarker" ? 1 : -1);
+      }
+      case "nextRegion":
+      case "previousRegion": {
+        const starts = this.callbacks.getRegions().map(region => region.start);
+        return findAdjacentPosition(starts, progress, action === "nextRegion" ? 1 : -1);
+      }
+      case "stepBackward":
+        return progress - this.stepSize;
+      case "stepForward":
+        return progress + this.stepSize;
+    }
+  }
+
+  /**
+   * Seeks for bound keys and keeps them from scrolling the page. Keys without a binding,
+   * and presses with nothing to jump to, are left to the browser.
+   */
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    const action = this.bindings.get(getKeyName(event));
+    if (!action) return;
+
+    const target = this.getTarget(action);
+    if (target === null) return;
+
+    event.preventDefault();
+    this.progress = Math.max(0, Math.min(1, target));
+    this.callbacks.onSeek(this.progress);
+  };
+
+  private handleFocus = (): void => {
+    this.focused = true;
+    this.callbacks.onFocusChange(true);
+  };
+
+  private handleBlur = (): void => {
+    this.focused = false;
+    this.callbacks.onFocusChange(false);
+  };
+
+  private handleForcedColorsChange = (event: MediaQueryListEvent): void => {
+    this.callbacks.onForcedColorsChange(event.matches);
+  };
+}
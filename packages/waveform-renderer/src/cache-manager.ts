@@ -1,6 +1,31 @@
-import { calculateBarDimensions } from "@/utils";
+import { DEFAULT_VIEWPORT } from "@/constants";
+import {
+  calculateBarDimensions,
+  getPeakChannels,
+  getPeakCount,
+  getWaveformArea,
+  hasTimeRuler,
+  isMinMaxPeaks,
+  resampleChannelPeaks,
+  resolveWaveformStyle,
+  traceBar,
+  traceWaveformShape,
+} from "@/utils";
 
-import type { CachedBarData, RenderCache, WaveformOptions } from "@/types";
+import type {
+  AmplitudeScale,
+  CachedBarData,
+  ChannelLane,
+  ChannelPeaks,
+  DirtyRegion,
+  RenderCache,
+  Viewport,
+  WaveformOptions,
+  WaveformPeaks,
+  WaveformStyle,
+} from "@/types";
+
+import { PeakPyramid } from "./peak-pyramid";
 
 export class CacheManager {
   private cache: RenderCache | null = null;
@@ -8,6 +33,10 @@ export class CacheManager {
   public invalidate(): void {
     if (this.cache) {
       this.cache.staticWaveformPath = undefined;
+      this.cache.channelPaths = undefined;
+      this.cache.rmsPath = undefined;
+      this.cache.paints = undefined;
+      this.cache.barColorGroups = undefined;
     }
   }
 
@@ -18,16 +47,23 @@ export class CacheManager {
   public getCache(
     canvas: HTMLCanvasElement,
     devicePixelRatio: number,
-    peaks: number[],
+    peaks: PeakPyramid | WaveformPeaks,
     options: Required<WaveformOptions>,
+    viewport: Viewport = DEFAULT_VIEWPORT,
+    totalLength?: number,
   ): RenderCache {
     const currentCanvasWidth = canvas.width / devicePixelRatio;
     const currentCanvasHeight = canvas.height / devicePixelRatio;
     const currentOptionsHash = this.createOptionsHash(options);
     const currentPeaksHash = this.createPeaksHash(peaks);
+    const layoutLength = this.getLayoutLength(peaks, totalLength);
 
     // Check if cache is valid
-    if (this.isCacheValid(currentCanvasWidth, currentCanvasHeight, currentOptionsHash, currentPeaksHash)) {
+    if (
+      this.isCacheValid(currentCanvasWidth, currentCanvasHeight, currentOptionsHash, currentPeaksHash) &&
+      this.isSameViewport(viewport) &&
+      this.cache!.layoutLength === layoutLength
+    ) {
       return this.cache!;
     }
 
@@ -39,33 +75,195 @@ export class CacheManager {
       options,
       currentOptionsHash,
       currentPeaksHash,
+      viewport,
+      layoutLength,
     );
     return this.cache;
   }
 
-  public createStaticPath(cache: RenderCache, borderRadius: number): Path2D {
+  /**
+   * Adds the bars for peaks appended since the cache was built and extends the cached
+   * paths with them. Returns the horizontal range of the new bars, or null when the
+   * layout changed and the cache has to be rebuilt instead.
+   */
+  public extend(
+    peaks: PeakPyramid | WaveformPeaks,
+    options: Required<WaveformOptions>,
+    totalLength?: number,
+  ): DirtyRegion | null {
+    const cache = this.cache;
+
+    if (!cache || peaks instanceof PeakPyramid || cache.layoutLength !== this.getLayoutLength(peaks, totalLength)) {
+      return null;
+    }
+
+    const channels = getPeakChannels(peaks);
+    const channelCount = cache.channelCount ?? 1;
+
+    if (channels.length !== channelCount || cache.lastOptionsHash !== this.createOptionsHash(options)) {
+      return null;
+    }
+
+    const firstPeak = (cache.viewport?.start ?? 0) * cache.layoutLength;
+    const previousFilled = cache.filledBars ?? cache.totalBars;
+    const filledBars = this.countFilledBars(
+      cache.totalBars,
+      firstPeak,
+      cache.step,
+      getPeakCount(peaks),
+      cache.layoutLength,
+    );
+
+    cache.lastPeaksHash = this.createPeaksHash(peaks);
+
+    if (filledBars <= previousFilled) {
+      return { start: 0, end: 0 };
+    }
+
+    const lanes = this.createChannelLanes(channelCount, cache.canvasHeight, options);
+    const barChannels = channels.map(channel =>
+      resampleChannelPeaks(
+        channel,
+        firstPeak + previousFilled * cache.step,
+        cache.step,
+        filledBars - previousFilled,
+        options.resampling,
+      ),
+    );
+    const bars: CachedBarData[] = [];
+    const region: DirtyRegion = { start: Infinity, end: -Infinity };
+    const isBarStyle = resolveWaveformStyle(options.style).type === "bars";
+
+    // Connected shapes change next to their old end, so they are traced again and repainted from there
+    if (!isBarStyle) {
+      this.invalidate();
+      region.start = Math.max(0, previousFilled - 2) * cache.singleUnitWidth;
+    }
+
+    for (let channel = 0; channel < channelCount; channel++) {
+      bars.push(...cache.bars.slice(channel * previousFilled, (channel + 1) * previousFilled));
+
+      for (let i = previousFilled; i < filledBars; i++) {
+        const bar = this.createLaneBar(
+          barChannels,
+          channel,
+          i,
+          i - previousFilled,
+          lanes,
+          cache.singleUnitWidth,
+          options,
+        );
+        bars.push(bar);
+        this.addBarToCachedPaths(cache, bar, options.borderRadius);
+        region.start = Math.min(region.start, bar.x - options.borderWidth);
+        region.end = Math.max(region.end, bar.x + bar.width + options.borderWidth);
+      }
+    }
+
+    if (!isBarStyle) {
+      region.end += cache.singleUnitWidth;
+    }
+
+    cache.bars = bars;
+    cache.filledBars = filledBars;
+    // New bars may land in any color group
+    cache.barColorGroups = undefined;
+    return region;
+  }
+
+  public createStaticPath(cache: RenderCache, borderRadius: number, style: WaveformStyle = "bars"): Path2D {
     if (cache.staticWaveformPath) {
       return cache.staticWaveformPath;
     }
 
     const path = new Path2D();
+    const channelCount = cache.channelCount ?? 1;
+    const channelPaths = channelCount > 1 ? Array.from({ length: channelCount }, () => new Path2D()) : undefined;
+    const rmsPath = cache.bars.some(bar => bar.rmsHeight !== undefined) ? new Path2D() : undefined;
+
+    cache.staticWaveformPath = path;
+    cache.channelPaths = channelPaths;
+    cache.rmsPath = rmsPath;
 
-    for (const bar of cache.bars) {
-      if (borderRadius > 0 && typeof (path as any).roundRect === "function") {
-        (path as any).roundRect(bar.x, bar.y, bar.width, bar.height, borderRadius);
-      } else {
-        path.rect(bar.x, bar.y, bar.width, bar.height);
+    if (resolveWaveformStyle(style).type === "bars") {
+      for (const bar of cache.bars) {
+        this.addBarToCachedPaths(cache, bar, borderRadius);
       }
+      return path;
+    }
+
+    const { lanes } = cache;
+
+    traceWaveformShape(path, cache.bars, lanes, style);
+    channelPaths?.forEach((channelPath, channel) =>
+      traceWaveformShape(
+        channelPath,
+        cache.bars.filter(bar => bar.channel === channel),
+        lanes,
+        style,
+      ),
+    );
+
+    if (rmsPath) {
+      const rmsBars = cache.bars
+        .filter(bar => bar.rmsHeight !== undefined)
+        .map(bar => ({ ...bar, y: bar.rmsY!, height: bar.rmsHeight! }));
+      traceWaveformShape(rmsPath, rmsBars, lanes, style);
     }
 
-    cache.staticWaveformPath = path;
     return path;
   }
 
+  /**
+   * Finds the bar drawn at the given point (CSS pixels). Uses the cached, already
+   * scaled geometry so hits always match what is on screen.
+   */
+  public getBarAt(x: number, y: number): CachedBarData | null {
+    if (!this.cache) {
+      return null;
+    }
+
+    const { bars, filledBars, totalBars } = this.cache;
+    const barsPerChannel = filledBars ?? totalBars;
+    const index = this.getColumnIndex(x);
+
+    if (index === null) {
+      return null;
+    }
+
+    for (let i = index; i < bars.length; i += barsPerChannel) {
+      const bar = bars[i];
+      if (x >= bar.x && x <= bar.x + bar.width && y >= bar.y && y <= bar.y + bar.height) {
+        return bar;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Finds the first channel's bar in the column at `x` (CSS pixels), whatever its height
+   */
+  public getBarInColumn(x: number): CachedBarData | null {
+    const index = this.getColumnIndex(x);
+    return index === null ? null : this.cache!.bars[index];
+  }
+
   public isValid(): boolean {
     return this.cache !== null;
   }
 
+  private getColumnIndex(x: number): null | number {
+    if (!this.cache) {
+      return null;
+    }
+
+    const { bars, filledBars, singleUnitWidth, totalBars } = this.cache;
+    const index = Math.floor((x - (bars[0]?.x ?? 0)) / singleUnitWidth);
+
+    return index >= 0 && index < (filledBars ?? totalBars) ? index : null;
+  }
+
   private isCacheValid(canvasWidth: number, canvasHeight: number, optionsHash: string, peaksHash: string): boolean {
     return (
       this.cache !== null &&
@@ -76,38 +274,55 @@ export class CacheManager {
     );
   }
 
+  private isSameViewport(viewport: Viewport): boolean {
+    const cached = this.cache?.viewport ?? DEFAULT_VIEWPORT;
+    return cached.start === viewport.start && cached.end === viewport.end;
+  }
+
   private buildCache(
     canvasWidth: number,
     canvasHeight: number,
-    peaks: number[],
+    source: PeakPyramid | WaveformPeaks,
     options: Required<WaveformOptions>,
     optionsHash: string,
     peaksHash: string,
+    viewport: Viewport,
+    layoutLength: number,
   ): RenderCache {
-    const { amplitude = 1, barWidth, borderWidth = 0, gap = 0, position } = options;
+    const { barWidth, borderWidth = 0, gap = 0 } = options;
 
     const initialOffset = borderWidth;
     const availableWidth = canvasWidth - borderWidth * 2 * initialOffset;
     const singleUnitWidth = barWidth + borderWidth * 2 + gap;
     const totalBars = Math.max(1, Math.floor(availableWidth / singleUnitWidth));
-    const step = peaks.length / totalBars;
-
-    // Pre-calculate all bar positions and dimensions
-    const bars: CachedBarData[] = Array.from({ length: totalBars });
+    // Pyramids summarize every bucket a bar covers, so their output maps one peak per bar
+    const isPyramid = source instanceof PeakPyramid;
+    const peaks = isPyramid ? source.getPeaks(totalBars, viewport.start, viewport.end) : source;
+    const firstPeak = isPyramid ? 0 : viewport.start * layoutLength;
+    const step = isPyramid ? 1 : ((viewport.end - viewport.start) * layoutLength) / totalBars;
+    const channels = getPeakChannels(peaks);
+    const lanes = this.createChannelLanes(channels.length, canvasHeight, options);
+    // Streams laid out for a longer total length only get bars for the peaks received so far
+    const filledBars = this.countFilledBars(totalBars, firstPeak, step, getPeakCount(peaks), layoutLength);
+    const barChannels = channels.map(channel =>
+      resampleChannelPeaks(channel, firstPeak, step, filledBars, options.resampling),
+    );
 
-    for (let i = 0; i < totalBars; i++) {
-      const peakIndex = Math.floor(i * step);
-      const peakValue = Math.abs(peaks[peakIndex] || 0);
-      const x = initialOffset + i * singleUnitWidth;
-      const { height, y } = calculateBarDimensions(peakValue, canvasHeight, amplitude, position);
+    // Pre-calculate all bar positions and dimensions, lane by lane
+    const bars: CachedBarData[] = Array.from({ length: filledBars * channels.length });
 
-      bars[i] = {
-        x,
-        y,
-        width: barWidth,
-        height,
-        peakValue,
-      };
+    for (let channel = 0; channel < channels.length; channel++) {
+      for (let i = 0; i < filledBars; i++) {
+        bars[channel * filledBars + i] = this.createLaneBar(
+          barChannels,
+          channel,
+          i,
+          i,
+          lanes,
+          singleUnitWidth,
+          options,
+        );
+      }
     }
 
     return {
@@ -117,17 +332,180 @@ export class CacheManager {
       step,
       singleUnitWidth,
       bars,
+      channelCount: channels.length,
+      lanes,
+      viewport: { ...viewport },
+      layoutLength,
+      filledBars,
       lastOptionsHash: optionsHash,
       lastPeaksHash: peaksHash,
     };
   }
 
+  /**
+   * Splits the height left beside the time ruler into one lane per channel. Mirrored layouts
+   * pair channels around a shared centerline: even channels grow upwards, odd channels downwards.
+   */
+  private createChannelLanes(
+    channelCount: number,
+    canvasHeight: number,
+    options: Required<WaveformOptions>,
+  ): ChannelLane[] {
+    const { height, top } = getWaveformArea(canvasHeight, options);
+
+    if (channelCount === 1) {
+      return [{ top, height, position: options.position }];
+    }
+
+    if (options.channelLayout === "mirrored") {
+      const pairHeight = height / Math.ceil(channelCount / 2);
+      const halfHeight = pairHeight / 2;
+
+      return Array.from({ length: channelCount }, (_, channel) => {
+        const pairTop = top + Math.floor(channel / 2) * pairHeight;
+        return channel % 2 === 0
+          ? { top: pairTop, height: halfHeight, position: "bottom" as const }
+          : { top: pairTop + halfHeight, height: halfHeight, position: "top" as const };
+      });
+    }
+
+    const laneHeight = height / channelCount;
+    return Array.from({ length: channelCount }, (_, channel) => ({
+      top: top + channel * laneHeight,
+      height: laneHeight,
+      position: options.position,
+    }));
+  }
+
+  private getLayoutLength(peaks: PeakPyramid | WaveformPeaks, totalLength?: number): number {
+    const peakCount = peaks instanceof PeakPyramid ? peaks.length : getPeakCount(peaks);
+    return Math.max(totalLength ?? 0, peakCount);
+  }
+
+  private countFilledBars(
+    totalBars: number,
+    firstPeak: number,
+    step: number,
+    peakCount: number,
+    layoutLength: number,
+  ): number {
+    // Without a longer total length every slot is drawn, empty peaks included
+    if (peakCount >= layoutLength) {
+      return totalBars;
+    }
+
+    let filledBars = 0;
+    while (filledBars < totalBars && Math.floor(firstPeak + filledBars * step) < peakCount) {
+      filledBars++;
+    }
+    return filledBars;
+  }
+
+  /**
+   * Creates the bar in slot `index` from already resampled peaks, one per bar
+   */
+  private createLaneBar(
+    channels: ChannelPeaks[],
+    channel: number,
+    index: number,
+    peakIndex: number,
+    lanes: ChannelLane[],
+    singleUnitWidth: number,
+    options: Required<WaveformOptions>,
+  ): CachedBarData {
+    const bar = this.createBar(channels[channel], peakIndex, lanes[channel], options.amplitude ?? 1, options.scale);
+
+    bar.x = options.borderWidth + index * singleUnitWidth;
+    bar.width = options.barWidth;
+    if (channels.length > 1) {
+      bar.channel = channel;
+    }
+
+    return bar;
+  }
+
+  private createBar(
+    peaks: ChannelPeaks,
+    peakIndex: number,
+    lane: ChannelLane,
+    amplitude: number,
+    scale: AmplitudeScale,
+  ): CachedBarData {
+    if (isMinMaxPeaks(peaks)) {
+      const minValue = peaks.min[peakIndex] || 0;
+      const maxValue = peaks.max[peakIndex] || 0;
+      const { height, y } = calculateBarDimensions(maxValue, lane.height, amplitude, lane.position, minValue, scale);
+      const bar: CachedBarData = {
+        x: 0,
+        y: lane.top + y,
+        width: 0,
+        height,
+        peakValue: Math.max(Math.abs(minValue), Math.abs(maxValue)),
+        maxValue,
+        minValue,
+      };
+
+      if (peaks.rms) {
+        const rmsValue = Math.abs(peaks.rms[peakIndex] || 0);
+        const rms = calculateBarDimensions(rmsValue, lane.height, amplitude, lane.position, -rmsValue, scale);
+
+        bar.rmsValue = rmsValue;
+        bar.rmsY = lane.top + rms.y;
+        bar.rmsHeight = rms.height;
+      }
+
+      return bar;
+    }
+
+    const peakValue = Math.abs(peaks[peakIndex] || 0);
+    const { height, y } = calculateBarDimensions(peakValue, lane.height, amplitude, lane.position, undefined, scale);
+
+    return { x: 0, y: lane.top + y, width: 0, height, peakValue };
+  }
+
+  private addBarToCachedPaths(cache: RenderCache, bar: CachedBarData, borderRadius: number): void {
+    if (!cache.staticWaveformPath) {
+      return;
+    }
+
+    traceBar(cache.staticWaveformPath, bar, borderRadius);
+
+    if (cache.channelPaths && bar.channel !== undefined) {
+      traceBar(cache.channelPaths[bar.channel], bar, borderRadius);
+    }
+
+    if (cache.rmsPath && bar.rmsHeight !== undefined) {
+      traceBar(cache.rmsPath, { ...bar, y: bar.rmsY!, height: bar.rmsHeight }, borderRadius);
+    }
+  }
+
   private createOptionsHash(options: Required<WaveformOptions>): string {
-    const { amplitude, barWidth, borderWidth, gap, position, borderRadius } = options;
-    return `${amplitude}-${barWidth}-${borderWidth}-${gap}-${position}-${borderRadius}`;
+    const { amplitude, barWidth, borderWidth, channelLayout, gap, position, borderRadius, resampling, scale } = options;
+    const scaleHash = typeof scale === "string" ? scale : `${scale?.type}:${scale?.floor}:${scale?.exponent}`;
+    const resamplingHash = `${resampling?.downsample}:${resampling?.upsample}`;
+    const style = resolveWaveformStyle(options.style);
+    const styleHash = `${style.type}:${style.smooth}:${style.lineWidth}:${style.radius}`;
+    const rulerHash = hasTimeRuler(options) ? `${options.timeRuler!.height}:${options.timeRuler!.position}` : "none";
+    return `${amplitude}-${barWidth}-${borderWidth}-${gap}-${position}-${borderRadius}-${channelLayout}-${scaleHash}-${resamplingHash}-${styleHash}-${rulerHash}`;
   }
 
-  private createPeaksHash(peaks: number[]): string {
+  private createPeaksHash(peaks: PeakPyramid | WaveformPeaks): string {
+    if (peaks instanceof PeakPyramid) {
+      return `pyramid-${peaks.id}`;
+    }
+
+    return getPeakChannels(peaks)
+      .map(channel => this.createChannelHash(channel))
+      .join("|");
+  }
+
+  private createChannelHash(peaks: ChannelPeaks): string {
+    if (isMinMaxPeaks(peaks)) {
+      const last = peaks.max.length - 1;
+      const rms = peaks.rms ? `-rms-${peaks.rms[0] || 0}-${peaks.rms[last] || 0}` : "";
+      return `mm-${peaks.max.length}-${peaks.min[0] || 0}-${peaks.max[0] || 0}-${peaks.min[last] || 0}-${peaks.max[last] || 0}${rms}`;
+    }
+
     return `${peaks.length}-${peaks[0] || 0}-${peaks[peaks.length - 1] || 0}`;
   }
 }
@@ -1,19 +1,58 @@
-import type { WaveformOptions } from "@/types";
+import type {
+  AccessibilityOptions,
+  HoverOptions,
+  KeyAction,
+  SeekEasingOptions,
+  TimeRulerOptions,
+  Viewport,
+  WaveformOptions,
+} from "@/types";
 
 export const DEFAULT_OPTIONS: Required<WaveformOptions> = {
+  accessibility: null,
   amplitude: 1,
   backgroundColor: "#CCCCCC",
+  barColor: null,
   barWidth: 2,
   borderColor: "#000000",
   borderRadius: 0,
   borderWidth: 0,
+  bufferedColor: "#999999",
+  channelColors: [],
+  channelLayout: "stacked",
   color: "#000000",
+  createRegionsOnDrag: false,
+  dragThreshold: 5,
+  duration: null,
   gap: 1,
+  hover: null,
+  interaction: "scrub",
+  markerStyle: {
+    color: "#F59E0B",
+    heightPercent: 1,
+    labelColor: "#FFFFFF",
+    position: "center",
+    style: "solid",
+    width: 1,
+  },
+  maxZoom: 100,
   minPixelRatio: 1,
+  minZoom: 1,
+  normalize: "peak",
   position: "center",
   progress: 0,
+  progressPrecision: 0.1,
+  regionColor: "rgba(59, 130, 246, 0.2)",
+  regionLabelColor: "#1f2937",
+  resampling: { downsample: "max", upsample: "linear" },
+  rmsColor: null,
+  rmsProgressColor: null,
+  scale: "linear",
+  seekEasing: null,
   debug: false,
   smoothing: true,
+  style: "bars",
+  timeRuler: null,
   progressLine: {
     color: "#FF0000",
     heightPercent: 1,
@@ -22,3 +61,60 @@ export const DEFAULT_OPTIONS: Required<WaveformOptions> = {
     width: 2,
   },
 };
+
+export const DEFAULT_ACCESSIBILITY_OPTIONS: Required<AccessibilityOptions> = {
+  focusRingColor: "#2563EB",
+  focusRingWidth: 2,
+  keyBindings: {},
+  label: "Audio waveform",
+  largeStep: 30,
+  step: 5,
+};
+
+export const DEFAULT_KEY_BINDINGS: Record<KeyAction, string[]> = {
+  end: ["End"],
+  home: ["Home"],
+  largeStepBackward: ["PageDown"],
+  largeStepForward: ["PageUp"],
+  nextMarker: ["m"],
+  nextRegion: ["r"],
+  previousMarker: ["Shift+M"],
+  previousRegion: ["Shift+R"],
+  stepBackward: ["ArrowLeft", "ArrowDown"],
+  stepForward: ["ArrowRight", "ArrowUp"],
+};
+
+export const DEFAULT_HOVER_OPTIONS: Required<HoverOptions> = {
+  color: "rgba(17, 24, 39, 0.6)",
+  font: "11px sans-serif",
+  shadeColor: "rgba(255, 255, 255, 0.3)",
+  tooltip: true,
+  tooltipBackground: "rgba(17, 24, 39, 0.85)",
+  tooltipColor: "#FFFFFF",
+  width: 1,
+};
+
+export const DEFAULT_SEEK_EASING: Required<SeekEasingOptions> = {
+  duration: 200,
+  easing: t => 1 - (1 - t) ** 3,
+};
+
+export const DEFAULT_TIME_RULER_OPTIONS: Required<TimeRulerOptions> = {
+  beatsPerBar: 4,
+  bpm: 120,
+  color: "#4B5563",
+  font: "10px sans-serif",
+  format: "mm:ss",
+  fps: 30,
+  height: 20,
+  locale: [],
+  minTickSpacing: 80,
+  position: "top",
+};
+
+export const DEFAULT_VIEWPORT: Viewport = { start: 0, end: 1 };
+
+/**
+ * Number of samples (across all channels) processed between two progress reports
+ */
+export const PEAK_EXTRACTION_CHUNK_SIZE = 1 << 20;
@@ -1,18 +1,64 @@
-import { normalizeProgress } from "@/utils";
+import { DEFAULT_VIEWPORT } from "@/constants";
+import { fromViewportProgress, normalizeProgress } from "@/utils";
 
-import type { EventCallbacks } from "@/types";
+import type { EventCallbacks, InteractionMode, PointerPosition, Viewport } from "@/types";
+
+type GestureState = "delegated" | "pending" | "scrubbing";
+
+interface PointerGesture {
+  pointerId: number;
+  pointerType: string;
+  position: PointerPosition;
+  startX: number;
+  startY: number;
+  state: GestureState;
+}
+
+interface PinchState {
+  distance: number;
+  midX: number;
+  pointers: Map<number, { x: number; y: number }>;
+  time: number;
+  /** Midpoint speed in px/ms, carried on as inertia when the pinch ends */
+  velocity: number;
+}
+
+interface TapRecord {
+  time: number;
+  x: number;
+  y: number;
+}
 
 export class EventHandlerManager {
   private canvas: HTMLCanvasElement;
   private resizeObserver: ResizeObserver;
   private callbacks: EventCallbacks;
   private resizeTimeout?: number;
+  private viewport: Viewport = DEFAULT_VIEWPORT;
+  private gesture?: PointerGesture;
+  private pinch?: PinchState;
+  private lastTap?: TapRecord;
+  private inertiaFrame?: number;
+  private interaction: InteractionMode = "scrub";
+  private dragThreshold = 5; // px
+  private previousTouchAction: string;
   private readonly resizeDebounceDelay = 150; // ms
+  private readonly doubleTapDelay = 300; // ms
+  private readonly doubleTapDistance = 24; // px
+  private readonly doubleTapZoom = 2;
+  private readonly wheelZoomSpeed = 0.01; // doublings per pixel of wheel delta
+  private readonly maxWheelDelta = 50; // px, so one mouse wheel notch zooms gently
+  private readonly inertiaFriction = 0.92; // velocity kept per 16ms frame
+  private readonly minInertiaVelocity = 0.02; // px/ms
 
   constructor(canvas: HTMLCanvasElement, callbacks: EventCallbacks) {
     this.canvas = canvas;
     this.callbacks = callbacks;
 
+    // Vertical swipes keep scrolling the page; horizontal ones and pinches reach the pointer handlers
+    this.previousTouchAction = this.canvas.style.touchAction;
+    this.canvas.style.touchAction = "pan-y";
+
     this.resizeObserver = new ResizeObserver(this.handleResize);
     this.resizeObserver.observe(this.canvas);
 
@@ -22,46 +68,370 @@ export class EventHandlerManager {
   public destroy(): void {
     this.detachEventListeners();
     this.resizeObserver.disconnect();
+    this.stopInertia();
+    this.canvas.style.touchAction = this.previousTouchAction;
+    this.gesture = undefined;
+    this.pinch = undefined;
 
     if (this.resizeTimeout) {
       clearTimeout(this.resizeTimeout);
     }
   }
 
+  /**
+   * Sets the visible range so pointer positions map to absolute progress
+   */
+  public setViewport(viewport: Viewport): void {
+    this.viewport = { ...viewport };
+  }
+
+  /**
+   * Sets how presses seek, and how far (in CSS pixels) a pointer moves before a press
+   * becomes a drag
+   */
+  public setInteraction(mode: InteractionMode, dragThreshold: number): void {
+    this.interaction = mode;
+    this.dragThreshold = Math.max(0, dragThreshold);
+  }
+
   private attachEventListeners(): void {
-    this.canvas.addEventListener("click", this.handleClick);
-    this.canvas.addEventListener("touchstart", this.handleTouch);
+    this.canvas.addEventListener("pointerdown", this.handlePointerDown);
+    this.canvas.addEventListener("pointermove", this.handlePointerMove);
+    this.canvas.addEventListener("pointerup", this.handlePointerUp);
+    this.canvas.addEventListener("pointercancel", this.handlePointerCancel);
+    this.canvas.addEventListener("pointerleave", this.handlePointerLeave);
+    // Not passive, so zooming and horizontal panning can keep the page still
+    this.canvas.addEventListener("wheel", this.handleWheel, { passive: false });
   }
 
   private detachEventListeners(): void {
-    this.canvas.removeEventListener("click", this.handleClick);
-    this.canvas.removeEventListener("touchstart", this.handleTouch);
+    this.canvas.removeEventListener("pointerdown", this.handlePointerDown);
+    this.canvas.removeEventListener("pointermove", this.handlePointerMove);
+    this.canvas.removeEventListener("pointerup", this.handlePointerUp);
+    this.canvas.removeEventListener("pointercancel", this.handlePointerCancel);
+    this.canvas.removeEventListener("pointerleave", this.handlePointerLeave);
+    this.canvas.removeEventListener("wheel", this.handleWheel);
   }
 
-  private handleClick = (event: MouseEvent): void => {
-    event.preventDefault();
+  /**
+   * Markers and regions get the press first. Otherwise it seeks once released, or starts
+   * scrubbing once dragged sideways past the threshold. In `handle` mode only presses on
+   * the playhead are followed. A second finger turns a touch press into a pinch.
+   */
+  private handlePointerDown = (event: PointerEvent): void => {
+    this.stopInertia();
+
+    if (event.button > 0 || this.pinch) return;
 
     try {
-      const progress = this.calculateProgressFromEvent(event);
-      this.callbacks.onSeek(progress);
+      if (this.gesture) {
+        if (event.pointerType === "touch" && this.gesture.pointerType === "touch") {
+          this.startPinch(event, this.gesture);
+        }
+        return;
+      }
+
+      const position = this.getPointerPosition(event);
+      const gesture = {
+        pointerId: event.pointerId,
+        pointerType: event.pointerType,
+        position,
+        startX: event.clientX,
+        startY: event.clientY,
+      };
+
+      if (this.callbacks.onPointerDown?.(position)) {
+        this.gesture = { ...gesture, state: "delegated" };
+      } else if (this.interaction !== "handle" || this.callbacks.hitTestPlayhead?.(position)) {
+        this.gesture = { ...gesture, state: "pending" };
+      } else {
+        return;
+      }
+
+      // Keep receiving moves, and the release, while the pointer is dragged outside the canvas
+      this.canvas.setPointerCapture?.(event.pointerId);
     } catch (e) {
       this.handleError(e);
     }
   };
 
-  private handleTouch = (event: TouchEvent): void => {
-    event.preventDefault();
+  private handlePointerMove = (event: PointerEvent): void => {
+    const gesture = this.gesture;
+
+    try {
+      if (this.pinch?.pointers.has(event.pointerId)) {
+        this.pinch.pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+        this.handlePinchMove(this.pinch);
+        return;
+      }
+
+      if (!gesture) {
+        // Touch pointers only exist while pressed, so they never hover
+        if (event.pointerType !== "touch" && !this.pinch) {
+          this.callbacks.onHover?.(this.getPointerPosition(event));
+        }
+        return;
+      }
 
-    if (!event.changedTouches[0]) return;
+      if (event.pointerId !== gesture.pointerId) return;
+
+      gesture.position = this.getPointerPosition(event);
+
+      if (gesture.state === "delegated") {
+        this.callbacks.onPointerMove?.(gesture.position);
+      } else if (gesture.state === "scrubbing") {
+        this.callbacks.onScrub?.(gesture.position);
+      } else {
+        this.handlePendingMove(event, gesture);
+      }
+    } catch (e) {
+      this.handleError(e);
+    }
+  };
+
+  private handlePendingMove(event: PointerEvent, gesture: PointerGesture): void {
+    const dx = Math.abs(event.clientX - gesture.startX);
+    const dy = Math.abs(event.clientY - gesture.startY);
+
+    if (Math.max(dx, dy) < this.dragThreshold) return;
+
+    if (dy > dx) {
+      // A vertical swipe scrolls the page rather than seeking
+      this.gesture = undefined;
+      this.canvas.releasePointerCapture?.(gesture.pointerId);
+      return;
+    }
+
+    if (this.interaction === "click") return;
+
+    gesture.state = "scrubbing";
+    this.callbacks.onScrubStart?.(gesture.position);
+  }
+
+  private handlePointerUp = (event: PointerEvent): void => {
+    if (this.pinch?.pointers.has(event.pointerId)) {
+      const { velocity } = this.pinch;
+      this.pinch = undefined;
+      this.startInertia(velocity);
+      return;
+    }
+
+    const gesture = this.gesture;
+    if (!gesture || event.pointerId !== gesture.pointerId) return;
+
+    this.gesture = undefined;
 
     try {
-      const progress = this.calculateProgressFromTouch(event.changedTouches[0]);
-      this.callbacks.onSeek(progress);
+      const position = this.getPointerPosition(event);
+
+      if (gesture.state === "scrubbing") {
+        this.callbacks.onScrubEnd?.(position);
+        return;
+      }
+
+      if (gesture.state === "pending" && this.isDoubleTap(event)) {
+        this.callbacks.onZoom?.(this.doubleTapZoom, position);
+        return;
+      }
+
+      // A press that did not drag is a click, which seeks unless only the handle is draggable
+      const dragged = gesture.state === "delegated" && (this.callbacks.onPointerUp?.(position) ?? false);
+      if (!dragged && this.interaction !== "handle") {
+        this.callbacks.onSeek(position.progress);
+      }
+    } catch (e) {
+      this.handleError(e);
+    }
+  };
+
+  /**
+   * The browser took over the pointer, e.g. to scroll the page: drags end where they were
+   * last seen and nothing seeks
+   */
+  private handlePointerCancel = (event: PointerEvent): void => {
+    if (this.pinch?.pointers.has(event.pointerId)) {
+      this.pinch = undefined;
+      return;
+    }
+
+    const gesture = this.gesture;
+    if (!gesture || event.pointerId !== gesture.pointerId) return;
+
+    this.gesture = undefined;
+
+    try {
+      if (gesture.state === "delegated") {
+        this.callbacks.onPointerUp?.(gesture.position);
+      } else if (gesture.state === "scrubbing") {
+        this.callbacks.onScrubEnd?.(gesture.position);
+      }
     } catch (e) {
       this.handleError(e);
     }
   };
 
+  private handlePointerLeave = (event: PointerEvent): void => {
+    // A captured pointer keeps dragging outside the canvas
+    if (event.pointerType === "touch" || event.pointerId === this.gesture?.pointerId) return;
+
+    try {
+      this.callbacks.onHoverEnd?.();
+    } catch (e) {
+      this.handleError(e);
+    }
+  };
+
+  /**
+   * Ctrl+wheel, which is also how browsers report trackpad pinches, zooms around the
+   * pointer. Horizontal scrolling and Shift+wheel pan; plain vertical scrolling is left
+   * to the page.
+   */
+  private handleWheel = (event: WheelEvent): void => {
+    try {
+      const rect = this.canvas.getBoundingClientRect();
+      const unit = event.deltaMode === 1 ? 16 : event.deltaMode === 2 ? rect.width : 1;
+
+      if (event.ctrlKey) {
+        if (!this.callbacks.onZoom) return;
+
+        event.preventDefault();
+        this.stopInertia();
+
+        const delta = Math.max(-this.maxWheelDelta, Math.min(this.maxWheelDelta, event.deltaY * unit));
+        this.callbacks.onZoom(2 ** (-delta * this.wheelZoomSpeed), this.getPointerPosition(event));
+        return;
+      }
+
+      const horizontal = event.shiftKey && event.deltaX === 0 ? event.deltaY : event.deltaX;
+      const isPan = event.shiftKey || Math.abs(event.deltaX) > Math.abs(event.deltaY);
+
+      if (!isPan || horizontal === 0 || !this.callbacks.onPan) return;
+
+      event.preventDefault();
+      this.stopInertia();
+      this.callbacks.onPan(horizontal * unit * this.getProgressPerPixel(rect));
+    } catch (e) {
+      this.handleError(e);
+    }
+  };
+
+  /**
+   * Ends the single-finger gesture the first finger started, then follows both fingers
+   */
+  private startPinch(event: PointerEvent, gesture: PointerGesture): void {
+    if (gesture.state === "scrubbing") {
+      this.callbacks.onScrubEnd?.(gesture.position);
+    } else if (gesture.state === "delegated") {
+      return;
+    }
+
+    const rect = this.canvas.getBoundingClientRect();
+    // The first finger may have moved since it went down
+    const first = { x: rect.left + gesture.position.x, y: rect.top + gesture.position.y };
+    const second = { x: event.clientX, y: event.clientY };
+
+    this.gesture = undefined;
+    this.lastTap = undefined;
+    this.pinch = {
+      distance: Math.hypot(second.x - first.x, second.y - first.y),
+      midX: (first.x + second.x) / 2,
+      pointers: new Map([
+        [gesture.pointerId, first],
+        [event.pointerId, second],
+      ]),
+      time: performance.now(),
+      velocity: 0,
+    };
+
+    this.canvas.setPointerCapture?.(gesture.pointerId);
+    this.canvas.setPointerCapture?.(event.pointerId);
+  }
+
+  /**
+   * Pans by the midpoint's movement, then zooms around the midpoint by the change in
+   * distance between the fingers
+   */
+  private handlePinchMove(pinch: PinchState): void {
+    const [a, b] = [...pinch.pointers.values()];
+    const distance = Math.hypot(b.x - a.x, b.y - a.y);
+    const midX = (a.x + b.x) / 2;
+    const midY = (a.y + b.y) / 2;
+    const dx = midX - pinch.midX;
+    const now = performance.now();
+    const elapsed = now - pinch.time;
+
+    if (dx !== 0) {
+      this.callbacks.onPan?.(-dx * this.getProgressPerPixel(this.canvas.getBoundingClientRect()));
+    }
+
+    if (pinch.distance > 0 && distance > 0 && distance !== pinch.distance) {
+      this.callbacks.onZoom?.(distance / pinch.distance, this.getPositionAt(midX, midY));
+    }
+
+    if (elapsed > 0) {
+      pinch.velocity = 0.8 * (dx / elapsed) + 0.2 * pinch.velocity;
+    }
+
+    pinch.distance = distance;
+    pinch.midX = midX;
+    pinch.time = now;
+  }
+
+  /**
+   * Keeps panning after a pinch ends, slowing down a little every frame
+   */
+  private startInertia(velocity: number): void {
+    if (Math.abs(velocity) < this.minInertiaVelocity || !this.callbacks.onPan) return;
+
+    let speed = velocity;
+    let last = performance.now();
+
+    const step = (now: number): void => {
+      const elapsed = Math.max(0, now - last);
+      last = now;
+      speed *= this.inertiaFriction ** (elapsed / 16);
+
+      if (Math.abs(speed) < this.minInertiaVelocity) {
+        this.inertiaFrame = undefined;
+        return;
+      }
+
+      try {
+        this.callbacks.onPan?.(-speed * elapsed * this.getProgressPerPixel(this.canvas.getBoundingClientRect()));
+        this.inertiaFrame = requestAnimationFrame(step);
+      } catch (e) {
+        this.inertiaFrame = undefined;
+        this.handleError(e);
+      }
+    };
+
+    this.inertiaFrame = requestAnimationFrame(step);
+  }
+
+  private stopInertia(): void {
+    if (this.inertiaFrame !== undefined) {
+      cancelAnimationFrame(this.inertiaFrame);
+      this.inertiaFrame = undefined;
+    }
+  }
+
+  /**
+   * Whether a finger or pen tap lands close to the previous one, soon after it
+   */
+  private isDoubleTap(event: PointerEvent): boolean {
+    if (event.pointerType === "mouse") return false;
+
+    const now = performance.now();
+    const last = this.lastTap;
+    const isDouble =
+      last !== undefined &&
+      now - last.time <= this.doubleTapDelay &&
+      Math.hypot(event.clientX - last.x, event.clientY - last.y) <= this.doubleTapDistance;
+
+    this.lastTap = isDouble ? undefined : { time: now, x: event.clientX, y: event.clientY };
+    return isDouble;
+  }
+
   private handleResize = (): void => {
     // Clear any pending resize timeout
     if (this.resizeTimeout) {
@@ -82,16 +452,25 @@ export class EventHandlerManager {
     }, this.resizeDebounceDelay);
   };
 
-  private calculateProgressFromEvent(event: MouseEvent): number {
-    const rect = this.canvas.getBoundingClientRect();
-    const x = event.clientX - rect.left;
-    return normalizeProgress(x / rect.width);
+  private getProgressPerPixel(rect: DOMRect): number {
+    const { end, start } = this.viewport;
+    return (end - start) / (rect.width || 1);
   }
 
-  private calculateProgressFromTouch(touch: Touch): number {
+  private getPointerPosition(event: MouseEvent): PointerPosition {
+    return this.getPositionAt(event.clientX, event.clientY);
+  }
+
+  private getPositionAt(clientX: number, clientY: number): PointerPosition {
     const rect = this.canvas.getBoundingClientRect();
-    const x = touch.clientX - rect.left;
-    return normalizeProgress(x / rect.width);
+    const x = clientX - rect.left;
+
+    return {
+      progress: normalizeProgress(fromViewportProgress(normalizeProgress(x / rect.width), this.viewport)),
+      progressPerPixel: this.getProgressPerPixel(rect),
+      x,
+      y: clientY - rect.top,
+    };
   }
 
   private handleError(e: unknown): void {
@@ -1,4 +1,5 @@
 export { default as WaveformRenderer } from "@/renderer";
+export { PeakPyramid } from "@/peak-pyramid";
 
 export type {
   ProgressLineOptions,
@@ -10,8 +11,107 @@ export type {
   RenderCache,
   CachedBarData,
   DebugInfo,
+  AccessibilityOptions,
+  AmplitudeScale,
+  AmplitudeScaleOptions,
+  AmplitudeScaleType,
+  AudiowaveformData,
+  AudiowaveformExportOptions,
+  AudiowaveformJson,
+  BarColor,
+  BarColorCallback,
+  BufferedRange,
+  ChannelLayout,
+  ChannelPeaks,
+  ColormapName,
+  ColormapOptions,
+  DecodedWav,
+  DownsamplingMethod,
+  GradientStop,
+  HoverInfo,
+  HoverOptions,
+  InteractionMode,
+  KeyAction,
+  KeyBindings,
+  LinearGradientPaint,
+  Marker,
+  MarkerInit,
+  MarkerStyle,
+  MinMaxPeaks,
+  Normalization,
+  NormalizationOptions,
+  NormalizationType,
+  Paint,
+  PaintArea,
+  PaintCallback,
+  PaintStyle,
+  PaintUnits,
+  PatternPaint,
+  PeakAggregation,
+  PeakExtractionFormat,
+  PeakExtractionOptions,
+  PeakPyramidOptions,
+  ProgressState,
+  RadialGradientPaint,
+  Region,
+  RegionInit,
+  Resampling,
+  SeekEasingOptions,
+  UpsamplingMethod,
+  Viewport,
+  WavSampleFormat,
+  WaveformPeaks,
+  WaveformStyle,
+  WaveformStyleOptions,
+  WaveformStyleType,
+  TimeFormat,
+  TimeFormatContext,
+  TimeFormatter,
+  TimeRangesLike,
+  TimeRulerOptions,
+  TimeTickIntervals,
 } from "@/types";
 
-export { getPeaksFromAudioBuffer } from "@/utils/peaks";
+export {
+  getChannelPeaksFromAudioBuffer,
+  getMidSidePeaksFromAudioBuffer,
+  getMinMaxPeaksFromAudioBuffer,
+  getPeakRmsFromAudioBuffer,
+  getNormalizationDivisor,
+  getPeaksFromAudioBuffer,
+  normalizeWaveformPeaks,
+  splitInterleavedPeaks,
+} from "@/utils/peaks";
 
-export { DEFAULT_OPTIONS } from "@/constants/default";
+export { applyAmplitudeScale } from "@/utils/canvas";
+
+export { resampleChannelPeaks } from "@/utils/resample";
+
+export { resolvePaint } from "@/utils/paint";
+
+export { COLORMAPS, sampleColormap } from "@/utils/colormap";
+
+export { parseRegions, serializeRegions } from "@/utils/regions";
+
+export { formatRulerTime, formatTime, getTickIntervals } from "@/utils/time-ruler";
+
+export { extractPeaks } from "@/utils/peak-worker";
+
+export {
+  parseAudiowaveformDat,
+  parseAudiowaveformJson,
+  toAudiowaveformDat,
+  toAudiowaveformJson,
+} from "@/utils/audiowaveform";
+
+export { decodeWav } from "@/utils/wav";
+
+export {
+  DEFAULT_ACCESSIBILITY_OPTIONS,
+  DEFAULT_HOVER_OPTIONS,
+  DEFAULT_KEY_BINDINGS,
+  DEFAULT_OPTIONS,
+  DEFAULT_SEEK_EASING,
+  DEFAULT_TIME_RULER_OPTIONS,
+  DEFAULT_VIEWPORT,
+} from "@/constants/default";
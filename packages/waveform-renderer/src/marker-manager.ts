@@ -0,0 +1,156 @@
+import { createMarker } from "@/utils";
+
+import type { Marker, MarkerCallbacks, MarkerInit, PointerPosition } from "@/types";
+
+interface DragState {
+  dragging: boolean;
+  markerId: string;
+  origin: PointerPosition;
+  position: number;
+}
+
+export class MarkerManager {
+  private callbacks: MarkerCallbacks;
+  private markers: Marker[] = [];
+  private drag?: DragState;
+  private nextId = 1;
+  private readonly lineHitWidth = 4; // px on each side of a marker line
+  private readonly dragThreshold = 3; // px
+
+  constructor(callbacks: MarkerCallbacks) {
+    this.callbacks = callbacks;
+  }
+
+  public getMarkers(): Marker[] {
+    return this.markers.map(marker => createMarker(marker, marker.id));
+  }
+
+  public add(init: MarkerInit): Marker {
+    const id = init.id ?? this.generateId();
+
+    if (this.markers.some(marker => marker.id === id)) {
+      throw new Error(`A marker with id "${id}" already exists`);
+    }
+
+    const marker = createMarker(init, id);
+    this.markers.push(marker);
+    this.callbacks.onChange();
+    return createMarker(marker, id);
+  }
+
+  public remove(id: string): void {
+    const index = this.markers.findIndex(marker => marker.id === id);
+
+    if (index === -1) {
+      throw new Error(`Marker not found: ${id}`);
+    }
+
+    this.markers.splice(index, 1);
+    if (this.drag?.markerId === id) {
+      this.drag = undefined;
+    }
+    this.callbacks.onChange();
+  }
+
+  /**
+   * Replaces every marker; nothing changes when one of them is invalid
+   */
+  public set(markers: MarkerInit[]): void {
+    const previous = this.markers;
+    this.markers = [];
+    this.drag = undefined;
+
+    try {
+      markers.forEach(marker => this.add(marker));
+    } catch (e) {
+      this.markers = previous;
+      throw e;
+    } finally {
+      this.callbacks.onChange();
+    }
+  }
+
+  /**
+   * Finds the topmost marker whose flag or line is under the pointer
+   */
+  public hitTest(position: PointerPosition): Marker | null {
+    const flags = this.callbacks.getFlags();
+
+    for (let i = flags.length - 1; i >= 0; i--) {
+      const { height, id, width, x, y } = flags[i];
+      if (position.x >= x && position.x <= x + width && position.y >= y && position.y <= y + height) {
+        const marker = this.markers.find(m => m.id === id);
+        if (marker) return createMarker(marker, id);
+      }
+    }
+
+    for (let i = this.markers.length - 1; i >= 0; i--) {
+      const marker = this.markers[i];
+      if (Math.abs(position.progress - marker.position) / position.progressPerPixel <= this.lineHitWidth) {
+        return createMarker(marker, marker.id);
+      }
+    }
+
+    return null;
+  }
+
+  public handlePointerDown(position: PointerPosition): boolean {
+    const marker = this.hitTest(position);
+
+    if (!marker) {
+      return false;
+    }
+
+    this.drag = { dragging: false, markerId: marker.id, origin: position, position: marker.position };
+    return true;
+  }
+
+  public handlePointerMove(position: PointerPosition): void {
+    const drag = this.drag;
+    const marker = drag && this.markers.find(m => m.id === drag.markerId);
+
+    if (!drag || !marker?.draggable) {
+      return;
+    }
+
+    // Small movements are still clicks
+    if (!drag.dragging && Math.abs(position.x - drag.origin.x) < this.dragThreshold) {
+      return;
+    }
+    drag.dragging = true;
+
+    marker.position = Math.max(0, Math.min(1, drag.position + position.progress - drag.origin.progress));
+    this.callbacks.onChange();
+  }
+
+  /**
+   * Finishes the gesture. Returns true after a drag, so the click that follows does not seek.
+   */
+  public handlePointerUp(position: PointerPosition): boolean {
+    this.handlePointerMove(position);
+
+    const drag = this.drag;
+    this.drag = undefined;
+
+    const marker = drag && this.markers.find(m => m.id === drag.markerId);
+    if (!drag || !marker) {
+      return false;
+    }
+
+    if (!drag.dragging) {
+      this.callbacks.onClick(createMarker(marker, marker.id));
+      return false;
+    }
+
+    this.callbacks.onMove(createMarker(marker, marker.id));
+    return true;
+  }
+
+  private generateId(): string {
+    let id: string;
+    do {
+      id = `marker-${this.nextId++}`;
+    } while (this.markers.some(marker => marker.id === id));
+    return id;
+  }
+}
@@ -0,0 +1,153 @@
+import type { MediaCallbacks } from "@/types";
+
+const MEDIA_EVENTS = [
+  "durationchange",
+  "emptied",
+  "ended",
+  "loadedmetadata",
+  "pause",
+  "playing",
+  "progress",
+  "ratechange",
+  "seeked",
+  "seeking",
+  "timeupdate",
+  "waiting",
+] as const;
+
+/**
+ * Follows an audio or video element. `timeupdate` only fires a few times per second, so
+ * while the media plays the playhead is moved every frame from the last reported time,
+ * the time elapsed since and the playback rate.
+ */
+export class MediaBinding {
+  private media: HTMLMediaElement;
+  private callbacks: MediaCallbacks;
+  private frameRequest?: number;
+  private anchorTime = 0; // s, media time at the last report
+  private anchorStamp = 0; // ms, when it was reported
+
+  constructor(media: HTMLMediaElement, callbacks: MediaCallbacks) {
+    this.media = media;
+    this.callbacks = callbacks;
+
+    MEDIA_EVENTS.forEach(type => this.media.addEventListener(type, this.handleMediaEvent));
+
+    this.updateDuration();
+    this.updateBuffered();
+    this.updateTime();
+
+    if (this.isPlaying()) {
+      this.startFrames();
+    }
+  }
+
+  public destroy(): void {
+    MEDIA_EVENTS.forEach(type => this.media.removeEventListener(type, this.handleMediaEvent));
+    this.stopFrames();
+  }
+
+  /**
+   * Moves the media to an absolute position (0-1). Ignored until the duration is known.
+   */
+  public seek(progress: number): void {
+    const duration = this.getDuration();
+    if (duration === null) return;
+
+    this.media.currentTime = progress * duration;
+    this.updateTime();
+  }
+
+  private handleMediaEvent = (event: Event): void => {
+    switch (event.type) {
+      case "durationchange":
+      case "loadedmetadata":
+        this.updateDuration();
+        this.updateTime();
+        break;
+      case "emptied":
+        this.stopFrames();
+        this.callbacks.onBufferedChange([]);
+        this.updateTime();
+        break;
+      case "playing":
+        this.updateTime();
+        this.startFrames();
+        break;
+      case "ended":
+      case "pause":
+      case "seeking":
+      case "waiting":
+        this.stopFrames();
+        this.updateTime();
+        break;
+      case "progress":
+        this.updateBuffered();
+        break;
+      case "ratechange":
+      case "seeked":
+      case "timeupdate":
+        this.updateTime();
+        if (event.type === "seeked" && this.isPlaying()) {
+          this.startFrames();
+        }
+        break;
+    }
+  };
+
+  private isPlaying(): boolean {
+    return !this.media.paused && !this.media.ended && !this.media.seeking;
+  }
+
+  private getDuration(): null | number {
+    const { duration } = this.media;
+    return Number.isFinite(duration) && duration > 0 ? duration : null;
+  }
+
+  private updateDuration(): void {
+    const duration = this.getDuration();
+    if (duration !== null) {
+      this.callbacks.onDurationChange(duration);
+    }
+  }
+
+  private updateBuffered(): void {
+    this.callbacks.onBufferedChange(this.media.buffered);
+  }
+
+  /**
+   * Reports the media's own time and interpolates from there
+   */
+  private updateTime(): void {
+    this.anchorTime = this.media.currentTime;
+    this.anchorStamp = performance.now();
+    this.reportTime(this.anchorTime);
+  }
+
+  private reportTime(time: number): void {
+    const duration = this.getDuration();
+    if (duration !== null) {
+      this.callbacks.onProgress(Math.max(0, Math.min(1, time / duration)));
+    }
+  }
+
+  private startFrames(): void {
+    if (this.frameRequest !== undefined) return;
+
+    this.frameRequest = requestAnimationFrame(this.handleFrame);
+  }
+
+  private stopFrames(): void {
+    if (this.frameRequest === undefined) return;
+
+    cancelAnimationFrame(this.frameRequest);
+    this.frameRequest = undefined;
+  }
+
+  private handleFrame = (now: number): void => {
+    this.frameRequest = requestAnimationFrame(this.handleFrame);
+
+    const elapsed = Math.max(0, now - this.anchorStamp) / 1000;
+    this.reportTime(this.anchorTime + elapsed * this.media.playbackRate);
+  };
+}
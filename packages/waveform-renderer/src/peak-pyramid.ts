@@ -0,0 +1,179 @@
+import { getPeakChannels, getPeakCount, isMinMaxPeaks, normalizeChannelPeaks } from "@/utils";
+
+import type { ChannelPeaks, MinMaxPeaks, PeakPyramidOptions, WaveformPeaks } from "@/types";
+
+interface PyramidLevel {
+  max: Float32Array;
+  min: Float32Array;
+}
+
+/**
+ * Multi-resolution min/max peaks. Level 0 holds the highest resolution and every
+ * following level halves the bucket count, so any range can be summarized at any
+ * bar count without skipping the samples between two bars.
+ */
+export class PeakPyramid {
+  private static nextId = 0;
+
+  public readonly id = PeakPyramid.nextId++;
+  public readonly signed: boolean;
+
+  private readonly channels: PyramidLevel[][];
+
+  private constructor(channels: MinMaxPeaks[], signed: boolean) {
+    this.channels = channels.map(channel => this.buildLevels(channel));
+    this.signed = signed;
+  }
+
+  /**
+   * Builds a pyramid from decoded audio, reading `samplesPerPeak` samples per base bucket
+   */
+  public static fromAudioBuffer(audioBuffer: AudioBuffer, options: PeakPyramidOptions = {}): PeakPyramid {
+    const { allChannels = false, samplesPerPeak = 256 } = options;
+    const channelCount = allChannels ? audioBuffer.numberOfChannels : 1;
+    const channels: MinMaxPeaks[] = [];
+
+    for (let channel = 0; channel < channelCount; channel++) {
+      const channelData = audioBuffer.getChannelData(channel);
+      const length = Math.max(1, Math.ceil(channelData.length / samplesPerPeak));
+      const min: number[] = Array.from({ length });
+      const max: number[] = Array.from({ length });
+
+      for (let i = 0; i < length; i++) {
+        const start = i * samplesPerPeak;
+        const end = Math.min(channelData.length, start + samplesPerPeak);
+        // Seeded from the bucket, so a DC offset is not pulled back to the centerline
+        let low = start < end ? channelData[start] : 0;
+        let high = low;
+
+        for (let j = start; j < end; j++) {
+          const sample = channelData[j];
+          if (sample < low) low = sample;
+          if (sample > high) high = sample;
+        }
+
+        min[i] = low;
+        max[i] = high;
+      }
+
+      channels.push({ max, min });
+    }
+
+    return new PeakPyramid(normalizeChannelPeaks(channels) as MinMaxPeaks[], true);
+  }
+
+  /**
+   * Builds a pyramid from high-resolution peaks in any of the supported peak shapes.
+   * Peaks beyond -1 to 1 are scaled down to fit; quieter peaks are kept as they are.
+   */
+  public static fromPeaks(peaks: WaveformPeaks): PeakPyramid {
+    const source = getPeakChannels(peaks);
+
+    if (source.length === 0 || source.some(channel => getPeakCount(channel) === 0)) {
+      throw new Error("Peaks array must not be empty");
+    }
+
+    const signed = source.every(channel => isMinMaxPeaks(channel));
+    const channels = source.map(channel =>
+      isMinMaxPeaks(channel)
+        ? { max: [...channel.max], min: [...channel.min] }
+        : { max: channel.map(Math.abs), min: channel.map(peak => -Math.abs(peak)) },
+    );
+
+    return new PeakPyramid(normalizeChannelPeaks(channels) as MinMaxPeaks[], signed);
+  }
+
+  /**
+   * Number of buckets at the highest resolution
+   */
+  public get length(): number {
+    return this.channels[0][0].max.length;
+  }
+
+  public get levelCount(): number {
+    return this.channels[0].length;
+  }
+
+  public get channelCount(): number {
+    return this.channels.length;
+  }
+
+  /**
+   * Picks the coarsest level that still has at least one bucket per requested bar
+   */
+  public getLevelIndex(bucketCount: number, start = 0, end = 1): number {
+    const span = Math.max(0, end - start) * this.length;
+    const bucketsPerBar = span / Math.max(1, bucketCount);
+    const level = Math.floor(Math.log2(Math.max(1, bucketsPerBar)));
+
+    return Math.max(0, Math.min(this.levelCount - 1, level));
+  }
+
+  /**
+   * Summarizes the range `[start, end)` (as fractions of the full length) into
+   * `bucketCount` peaks, using the min and max of every bucket the range covers
+   */
+  public getPeaks(bucketCount: number, start = 0, end = 1): WaveformPeaks {
+    const levelIndex = this.getLevelIndex(bucketCount, start, end);
+    const channels: ChannelPeaks[] = this.channels.map(levels =>
+      this.summarize(levels[levelIndex], levelIndex, bucketCount, start, end),
+    );
+
+    return channels.length > 1 ? channels : channels[0];
+  }
+
+  private summarize(
+    level: PyramidLevel,
+    levelIndex: number,
+    bucketCount: number,
+    start: number,
+    end: number,
+  ): ChannelPeaks {
+    const scale = 2 ** levelIndex;
+    const startIndex = (start * this.length) / scale;
+    const span = ((end - start) * this.length) / scale;
+    const min: number[] = Array.from({ length: bucketCount });
+    const max: number[] = Array.from({ length: bucketCount });
+
+    for (let i = 0; i < bucketCount; i++) {
+      const from = Math.floor(startIndex + (i * span) / bucketCount);
+      const to = Math.max(from + 1, Math.floor(startIndex + ((i + 1) * span) / bucketCount));
+      const first = Math.max(0, from);
+      const last = Math.min(level.max.length, to);
+      let low = first < last ? level.min[first] : 0;
+      let high = first < last ? level.max[first] : 0;
+
+      for (let j = first; j < last; j++) {
+        if (level.min[j] < low) low = level.min[j];
+        if (level.max[j] > high) high = level.max[j];
+      }
+
+      min[i] = low;
+      max[i] = high;
+    }
+
+    return this.signed ? { max, min } : max;
+  }
+
+  private buildLevels(base: MinMaxPeaks): PyramidLevel[] {
+    const levels: PyramidLevel[] = [{ max: Float32Array.from(base.max), min: Float32Array.from(base.min) }];
+
+    while (levels[levels.length - 1].max.length > 1) {
+      const previous = levels[levels.length - 1];
+      const length = Math.ceil(previous.max.length / 2);
+      const min = new Float32Array(length);
+      const max = new Float32Array(length);
+
+      for (let i = 0; i < length; i++) {
+        const left = i * 2;
+        const right = Math.min(left + 1, previous.max.length - 1);
+        min[i] = Math.min(previous.min[left], previous.min[right]);
+        max[i] = Math.max(previous.max[left], previous.max[right]);
+      }
+
+      levels.push({ max, min });
+    }
+
+    return levels;
+  }
+}
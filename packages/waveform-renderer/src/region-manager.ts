@@ -0,0 +1,217 @@
+import { createRegion } from "@/utils";
+
+import type { PointerPosition, Region, RegionCallbacks, RegionInit } from "@/types";
+
+type DragMode = "click" | "create" | "move" | "resizeEnd" | "resizeStart";
+
+interface DragState {
+  dragging: boolean;
+  end: number;
+  mode: DragMode;
+  origin: PointerPosition;
+  regionId?: string;
+  start: number;
+}
+
+export class RegionManager {
+  private callbacks: RegionCallbacks;
+  private regions: Region[] = [];
+  private drag?: DragState;
+  private nextId = 1;
+  private readonly handleWidth = 6; // px on each side of an edge
+  private readonly dragThreshold = 3; // px
+
+  constructor(callbacks: RegionCallbacks) {
+    this.callbacks = callbacks;
+  }
+
+  public getRegions(): Region[] {
+    return this.regions.map(region => ({ ...region }));
+  }
+
+  public add(init: RegionInit): Region {
+    const id = init.id ?? this.generateId();
+
+    if (this.regions.some(region => region.id === id)) {
+      throw new Error(`A region with id "${id}" already exists`);
+    }
+
+    const region = createRegion(init, id);
+    this.regions.push(region);
+    this.callbacks.onChange();
+    return { ...region };
+  }
+
+  public update(id: string, changes: Partial<Omit<Region, "id">>): Region {
+    const index = this.findIndex(id);
+    const region = createRegion({ ...this.regions[index], ...changes }, id);
+
+    this.regions[index] = region;
+    this.callbacks.onChange();
+    return { ...region };
+  }
+
+  public remove(id: string): void {
+    const index = this.findIndex(id);
+
+    this.regions.splice(index, 1);
+    if (this.drag?.regionId === id) {
+      this.drag = undefined;
+    }
+    this.callbacks.onChange();
+  }
+
+  /**
+   * Replaces every region; nothing changes when one of them is invalid
+   */
+  public set(regions: RegionInit[]): void {
+    const previous = this.regions;
+    this.regions = [];
+    this.drag = undefined;
+
+    try {
+      regions.forEach(region => this.add(region));
+    } catch (e) {
+      this.regions = previous;
+      throw e;
+    } finally {
+      this.callbacks.onChange();
+    }
+  }
+
+  /**
+   * Starts tracking a gesture: resizing near an edge, moving inside a region, or drawing
+   * a new region on empty space when `createOnDrag` is set
+   */
+  public handlePointerDown(position: PointerPosition, createOnDrag: boolean): boolean {
+    const hit = this.hitTest(position);
+
+    if (!hit && !createOnDrag) {
+      return false;
+    }
+
+    const region = hit?.region;
+    this.drag = {
+      dragging: false,
+      end: region?.end ?? position.progress,
+      mode: hit?.mode ?? "create",
+      origin: position,
+      regionId: region?.id,
+      start: region?.start ?? position.progress,
+    };
+    return true;
+  }
+
+  public handlePointerMove(position: PointerPosition): void {
+    const drag = this.drag;
+
+    if (!drag || drag.mode === "click") {
+      return;
+    }
+
+    // Small movements are still clicks
+    if (!drag.dragging && Math.abs(position.x - drag.origin.x) < this.dragThreshold) {
+      return;
+    }
+    drag.dragging = true;
+
+    const progress = Math.max(0, Math.min(1, position.progress));
+    const delta = progress - drag.origin.progress;
+    let { end, start } = drag;
+
+    switch (drag.mode) {
+      case "create":
+        start = Math.min(drag.origin.progress, progress);
+        end = Math.max(drag.origin.progress, progress);
+        break;
+      case "move": {
+        const length = drag.end - drag.start;
+        start = Math.max(0, Math.min(1 - length, drag.start + delta));
+        end = start + length;
+        break;
+      }
+      // An edge dragged past the other one flips the region instead of collapsing it
+      case "resizeStart":
+        start = Math.min(progress, drag.end);
+        end = Math.max(progress, drag.end);
+        break;
+      case "resizeEnd":
+        start = Math.min(progress, drag.start);
+        end = Math.max(progress, drag.start);
+        break;
+    }
+
+    if (drag.regionId === undefined) {
+      drag.regionId = this.add({ start, end }).id;
+    } else {
+      this.update(drag.regionId, { start, end });
+    }
+  }
+
+  /**
+   * Finishes the gesture. Returns true after a drag, so the click that follows does not seek.
+   */
+  public handlePointerUp(position: PointerPosition): boolean {
+    this.handlePointerMove(position);
+
+    const drag = this.drag;
+    this.drag = undefined;
+
+    const region = drag?.regionId !== undefined ? this.regions.find(r => r.id === drag.regionId) : undefined;
+    if (!drag || !region) {
+      return false;
+    }
+
+    if (!drag.dragging) {
+      this.callbacks.onClick({ ...region });
+      return false;
+    }
+
+    if (drag.mode === "create") {
+      this.callbacks.onCreate({ ...region });
+    } else {
+      this.callbacks.onUpdate({ ...region });
+    }
+    return true;
+  }
+
+  /**
+   * Finds the topmost region under the pointer; edges within `handleWidth` pixels resize it
+   */
+  private hitTest(position: PointerPosition): { mode: DragMode; region: Region } | null {
+    const { progress, progressPerPixel } = position;
+
+    for (let i = this.regions.length - 1; i >= 0; i--) {
+      const region = this.regions[i];
+      const toStart = Math.abs(progress - region.start) / progressPerPixel;
+      const toEnd = Math.abs(progress - region.end) / progressPerPixel;
+
+      if (region.resizable !== false && Math.min(toStart, toEnd) <= this.handleWidth) {
+        return { mode: toEnd < toStart ? "resizeEnd" : "resizeStart", region };
+      }
+
+      if (progress >= region.start && progress <= region.end) {
+        return { mode: region.draggable === false ? "click" : "move", region };
+      }
+    }
+
+    return null;
+  }
+
+  private findIndex(id: string): number {
+    const index = this.regions.findIndex(region => region.id === id);
+
+    if (index === -1) {
+      throw new Error(`Region not found: ${id}`);
+    }
+    return index;
+  }
+
+  private generateId(): string {
+    let id: string;
+    do {
+      id = `region-${this.nextId++}`;
+    } while (this.regions.some(region => region.id === id));
+    return id;
+  }
+}
@@ -1,36 +1,122 @@
 import type {
+  AudiowaveformExportOptions,
+  AudiowaveformJson,
+  BufferedRange,
+  CachedBarData,
+  ChannelPeaks,
   CustomRenderer,
   DirtyFlags,
+  DirtyRegion,
+  HoverInfo,
+  Marker,
+  MarkerInit,
+  MinMaxPeaks,
+  PointerPosition,
   ProgressLineOptions,
+  Region,
+  RegionInit,
+  RenderCache,
   RenderHook,
+  SeekEasingOptions,
+  TimeRangesLike,
+  Viewport,
   WaveformEvents,
   WaveformOptions,
+  WaveformPeaks,
 } from "@/types";
 
-import { DEFAULT_OPTIONS } from "@/constants";
+import {
+  DEFAULT_ACCESSIBILITY_OPTIONS,
+  DEFAULT_HOVER_OPTIONS,
+  DEFAULT_OPTIONS,
+  DEFAULT_SEEK_EASING,
+  DEFAULT_TIME_RULER_OPTIONS,
+  DEFAULT_VIEWPORT,
+} from "@/constants";
 import { EventEmitter } from "@/events";
-import { normalizePeaks, normalizeProgress, resizeCanvas, setupCanvasContext } from "@/utils";
-
+import {
+  applyForcedColors,
+  clampViewport,
+  fromViewportProgress,
+  getNormalizationDivisor,
+  getPeakChannels,
+  getPeakCount,
+  isMinMaxPeaks,
+  isMultiChannelPeaks,
+  normalizeProgress,
+  normalizeWaveformPeaks,
+  parseRegions,
+  readTimeRanges,
+  resizeCanvas,
+  serializeRegions,
+  setupCanvasContext,
+  toBufferedRanges,
+  toAudiowaveformDat,
+  toAudiowaveformJson,
+} from "@/utils";
+
+import { AccessibilityManager } from "./accessibility-manager";
 import { CacheManager } from "./cache-manager";
 import { DebugSystem } from "./debug-system";
 import { EventHandlerManager } from "./event-handler";
+import { MarkerManager } from "./marker-manager";
+import { MediaBinding } from "./media-binding";
+import { PeakPyramid } from "./peak-pyramid";
+import { RegionManager } from "./region-manager";
 import { RenderingEngine } from "./rendering-engine";
 
+/**
+ * Playback clock: progress at `stamp` (ms), advancing `rate` seconds per second of a
+ * `duration` seconds long file
+ */
+interface PlaybackClock {
+  duration: number;
+  progress: number;
+  rate: number;
+  stamp: number;
+}
+
+/**
+ * Seek animation from the playhead drawn at `start` (ms)
+ */
+interface SeekTransition {
+  from: number;
+  start: number;
+}
+
 export default class WaveformRenderer extends EventEmitter<WaveformEvents> {
   private readonly canvas!: HTMLCanvasElement;
   private readonly ctx!: CanvasRenderingContext2D;
   private readonly devicePixelRatio!: number;
 
   // Core modules
+  private readonly accessibilityManager!: AccessibilityManager;
   private readonly cacheManager!: CacheManager;
   private readonly debugSystem!: DebugSystem;
   private readonly eventHandler!: EventHandlerManager;
+  private readonly markerManager!: MarkerManager;
+  private readonly regionManager!: RegionManager;
   private readonly renderingEngine!: RenderingEngine;
 
   // State
   private isDestroyed: boolean = false;
   private options!: Required<WaveformOptions>;
-  private peaks: number[] = [];
+  private peaks: PeakPyramid | WaveformPeaks = [];
+  private sourcePeaks: WaveformPeaks = [];
+  private normalizationDivisor = 1;
+  private viewport: Viewport = { ...DEFAULT_VIEWPORT };
+  private totalLength?: number;
+  private dirtyRegion?: DirtyRegion;
+  private hoverInfo: HoverInfo | null = null;
+  private forcedColors = false;
+  private mediaBinding?: MediaBinding;
+  private bufferedTimes: [number, number][] = [];
+  private clock?: PlaybackClock;
+  private clockFrame?: number;
+  private seekTransition?: SeekTransition;
+  private displayedProgress = 0;
+  private isScrubbing = false;
+  private lastRenderedCache?: RenderCache;
   private dirtyFlags: DirtyFlags = {
     peaks: true,
     options: true,
@@ -42,8 +128,9 @@ export default class WaveformRenderer extends EventEmitter<WaveformEvents> {
   private frameRequest?: number;
   private lastRenderTime = 0;
   private readonly minRenderInterval = 16; // ~60fps max
+  private readonly playheadHitWidth = 6; // px on each side of the playhead
 
-  constructor(canvas: HTMLCanvasElement, peaks: number[], options: Partial<WaveformOptions> = {}) {
+  constructor(canvas: HTMLCanvasElement, peaks: PeakPyramid | WaveformPeaks, options: Partial<WaveformOptions> = {}) {
     super();
 
     const startTime = performance.now();
@@ -53,8 +140,8 @@ export default class WaveformRenderer extends EventEmitter<WaveformEvents> {
 
       this.canvas = canvas;
       this.ctx = this.getCanvasContext(canvas);
-      this.peaks = normalizePeaks(peaks);
       this.options = this.mergeOptions(options);
+      this.loadPeaks(peaks);
       this.devicePixelRatio = Math.max(window.devicePixelRatio || 1, this.options.minPixelRatio);
 
       // Initialize modules
@@ -64,11 +151,55 @@ export default class WaveformRenderer extends EventEmitter<WaveformEvents> {
         onRenderStart: () => this.emit("renderStart", undefined),
         onRenderComplete: () => this.emit("renderComplete", undefined),
       });
+      this.regionManager = new RegionManager({
+        onChange: () => this.handleRegionsChange(),
+        onClick: region => this.emit("regionClick", region),
+        onCreate: region => this.emit("regionCreated", region),
+        onUpdate: region => this.emit("regionUpdated", region),
+      });
+      this.markerManager = new MarkerManager({
+        getFlags: () => this.renderingEngine.getMarkerFlags(),
+        onChange: () => this.handleMarkersChange(),
+        onClick: marker => this.emit("markerClick", marker),
+        onMove: marker => this.emit("markerMoved", marker),
+      });
       this.eventHandler = new EventHandlerManager(this.canvas, {
         onSeek: progress => this.handleSeek(progress),
         onResize: dimensions => this.handleResize(dimensions),
         onError: error => this.handleError(error),
+        // Markers are drawn above regions, so they get the pointer first
+        onPointerDown: position =>
+          this.markerManager.handlePointerDown(position) ||
+          this.regionManager.handlePointerDown(position, this.options.createRegionsOnDrag),
+        onPointerMove: position => {
+          this.markerManager.handlePointerMove(position);
+          this.regionManager.handlePointerMove(position);
+        },
+        onPointerUp: position => {
+          const markerDragged = this.markerManager.handlePointerUp(position);
+          return this.regionManager.handlePointerUp(position) || markerDragged;
+        },
+        onHover: position => this.handleHover(position),
+        onHoverEnd: () => this.handleHoverEnd(),
+        hitTestPlayhead: position =>
+          Math.abs(position.progress - this.options.progress) <= this.playheadHitWidth * position.progressPerPixel,
+        onScrubStart: position => this.handleScrub("scrubStart", position.progress),
+        onScrub: position => this.handleScrub("scrub", position.progress),
+        onScrubEnd: position => this.handleScrub("scrubEnd", position.progress),
+        onZoom: (factor, anchor) => this.handleZoomGesture(factor, anchor.progress),
+        onPan: delta => this.handlePanGesture(delta),
+      });
+      this.eventHandler.setInteraction(this.options.interaction, this.options.dragThreshold);
+      this.accessibilityManager = new AccessibilityManager(this.canvas, {
+        getMarkers: () => this.markerManager.getMarkers(),
+        getRegions: () => this.regionManager.getRegions(),
+        onFocusChange: focused => this.handleFocusChange(focused),
+        onForcedColorsChange: active => this.handleForcedColorsChange(active),
+        onSeek: progress => this.handleKeyboardSeek(progress),
       });
+      this.accessibilityManager.sync(this.options);
+      this.forcedColors = this.accessibilityManager.isForcedColors();
+      this.renderingEngine.setForcedColors(this.forcedColors);
 
       if (this.options.debug) {
         this.debugSystem.enable();
@@ -93,9 +224,13 @@ export default class WaveformRenderer extends EventEmitter<WaveformEvents> {
     this.emit("destroy", undefined);
     this.isDestroyed = true;
 
+    this.detachMedia();
+    this.stopClock();
     this.eventHandler.destroy();
+    this.accessibilityManager.destroy();
     this.cancelPendingRender();
     this.cacheManager.clear();
+    this.lastRenderedCache = undefined;
   }
 
   public setOptions(options: Partial<WaveformOptions>): void {
@@ -114,7 +249,30 @@ export default class WaveformRenderer extends EventEmitter<WaveformEvents> {
       }
     }
 
+    if (options.interaction !== undefined || options.dragThreshold !== undefined) {
+      this.eventHandler.setInteraction(this.options.interaction, this.options.dragThreshold);
+    }
+
+    if (options.normalize !== undefined && !(this.peaks instanceof PeakPyramid)) {
+      try {
+        this.applyNormalization();
+        this.dirtyFlags.peaks = true;
+        // The peaks hash only samples the edges, so the bars are rebuilt rather than invalidated
+        this.cacheManager.clear();
+      } catch (e) {
+        this.options.normalize = oldOptions.normalize;
+        this.handleError(e);
+      }
+    }
+
     this.updateDirtyFlags(oldOptions, this.options);
+    this.accessibilityManager.sync(this.options);
+
+    // Buffered ranges are kept in seconds
+    if (this.options.duration !== oldOptions.duration) {
+      this.updateBufferedLayer();
+    }
+    this.dirtyRegion = undefined;
     this.setupContext();
     this.scheduleRender();
 
@@ -122,40 +280,202 @@ export default class WaveformRenderer extends EventEmitter<WaveformEvents> {
     this.debugSystem.log(`setOptions completed in ${setOptionsTime.toFixed(2)}ms`);
   }
 
-  public setPeaks(peaks: number[]): void {
+  public setPeaks(peaks: PeakPyramid | WaveformPeaks): void {
     if (this.isDestroyed) return;
 
     const startTime = performance.now();
 
     try {
-      if (!Array.isArray(peaks) || peaks.length === 0) {
+      if (peaks instanceof PeakPyramid) {
+        // Pyramids are drawn as built, the `normalize` option does not apply to them
+        if (peaks.length === 0) {
+          throw new Error("Peaks array must not be empty");
+        }
+      } else if (isMultiChannelPeaks(peaks)) {
+        this.validateChannelPeaks(peaks);
+      } else if (isMinMaxPeaks(peaks)) {
+        this.validateMinMaxPeaks(peaks);
+      } else if (!Array.isArray(peaks) || peaks.length === 0) {
         throw new Error("Peaks array must not be empty");
       }
 
-      this.peaks = normalizePeaks([...peaks]);
+      this.loadPeaks(peaks);
+
+      this.totalLength = undefined;
       this.dirtyFlags.peaks = true;
       this.cacheManager.invalidate();
       this.scheduleRender();
 
       const setPeaksTime = performance.now() - startTime;
-      this.debugSystem.log(`setPeaks completed in ${setPeaksTime.toFixed(2)}ms, ${peaks.length} peaks`);
+      this.debugSystem.log(`setPeaks completed in ${setPeaksTime.toFixed(2)}ms, ${this.getPeakCount()} peaks`);
+    } catch (e) {
+      this.handleError(e);
+    }
+  }
+
+  /**
+   * Appends peaks to the end of the waveform, e.g. while recording or decoding progressively.
+   * `totalLength` is the expected final number of peaks; the layout is scaled for it so
+   * existing bars stay in place and only the new columns are repainted.
+   */
+  public appendPeaks(chunk: WaveformPeaks, totalLength?: number): void {
+    if (this.isDestroyed) return;
+
+    const startTime = performance.now();
+
+    try {
+      if (this.peaks instanceof PeakPyramid) {
+        throw new Error("Cannot append peaks to a peak pyramid");
+      }
+
+      if (totalLength !== undefined && (!Number.isFinite(totalLength) || totalLength < 0)) {
+        throw new Error("Total length must be a non-negative number");
+      }
+
+      const current = getPeakChannels(this.sourcePeaks);
+      const incoming = getPeakChannels(chunk);
+
+      if (incoming.length !== current.length) {
+        throw new Error("Appended peaks must have the same number of channels");
+      }
+
+      this.validateChannelPeaks(incoming);
+
+      const channels = current.map((channel, index) => this.concatChannelPeaks(channel, incoming[index]));
+      const merged = isMultiChannelPeaks(this.sourcePeaks) ? channels : channels[0];
+
+      if (totalLength !== undefined) {
+        this.totalLength = totalLength;
+      }
+
+      // A new full-height level changes the normalization of every bar
+      const divisor = getNormalizationDivisor(merged, this.options.normalize);
+      const needsNormalization = divisor !== this.normalizationDivisor;
+
+      this.sourcePeaks = merged;
+
+      if (needsNormalization) {
+        this.applyNormalization();
+      } else {
+        const normalized = getPeakChannels(normalizeWaveformPeaks(chunk, this.options.normalize, divisor));
+        const rendered = getPeakChannels(this.peaks as WaveformPeaks).map((channel, index) =>
+          this.concatChannelPeaks(channel, normalized[index]),
+        );
+        this.peaks = isMultiChannelPeaks(merged) ? rendered : rendered[0];
+      }
+
+      const region = needsNormalization ? null : this.cacheManager.extend(this.peaks, this.options, this.totalLength);
+
+      if (!region) {
+        this.dirtyFlags.peaks = true;
+        this.cacheManager.invalidate();
+        this.scheduleRender();
+      } else if (region.end > region.start) {
+        this.dirtyRegion = this.dirtyRegion
+          ? { start: Math.min(this.dirtyRegion.start, region.start), end: Math.max(this.dirtyRegion.end, region.end) }
+          : region;
+        this.scheduleRender();
+      }
+
+      const appendTime = performance.now() - startTime;
+      this.debugSystem.log(
+        `appendPeaks completed in ${appendTime.toFixed(2)}ms, ${this.getPeakCount()} peaks${region ? "" : " (full rebuild)"}`,
+      );
     } catch (e) {
       this.handleError(e);
     }
   }
 
+  /**
+   * Serializes the current peaks to the BBC audiowaveform `.dat` or JSON format, as they
+   * were given rather than normalized. Pyramids are exported at their highest resolution.
+   */
+  public exportPeaks(format: "dat", options?: AudiowaveformExportOptions): ArrayBuffer | null;
+  public exportPeaks(format: "json", options?: AudiowaveformExportOptions): AudiowaveformJson | null;
+  public exportPeaks(
+    format: "dat" | "json",
+    options: AudiowaveformExportOptions = {},
+  ): ArrayBuffer | AudiowaveformJson | null {
+    try {
+      const peaks = this.peaks instanceof PeakPyramid ? this.peaks.getPeaks(this.peaks.length) : this.sourcePeaks;
+      return format === "dat" ? toAudiowaveformDat(peaks, options) : toAudiowaveformJson(peaks, options);
+    } catch (e) {
+      this.handleError(e);
+      return null;
+    }
+  }
+
+  /**
+   * Moves the playhead. While the playback clock runs, it continues from here.
+   */
   public setProgress(progress: number): void {
     if (this.isDestroyed) return;
 
+    if (this.clock) {
+      this.clock.progress = normalizeProgress(progress);
+      this.clock.stamp = performance.now();
+    }
+
+    this.updateProgress(progress);
+  }
+
+  /**
+   * Starts a playback clock that advances the progress every frame on its own, for audio
+   * played without a media element (e.g. Web Audio). `durationSeconds` defaults to the
+   * `duration` option; `rate` is the playback speed. Emits `ended` at the end.
+   */
+  public play(startProgress: number = this.options.progress, durationSeconds?: number, rate: number = 1): void {
+    if (this.isDestroyed) return;
+
+    try {
+      const duration = durationSeconds ?? this.options.duration;
+
+      if (typeof duration !== "number" || !Number.isFinite(duration) || duration <= 0) {
+        throw new Error("Playback needs a duration in seconds");
+      }
+
+      if (!Number.isFinite(rate) || rate <= 0) {
+        throw new Error("Playback rate must be a positive number");
+      }
+
+      this.stopClock();
+      this.updateProgress(startProgress);
+      this.clock = { duration, progress: normalizeProgress(startProgress), rate, stamp: performance.now() };
+      this.clockFrame = requestAnimationFrame(this.handleClockFrame);
+
+      this.debugSystem.log(`Playing from ${(this.clock.progress * 100).toFixed(1)}% at ${rate}x`);
+    } catch (e) {
+      this.handleError(e);
+    }
+  }
+
+  /**
+   * Stops the playback clock, keeping the playhead where it is
+   */
+  public pause(): void {
+    if (!this.clock) return;
+
+    this.stopClock();
+    this.debugSystem.log(`Paused at ${(this.options.progress * 100).toFixed(1)}%`);
+  }
+
+  public isPlaying(): boolean {
+    return this.clock !== undefined;
+  }
+
+  private updateProgress(progress: number): void {
     try {
       const normalizedProgress = normalizeProgress(progress);
+      const change = Math.abs(this.options.progress - normalizedProgress);
 
-      // Avoid unnecessary updates
-      if (Math.abs(this.options.progress - normalizedProgress) < 0.001) {
+      // Avoid unnecessary updates, but always let the playhead reach either end
+      const isEnd = normalizedProgress === 0 || normalizedProgress === 1;
+      if (change === 0 || (!isEnd && change < this.getProgressThreshold())) {
         return;
       }
 
       this.options.progress = normalizedProgress;
+      this.accessibilityManager.sync(this.options);
       this.dirtyFlags.progress = true;
       this.emit("progressChange", normalizedProgress);
       this.scheduleRender();
@@ -189,6 +509,293 @@ export default class WaveformRenderer extends EventEmitter<WaveformEvents> {
     }
   }
 
+  // Media API
+  /**
+   * Follows an audio or video element: the playhead moves smoothly while it plays, the
+   * `duration` option tracks the media's, buffered ranges are shown, and seeks and
+   * scrubbing move the element. Replaces any element attached before.
+   */
+  public attachMedia(media: HTMLMediaElement): void {
+    if (this.isDestroyed) return;
+
+    try {
+      if (!media) {
+        throw new Error("Media element is required");
+      }
+
+      this.detachMedia();
+      this.mediaBinding = new MediaBinding(media, {
+        onBufferedChange: ranges => this.setBufferedRanges(ranges),
+        onDurationChange: duration => this.handleMediaDuration(duration),
+        onProgress: progress => this.handleMediaProgress(progress),
+      });
+
+      this.debugSystem.log("Media element attached");
+    } catch (e) {
+      this.handleError(e);
+    }
+  }
+
+  /**
+   * Stops following the media element; the progress and duration are kept
+   */
+  public detachMedia(): void {
+    if (!this.mediaBinding) return;
+
+    this.mediaBinding.destroy();
+    this.mediaBinding = undefined;
+    this.setBufferedRanges([]);
+
+    this.debugSystem.log("Media element detached");
+  }
+
+  /**
+   * Shows which parts of the audio are loaded, in seconds, e.g. `audio.buffered` while
+   * streaming. The buffered, unplayed part of the waveform is painted with `bufferedColor`
+   * once `duration` is known. An attached media element reports its own ranges.
+   */
+  public setBufferedRanges(ranges: TimeRangesLike): void {
+    if (this.isDestroyed) return;
+
+    try {
+      this.bufferedTimes = readTimeRanges(ranges);
+      this.updateBufferedLayer();
+
+      this.debugSystem.log(`Buffered ranges set (${this.bufferedTimes.length})`);
+    } catch (e) {
+      this.handleError(e);
+    }
+  }
+
+  /**
+   * Returns the buffered ranges as absolute positions (0-1)
+   */
+  public getBufferedRanges(): BufferedRange[] {
+    return toBufferedRanges(this.bufferedTimes, this.options.duration);
+  }
+
+  // Viewport API
+  public getViewport(): Viewport {
+    return { ...this.viewport };
+  }
+
+  public getZoom(): number {
+    return 1 / (this.viewport.end - this.viewport.start);
+  }
+
+  public setViewport(start: number, end: number): void {
+    if (this.isDestroyed) return;
+
+    try {
+      if (!Number.isFinite(start) || !Number.isFinite(end) || end <= start) {
+        throw new Error("Viewport end must be greater than start");
+      }
+
+      this.applyViewport(clampViewport(start, end));
+    } catch (e) {
+      this.handleError(e);
+    }
+  }
+
+  /**
+   * Zooms so that `1 / factor` of the waveform is visible, within `minZoom` and `maxZoom`.
+   * The anchor is an absolute position (0-1) that keeps its place on screen, defaulting to
+   * the viewport center.
+   */
+  public zoomTo(factor: number, anchor?: number): void {
+    if (this.isDestroyed) return;
+
+    try {
+      if (!Number.isFinite(factor) || factor <= 0) {
+        throw new Error("Zoom factor must be a positive number");
+      }
+
+      const { maxZoom, minZoom } = this.options;
+      const { start, end } = this.viewport;
+      const span = end - start;
+      const nextSpan = Math.min(1, 1 / Math.min(Math.max(factor, minZoom), Math.max(minZoom, maxZoom)));
+      const center = anchor ?? start + span / 2;
+      const ratio = (center - start) / span;
+      const nextStart = center - ratio * nextSpan;
+
+      this.applyViewport(clampViewport(nextStart, nextStart + nextSpan));
+    } catch (e) {
+      this.handleError(e);
+    }
+  }
+
+  /**
+   * Pans the viewport by `delta`, expressed as a fraction of the full waveform
+   */
+  public scrollBy(delta: number): void {
+    if (this.isDestroyed) return;
+
+    try {
+      if (!Number.isFinite(delta)) {
+        throw new Error("Scroll delta must be a finite number");
+      }
+
+      const { start, end } = this.viewport;
+      this.applyViewport(clampViewport(start + delta, end + delta));
+    } catch (e) {
+      this.handleError(e);
+    }
+  }
+
+  /**
+   * Returns the bar drawn at a point relative to the canvas, in CSS pixels. Hits follow
+   * the rendered geometry, including the amplitude scale.
+   */
+  public getBarAtPoint(x: number, y: number): CachedBarData | null {
+    if (this.isDestroyed) return null;
+
+    return this.cacheManager.getBarAt(x, y);
+  }
+
+  // Regions API
+  public getRegions(): Region[] {
+    return this.regionManager.getRegions();
+  }
+
+  /**
+   * Adds a range of the waveform, with `start` and `end` as absolute positions (0-1).
+   * Returns the stored region, including its generated id.
+   */
+  public addRegion(region: RegionInit): Region | null {
+    if (this.isDestroyed) return null;
+
+    try {
+      const added = this.regionManager.add(region);
+      this.debugSystem.log(`Region ${added.id} added`);
+      return added;
+    } catch (e) {
+      this.handleError(e);
+      return null;
+    }
+  }
+
+  public updateRegion(id: string, changes: Partial<Omit<Region, "id">>): Region | null {
+    if (this.isDestroyed) return null;
+
+    try {
+      return this.regionManager.update(id, changes);
+    } catch (e) {
+      this.handleError(e);
+      return null;
+    }
+  }
+
+  public removeRegion(id: string): void {
+    if (this.isDestroyed) return;
+
+    try {
+      this.regionManager.remove(id);
+      this.debugSystem.log(`Region ${id} removed`);
+    } catch (e) {
+      this.handleError(e);
+    }
+  }
+
+  public clearRegions(): void {
+    if (this.isDestroyed) return;
+
+    this.regionManager.set([]);
+  }
+
+  /**
+   * Serializes the regions to JSON, to be restored with `importRegions`
+   */
+  public exportRegions(): string {
+    return serializeRegions(this.regionManager.getRegions());
+  }
+
+  /**
+   * Replaces the regions with ones read from JSON or an array. Invalid input leaves them unchanged.
+   */
+  public importRegions(json: string | RegionInit[]): void {
+    if (this.isDestroyed) return;
+
+    try {
+      this.regionManager.set(parseRegions(json));
+      this.debugSystem.log(`Imported ${this.regionManager.getRegions().length} regions`);
+    } catch (e) {
+      this.handleError(e);
+    }
+  }
+
+  // Markers API
+  public getMarkers(): Marker[] {
+    return this.markerManager.getMarkers();
+  }
+
+  /**
+   * Adds a point annotation at an absolute `position` (0-1). Returns the stored marker,
+   * including its generated id.
+   */
+  public addMarker(marker: MarkerInit): Marker | null {
+    if (this.isDestroyed) return null;
+
+    try {
+      const added = this.markerManager.add(marker);
+      this.debugSystem.log(`Marker ${added.id} added`);
+      return added;
+    } catch (e) {
+      this.handleError(e);
+      return null;
+    }
+  }
+
+  public removeMarker(id: string): void {
+    if (this.isDestroyed) return;
+
+    try {
+      this.markerManager.remove(id);
+      this.debugSystem.log(`Marker ${id} removed`);
+    } catch (e) {
+      this.handleError(e);
+    }
+  }
+
+  /**
+   * Replaces all markers. Invalid input leaves them unchanged.
+   */
+  public setMarkers(markers: MarkerInit[]): void {
+    if (this.isDestroyed) return;
+
+    try {
+      this.markerManager.set(markers);
+    } catch (e) {
+      this.handleError(e);
+    }
+  }
+
+  /**
+   * Returns the marker whose flag or line is at a canvas point (CSS pixels), or `null`
+   */
+  public getMarkerAtPoint(x: number, y: number): Marker | null {
+    if (this.isDestroyed) return null;
+
+    const rect = this.canvas.getBoundingClientRect();
+    if (!rect.width) return null;
+
+    const { end, start } = this.viewport;
+    return this.markerManager.hitTest({
+      progress: fromViewportProgress(x / rect.width, this.viewport),
+      progressPerPixel: (end - start) / rect.width,
+      x,
+      y,
+    });
+  }
+
+  /**
+   * Moves keyboard focus to the waveform, e.g. after a "skip to player" link
+   */
+  public focus(): void {
+    if (this.isDestroyed || !this.options.accessibility) return;
+
+    this.canvas.focus();
+  }
+
   // Debug API
   public setDebug(enabled: boolean): void {
     if (enabled) {
@@ -223,16 +830,108 @@ export default class WaveformRenderer extends EventEmitter<WaveformEvents> {
     this.debugSystem.log("Render hooks cleared");
   }
 
-  private validateInputs(canvas: HTMLCanvasElement, peaks: number[]): void {
+  private validateInputs(canvas: HTMLCanvasElement, peaks: PeakPyramid | WaveformPeaks): void {
     if (!canvas) {
       throw new Error("Canvas element is required");
     }
 
+    if (peaks instanceof PeakPyramid) {
+      return;
+    }
+
+    if (isMultiChannelPeaks(peaks)) {
+      this.validateChannelPeaks(peaks);
+      return;
+    }
+
+    if (isMinMaxPeaks(peaks)) {
+      this.validateMinMaxPeaks(peaks);
+      return;
+    }
+
     if (!Array.isArray(peaks) || peaks.length === 0) {
       throw new Error("Peaks array is required and must not be empty");
     }
   }
 
+  private validateChannelPeaks(channels: ChannelPeaks[]): void {
+    for (const channel of channels) {
+      if (isMinMaxPeaks(channel)) {
+        this.validateMinMaxPeaks(channel);
+      } else if (!Array.isArray(channel) || channel.length === 0) {
+        throw new Error("Channel peaks must not be empty");
+      }
+    }
+
+    const length = getPeakCount(channels);
+    if (channels.some(channel => getPeakCount(channel) !== length)) {
+      throw new Error("All channels must have the same number of peaks");
+    }
+  }
+
+  private validateMinMaxPeaks(peaks: MinMaxPeaks): void {
+    if (!Array.isArray(peaks.min) || !Array.isArray(peaks.max) || peaks.max.length === 0) {
+      throw new Error("Min and max peak arrays are required and must not be empty");
+    }
+
+    if (peaks.min.length !== peaks.max.length) {
+      throw new Error("Min and max peak arrays must have the same length");
+    }
+
+    if (peaks.rms && peaks.rms.length !== peaks.max.length) {
+      throw new Error("RMS array must have the same length as the peak arrays");
+    }
+  }
+
+  private getPeakCount(): number {
+    return this.peaks instanceof PeakPyramid ? this.peaks.length : getPeakCount(this.peaks);
+  }
+
+  private copyChannelPeaks(peaks: ChannelPeaks): ChannelPeaks {
+    if (isMinMaxPeaks(peaks)) {
+      return peaks.rms
+        ? { max: [...peaks.max], min: [...peaks.min], rms: [...peaks.rms] }
+        : { max: [...peaks.max], min: [...peaks.min] };
+    }
+
+    return [...peaks];
+  }
+
+  private concatChannelPeaks(current: ChannelPeaks, chunk: ChannelPeaks): ChannelPeaks {
+    if (isMinMaxPeaks(current) && isMinMaxPeaks(chunk) && !current.rms === !chunk.rms) {
+      const peaks = { max: [...current.max, ...chunk.max], min: [...current.min, ...chunk.min] };
+      return current.rms ? { ...peaks, rms: [...current.rms, ...chunk.rms!] } : peaks;
+    }
+
+    if (!isMinMaxPeaks(current) && !isMinMaxPeaks(chunk)) {
+      return [...current, ...chunk];
+    }
+
+    throw new Error("Appended peaks must have the same shape as the current peaks");
+  }
+
+  /**
+   * Keeps a private copy of the given peaks, so callers' arrays are never modified
+   */
+  private loadPeaks(peaks: PeakPyramid | WaveformPeaks): void {
+    if (peaks instanceof PeakPyramid) {
+      this.peaks = peaks;
+      this.sourcePeaks = [];
+      this.normalizationDivisor = 1;
+      return;
+    }
+
+    this.sourcePeaks = isMultiChannelPeaks(peaks)
+      ? peaks.map(channel => this.copyChannelPeaks(channel))
+      : this.copyChannelPeaks(peaks as ChannelPeaks);
+    this.applyNormalization();
+  }
+
+  private applyNormalization(): void {
+    this.normalizationDivisor = getNormalizationDivisor(this.sourcePeaks, this.options.normalize);
+    this.peaks = normalizeWaveformPeaks(this.sourcePeaks, this.options.normalize, this.normalizationDivisor);
+  }
+
   private getCanvasContext(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
     const context = canvas.getContext("2d");
     if (!context) {
@@ -250,6 +949,37 @@ export default class WaveformRenderer extends EventEmitter<WaveformEvents> {
     return {
       ...base,
       ...newOptions,
+      seekEasing:
+        newOptions.seekEasing !== undefined
+          ? newOptions.seekEasing
+            ? { ...DEFAULT_SEEK_EASING, ...base.seekEasing, ...newOptions.seekEasing }
+            : null
+          : base.seekEasing,
+      accessibility:
+        newOptions.accessibility !== undefined
+          ? newOptions.accessibility
+            ? {
+                ...DEFAULT_ACCESSIBILITY_OPTIONS,
+                ...base.accessibility,
+                ...newOptions.accessibility,
+              }
+            : null
+          : base.accessibility,
+      hover:
+        newOptions.hover !== undefined
+          ? newOptions.hover
+            ? { ...DEFAULT_HOVER_OPTIONS, ...base.hover, ...newOptions.hover }
+            : null
+          : base.hover,
+      markerStyle: newOptions.markerStyle
+        ? { ...DEFAULT_OPTIONS.markerStyle, ...base.markerStyle, ...newOptions.markerStyle }
+        : base.markerStyle,
+      timeRuler:
+        newOptions.timeRuler !== undefined
+          ? newOptions.timeRuler
+            ? { ...DEFAULT_TIME_RULER_OPTIONS, ...base.timeRuler, ...newOptions.timeRuler }
+            : null
+          : base.timeRuler,
       progressLine:
         newOptions.progressLine !== undefined
           ? newOptions.progressLine
@@ -263,17 +993,43 @@ export default class WaveformRenderer extends EventEmitter<WaveformEvents> {
     };
   }
 
+  private applyViewport(viewport: Viewport): void {
+    if (viewport.start === this.viewport.start && viewport.end === this.viewport.end) {
+      return;
+    }
+
+    this.viewport = viewport;
+    this.eventHandler.setViewport(viewport);
+    this.emit("viewportChange", { ...viewport });
+    this.scheduleRender();
+
+    this.debugSystem.log(
+      `Viewport set to ${(viewport.start * 100).toFixed(1)}%-${(viewport.end * 100).toFixed(1)}% (${this.getZoom().toFixed(2)}x)`,
+    );
+  }
+
   private updateDirtyFlags(oldOptions: Required<WaveformOptions>, newOptions: Required<WaveformOptions>): void {
     const layoutKeys: (keyof WaveformOptions)[] = [
       "amplitude",
       "backgroundColor",
+      "barColor",
       "barWidth",
       "borderColor",
       "borderRadius",
       "borderWidth",
+      "bufferedColor",
+      "channelColors",
+      "channelLayout",
       "color",
+      "duration",
       "gap",
       "position",
+      "resampling",
+      "rmsColor",
+      "rmsProgressColor",
+      "scale",
+      "style",
+      "timeRuler",
     ];
 
     const hasLayoutChanges = layoutKeys.some(key => oldOptions[key] !== newOptions[key]);
@@ -334,10 +1090,30 @@ export default class WaveformRenderer extends EventEmitter<WaveformEvents> {
     const renderStartTime = performance.now();
 
     try {
-      const cache = this.cacheManager.getCache(this.canvas, this.devicePixelRatio, this.peaks, this.options);
-      const staticPath = this.cacheManager.createStaticPath(cache, this.options.borderRadius);
+      const baseOptions = this.forcedColors ? applyForcedColors(this.options) : this.options;
+      const progress = this.getDisplayedProgress(now);
+      const options = progress === baseOptions.progress ? baseOptions : { ...baseOptions, progress };
+      const cache = this.cacheManager.getCache(
+        this.canvas,
+        this.devicePixelRatio,
+        this.peaks,
+        options,
+        this.viewport,
+        this.totalLength,
+      );
+      const staticPath = this.cacheManager.createStaticPath(cache, options.borderRadius, options.style);
+      const region = this.dirtyRegion;
+      const isOnlyAppended =
+        region !== undefined && cache === this.lastRenderedCache && !Object.values(this.dirtyFlags).some(Boolean);
 
-      this.renderingEngine.render(cache, this.options, staticPath);
+      if (isOnlyAppended) {
+        this.renderingEngine.renderRegion(cache, options, region, staticPath);
+      } else {
+        this.renderingEngine.render(cache, options, staticPath);
+      }
+
+      this.dirtyRegion = undefined;
+      this.lastRenderedCache = cache;
 
       // Reset dirty flags
       this.dirtyFlags = {
@@ -347,11 +1123,17 @@ export default class WaveformRenderer extends EventEmitter<WaveformEvents> {
         progress: false,
       };
 
+      this.displayedProgress = progress;
+      if (this.seekTransition) {
+        this.dirtyFlags.progress = true;
+        this.scheduleRender();
+      }
+
       const renderTime = performance.now() - renderStartTime;
       this.debugSystem.updateRenderMetrics(renderTime);
       this.debugSystem.updateState(
         this.canvas,
-        this.peaks.length,
+        this.getPeakCount(),
         cache.totalBars,
         this.cacheManager.isValid(),
         this.dirtyFlags,
@@ -362,12 +1144,220 @@ export default class WaveformRenderer extends EventEmitter<WaveformEvents> {
     }
   }
 
+  /**
+   * Seeks move the clock or the attached media; otherwise the app moves the playhead from
+   * its `seek` listener. Either way the jump is eased once `seekEasing` is set.
+   */
   private handleSeek(progress: number): void {
     this.debugSystem.incrementSeeks();
     this.debugSystem.log(`Seek to ${(progress * 100).toFixed(1)}%`);
+
+    if (this.options.seekEasing) {
+      this.seekTransition = { from: this.displayedProgress, start: performance.now() };
+    }
+
+    if (this.clock) {
+      this.setProgress(progress);
+    }
+    this.mediaBinding?.seek(progress);
     this.emit("seek", progress);
   }
 
+  /**
+   * Moves the playhead with the pointer while scrubbing; the app decides when to seek
+   */
+  private handleScrub(event: "scrub" | "scrubEnd" | "scrubStart", progress: number): void {
+    if (event === "scrubStart") {
+      this.debugSystem.log(`Scrub started at ${(progress * 100).toFixed(1)}%`);
+      this.handleHoverEnd();
+    }
+
+    // The media keeps playing underneath; it only follows once the playhead is released
+    this.isScrubbing = event !== "scrubEnd";
+    if (event === "scrubEnd") {
+      this.mediaBinding?.seek(progress);
+    }
+
+    this.setProgress(progress);
+    this.emit(event, progress);
+  }
+
+  private handleKeyboardSeek(progress: number): void {
+    this.handleSeek(progress);
+    this.setProgress(progress);
+  }
+
+  private handleClockFrame = (now: number): void => {
+    const clock = this.clock;
+    if (!clock || this.isDestroyed) return;
+
+    this.clockFrame = requestAnimationFrame(this.handleClockFrame);
+
+    // The playhead stays on the pointer while scrubbing, and plays on from where it is released
+    if (this.isScrubbing) {
+      clock.progress = this.options.progress;
+      clock.stamp = now;
+      return;
+    }
+
+    const progress = clock.progress + ((Math.max(0, now - clock.stamp) / 1000) * clock.rate) / clock.duration;
+    this.updateProgress(Math.min(1, progress));
+
+    if (progress >= 1) {
+      this.stopClock();
+      this.debugSystem.log("Playback ended");
+      this.emit("ended", undefined);
+    }
+  };
+
+  private stopClock(): void {
+    if (this.clockFrame !== undefined) {
+      cancelAnimationFrame(this.clockFrame);
+      this.clockFrame = undefined;
+    }
+    this.clock = undefined;
+  }
+
+  /**
+   * Smallest change of progress worth a repaint: `progressPrecision` pixels at the current zoom
+   */
+  private getProgressThreshold(): number {
+    const width = this.canvas.width / this.devicePixelRatio;
+    const { end, start } = this.viewport;
+
+    return width > 0 ? (this.options.progressPrecision * (end - start)) / width : 0;
+  }
+
+  /**
+   * Progress the playhead is drawn at, part of the way from where it was while a seek eases
+   */
+  private getDisplayedProgress(now: number): number {
+    const transition = this.seekTransition;
+    const { progress } = this.options;
+
+    if (!transition || !this.options.seekEasing) {
+      this.seekTransition = undefined;
+      return progress;
+    }
+
+    const { duration, easing } = this.options.seekEasing as Required<SeekEasingOptions>;
+    const t = duration > 0 ? (now - transition.start) / duration : 1;
+
+    if (t >= 1) {
+      this.seekTransition = undefined;
+      return progress;
+    }
+
+    return transition.from + (progress - transition.from) * easing(Math.max(0, t));
+  }
+
+  private handleFocusChange(focused: boolean): void {
+    this.renderingEngine.setFocused(focused);
+
+    // The focus ring is an overlay, like the hover layer
+    if (this.options.accessibility) {
+      this.dirtyFlags.progress = true;
+      this.scheduleRender();
+    }
+  }
+
+  /**
+   * Repaints with system colors while the user agent forces a high-contrast palette
+   */
+  private handleForcedColorsChange(active: boolean): void {
+    this.debugSystem.log(`Forced colors ${active ? "active" : "inactive"}`);
+
+    this.forcedColors = active;
+    this.renderingEngine.setForcedColors(active);
+    this.dirtyFlags.options = true;
+    this.cacheManager.invalidate();
+    this.scheduleRender();
+  }
+
+  private handleMediaProgress(progress: number): void {
+    if (!this.isScrubbing) {
+      this.setProgress(progress);
+    }
+  }
+
+  private handleMediaDuration(duration: number): void {
+    if (duration !== this.options.duration) {
+      this.setOptions({ duration });
+    }
+  }
+
+  /**
+   * Buffered ranges are painted over the cached layout, like the playhead
+   */
+  private updateBufferedLayer(): void {
+    this.renderingEngine.setBufferedRanges(this.getBufferedRanges());
+    this.dirtyFlags.progress = true;
+    this.scheduleRender();
+  }
+
+  private handleZoomGesture(factor: number, anchor: number): void {
+    const zoom = this.getZoom();
+    this.zoomTo(zoom * factor, anchor);
+
+    if (this.getZoom() !== zoom) {
+      this.emit("zoom", this.getZoom());
+    }
+  }
+
+  private handlePanGesture(delta: number): void {
+    const { start } = this.viewport;
+    this.scrollBy(delta);
+
+    if (this.viewport.start !== start) {
+      this.emit("pan", this.getViewport());
+    }
+  }
+
+  private handleHover(position: PointerPosition): void {
+    const { duration } = this.options;
+
+    this.hoverInfo = {
+      bar: this.cacheManager.getBarInColumn(position.x),
+      progress: position.progress,
+      time: typeof duration === "number" && duration > 0 ? position.progress * duration : null,
+      x: position.x,
+      y: position.y,
+    };
+
+    this.emit("hover", this.hoverInfo);
+    this.updateHoverLayer();
+  }
+
+  private handleHoverEnd(): void {
+    if (!this.hoverInfo) return;
+
+    this.hoverInfo = null;
+    this.emit("hoverEnd", undefined);
+    this.updateHoverLayer();
+  }
+
+  private updateHoverLayer(): void {
+    this.renderingEngine.setHover(this.hoverInfo);
+
+    // Like the playhead, the hover layer is painted over the cached layout
+    if (this.options.hover) {
+      this.dirtyFlags.progress = true;
+      this.scheduleRender();
+    }
+  }
+
+  private handleMarkersChange(): void {
+    this.renderingEngine.setMarkers(this.markerManager.getMarkers());
+    this.dirtyFlags.options = true;
+    this.scheduleRender();
+  }
+
+  private handleRegionsChange(): void {
+    this.renderingEngine.setRegions(this.regionManager.getRegions());
+    this.dirtyFlags.options = true;
+    this.scheduleRender();
+  }
+
   private handleResize(dimensions: { width: number; height: number }): void {
     this.debugSystem.incrementResizes();
     this.debugSystem.log(`Canvas resized to ${dimensions.width}x${dimensions.height}`);
@@ -1,12 +1,45 @@
-import { drawProgressLine } from "@/utils";
+import {
+  calculateLineDimensions,
+  drawProgressLine,
+  formatHoverTooltip,
+  formatTime,
+  getTickIntervals,
+  getWaveformArea,
+  hasTimeRuler,
+  isBarPaint,
+  isStrokedStyle,
+  layoutMarkerLabels,
+  normalizeProgress,
+  resolveBarColor,
+  resolvePaint,
+  resolveWaveformStyle,
+  toViewportProgress,
+  traceBar,
+  traceWaveformShape,
+} from "@/utils";
 
 import type {
+  AccessibilityOptions,
+  BarColorGroup,
+  BufferedRange,
   CachedBarData,
   CustomRenderer,
+  DirtyRegion,
+  HoverInfo,
+  HoverOptions,
+  Marker,
+  MarkerFlag,
+  MarkerStyle,
+  Paint,
+  PaintStyle,
   ProgressLineOptions,
+  ProgressState,
+  Region,
   RenderCache,
   RenderHook,
   RenderingCallbacks,
+  TimeFormatContext,
+  TimeRulerOptions,
   WaveformOptions,
 } from "@/types";
 
@@ -15,6 +48,15 @@ export class RenderingEngine {
   private callbacks: RenderingCallbacks;
   private customRenderer?: CustomRenderer;
   private hooks: RenderHook = {};
+  private regions: Region[] = [];
+  private markers: Marker[] = [];
+  private markerFlags: MarkerFlag[] = [];
+  private hover: HoverInfo | null = null;
+  private bufferedRanges: BufferedRange[] = [];
+  private focused = false;
+  private forcedColors = false;
+  private readonly markerFlagHeight = 16; // px
+  private readonly markerLabelRows = 3;
 
   constructor(ctx: CanvasRenderingContext2D, callbacks: RenderingCallbacks) {
     this.ctx = ctx;
@@ -33,6 +75,47 @@ export class RenderingEngine {
     this.hooks = {};
   }
 
+  public setRegions(regions: Region[]): void {
+    this.regions = regions;
+  }
+
+  public setMarkers(markers: Marker[]): void {
+    this.markers = markers;
+  }
+
+  /**
+   * Pointer the hover layer follows, or `null` once it has left the canvas
+   */
+  public setHover(hover: HoverInfo | null): void {
+    this.hover = hover;
+  }
+
+  public setBufferedRanges(ranges: BufferedRange[]): void {
+    this.bufferedRanges = ranges;
+  }
+
+  /**
+   * Shows the focus ring, while the canvas has keyboard focus
+   */
+  public setFocused(focused: boolean): void {
+    this.focused = focused;
+  }
+
+  /**
+   * In forced colors mode the colors of single regions and markers are ignored, and
+   * regions are outlined, since system colors cannot be translucent
+   */
+  public setForcedColors(active: boolean): void {
+    this.forcedColors = active;
+  }
+
+  /**
+   * Flags drawn by the last render, used to hit-test markers
+   */
+  public getMarkerFlags(): MarkerFlag[] {
+    return this.markerFlags;
+  }
+
   public render(cache: RenderCache, options: Required<WaveformOptions>, staticPath?: Path2D): void {
     this.callbacks.onRenderStart();
 
@@ -46,38 +129,75 @@ export class RenderingEngine {
         return;
       }
 
-      const { backgroundColor, color, progress } = options;
+      const { backgroundColor, color } = options;
+
+      // Progress is absolute; map it into the visible range of the cache
+      const visibleProgress = toViewportProgress(options.progress, cache.viewport);
+      const progress = normalizeProgress(visibleProgress);
 
       // Clear canvas
       this.ctx.clearRect(0, 0, cache.canvasWidth, cache.canvasHeight);
 
-      if (this.shouldUseFallbackRendering(options, staticPath)) {
+      const useFallback = this.shouldUseFallbackRendering(options, staticPath);
+
+      if (useFallback) {
         this.renderWithFallback(cache, backgroundColor, options);
       } else {
-        this.renderWithPath(staticPath!, backgroundColor, options);
+        this.renderWithPath(cache, staticPath!, backgroundColor, options);
+      }
+
+      if (options.bufferedColor && this.bufferedRanges.length > 0) {
+        this.renderBuffered(cache, options.bufferedColor, progress, options, useFallback, staticPath);
+      }
+
+      if (options.rmsColor) {
+        this.renderRmsBody(cache, options.rmsColor, options, useFallback);
       }
 
       // Hook: after background
       this.hooks.afterBackground?.(this.ctx, cache, options);
 
+      if (this.regions.length > 0) {
+        this.renderRegions(cache, options);
+      }
+
       // Render progress
       if (progress > 0) {
-        if (this.shouldUseFallbackRendering(options, staticPath)) {
+        if (useFallback) {
           this.renderProgressWithFallback(cache, color, progress, options);
         } else {
-          this.renderProgressWithPath(staticPath!, color, progress, cache.canvasWidth, options);
+          this.renderProgressWithPath(cache, staticPath!, color, progress, options);
         }
 
         // Hook: after progress
         this.hooks.afterProgress?.(this.ctx, cache, options, progress);
       }
 
+      const hover = options.hover && this.hover;
+      if (hover && options.hover!.shadeColor) {
+        this.renderHoverShade(cache, hover, progress, options, useFallback, staticPath);
+      }
+
+      if (hasTimeRuler(options)) {
+        this.renderTimeRuler(cache, options);
+      }
+
+      this.markerFlags = this.markers.length > 0 ? this.renderMarkers(cache, options) : [];
+
       // Draw progress line
-      if (options.progressLine && progress > 0) {
+      if (options.progressLine && progress > 0 && this.isPlayheadVisible(visibleProgress, cache)) {
         const x = cache.canvasWidth * progress;
         drawProgressLine(this.ctx, x, cache.canvasHeight, options.progressLine as Required<ProgressLineOptions>);
       }
 
+      if (hover) {
+        this.renderHoverCursor(cache, hover, options);
+      }
+
+      if (this.focused && options.accessibility) {
+        this.renderFocusRing(cache, options);
+      }
+
       // Hook: after complete
       this.hooks.afterComplete?.(this.ctx, cache, options);
 
@@ -87,53 +207,613 @@ export class RenderingEngine {
     }
   }
 
+  /**
+   * Repaints only the columns inside `region`, used when bars are appended to a growing
+   * waveform. Custom renderers and hooks may draw anywhere, so they always get a full render.
+   */
+  public renderRegion(
+    cache: RenderCache,
+    options: Required<WaveformOptions>,
+    region: DirtyRegion,
+    staticPath?: Path2D,
+  ): void {
+    if (this.customRenderer || Object.keys(this.hooks).length > 0) {
+      this.render(cache, options, staticPath);
+      return;
+    }
+
+    this.ctx.save();
+    this.ctx.beginPath();
+    this.ctx.rect(region.start, 0, region.end - region.start, cache.canvasHeight);
+    this.ctx.clip();
+
+    try {
+      this.render(cache, options, staticPath);
+    } finally {
+      this.ctx.restore();
+    }
+  }
+
+  /**
+   * Shades each region between the background and progress layers, with its label
+   * pinned to the visible part of the region
+   */
+  private renderRegions(cache: RenderCache, options: Required<WaveformOptions>): void {
+    const { canvasHeight, canvasWidth, viewport } = cache;
+
+    this.ctx.save();
+    this.ctx.font = "12px sans-serif";
+    this.ctx.textBaseline = "top";
+
+    for (const region of this.regions) {
+      const start = Math.max(0, toViewportProgress(region.start, viewport) * canvasWidth);
+      const end = Math.min(canvasWidth, toViewportProgress(region.end, viewport) * canvasWidth);
+
+      if (end < start) {
+        continue;
+      }
+
+      if (this.forcedColors) {
+        this.ctx.strokeStyle = options.regionColor;
+        this.ctx.lineWidth = 2;
+        this.ctx.strokeRect(start + 1, 1, Math.max(0, end - start - 2), canvasHeight - 2);
+      } else {
+        this.ctx.fillStyle = region.color ?? options.regionColor;
+        this.ctx.fillRect(start, 0, end - start, canvasHeight);
+      }
+
+      if (region.label) {
+        this.ctx.fillStyle = options.regionLabelColor;
+        this.ctx.fillText(region.label, start + 4, 4, Math.max(0, end - start - 8));
+      }
+    }
+
+    this.ctx.restore();
+  }
+
+  /**
+   * Paints the buffered ranges past the playhead, clipped like the progress layer so the
+   * buffered part reads as a lighter shade of the played one. Drawn under the RMS body.
+   */
+  private renderBuffered(
+    cache: RenderCache,
+    paint: Paint,
+    progress: number,
+    options: Required<WaveformOptions>,
+    useFallback: boolean,
+    staticPath?: Path2D,
+  ): void {
+    const { canvasHeight, canvasWidth, viewport } = cache;
+    const playheadX = canvasWidth * progress;
+    const spans = this.bufferedRanges
+      .map(range => ({
+        end: Math.min(canvasWidth, toViewportProgress(range.end, viewport) * canvasWidth),
+        start: Math.max(playheadX, toViewportProgress(range.start, viewport) * canvasWidth),
+      }))
+      .filter(({ end, start }) => end > start);
+
+    if (spans.length === 0) {
+      return;
+    }
+
+    this.ctx.save();
+    this.ctx.beginPath();
+    spans.forEach(({ end, start }) => this.ctx.rect(start, 0, end - start, canvasHeight));
+    this.ctx.clip();
+
+    if (useFallback) {
+      this.renderBarsWithFallback(cache, cache.bars, paint, options);
+    } else if (isStrokedStyle(options.style)) {
+      this.strokeLine(cache, staticPath!, paint, options);
+    } else {
+      this.fillPath(cache, staticPath!, cache.bars, paint, options);
+    }
+
+    this.ctx.restore();
+  }
+
+  /**
+   * Draws the time axis in the space the cache manager reserved for it. Ticks follow the
+   * viewport, so zooming in switches to finer intervals.
+   */
+  private renderTimeRuler(cache: RenderCache, options: Required<WaveformOptions>): void {
+    const ruler = options.timeRuler as Required<TimeRulerOptions>;
+    const { canvasHeight, canvasWidth, viewport } = cache;
+    const start = (viewport?.start ?? 0) * options.duration!;
+    const end = (viewport?.end ?? 1) * options.duration!;
+    const pixelsPerSecond = canvasWidth / (end - start);
+    const { major, minor } = getTickIntervals(pixelsPerSecond, ruler);
+    const step = minor ?? major;
+
+    if ((end - start) / step > canvasWidth) {
+      return;
+    }
+
+    const height = Math.min(canvasHeight, ruler.height);
+    const top = ruler.position === "bottom" ? canvasHeight - height : 0;
+    // Ticks grow from the edge facing the waveform
+    const edge = ruler.position === "bottom" ? top : top + height;
+    const direction = ruler.position === "bottom" ? 1 : -1;
+    const { beatsPerBar, bpm, format, fps, locale } = ruler;
+    const context: TimeFormatContext = { beatsPerBar, bpm, fps, interval: major, locale };
+    const labels: { text: string; x: number }[] = [];
+
+    this.ctx.save();
+    this.ctx.strokeStyle = ruler.color;
+    this.ctx.fillStyle = ruler.color;
+    this.ctx.lineWidth = 1;
+    this.ctx.font = ruler.font;
+    this.ctx.textBaseline = "middle";
+
+    this.ctx.beginPath();
+    this.ctx.moveTo(0, edge);
+    this.ctx.lineTo(canvasWidth, edge);
+
+    // Ticks are counted in whole steps so rounding errors never accumulate
+    for (let i = Math.ceil(start / step - 1e-9); i * step <= end + 1e-9; i++) {
+      const time = i * step;
+      const x = (time - start) * pixelsPerSecond;
+      const isMajor = Math.abs(time / major - Math.round(time / major)) < 1e-6;
+
+      this.ctx.moveTo(x, edge);
+      this.ctx.lineTo(x, edge + direction * height * (isMajor ? 0.5 : 0.25));
+
+      if (isMajor) {
+        labels.push({
+          text: typeof format === "function" ? format(time, context) : formatTime(time, format, context),
+          x,
+        });
+      }
+    }
+
+    this.ctx.stroke();
+    labels.forEach(({ text, x }) => this.ctx.fillText(text, x + 3, top + height / 2));
+    this.ctx.restore();
+  }
+
+  /**
+   * Lays a translucent fill over the waveform between the playhead and the pointer,
+   * previewing what a click would play or skip
+   */
+  private renderHoverShade(
+    cache: RenderCache,
+    hover: HoverInfo,
+    progress: number,
+    options: Required<WaveformOptions>,
+    useFallback: boolean,
+    staticPath?: Path2D,
+  ): void {
+    const shadeColor = options.hover!.shadeColor!;
+    const playheadX = cache.canvasWidth * progress;
+    const start = Math.max(0, Math.min(playheadX, hover.x));
+    const end = Math.min(cache.canvasWidth, Math.max(playheadX, hover.x));
+
+    if (end <= start) {
+      return;
+    }
+
+    this.ctx.save();
+    this.ctx.beginPath();
+    this.ctx.rect(start, 0, end - start, cache.canvasHeight);
+    this.ctx.clip();
+
+    if (useFallback) {
+      this.renderBarsWithFallback(cache, cache.bars, shadeColor, { ...options, borderWidth: 0 });
+    } else if (isStrokedStyle(options.style)) {
+      this.strokeLine(cache, staticPath!, shadeColor, { ...options, borderWidth: 0 });
+    } else {
+      this.fillPath(cache, staticPath!, cache.bars, shadeColor, options);
+    }
+
+    this.ctx.restore();
+  }
+
+  /**
+   * Draws the cursor line and a tooltip beside it, flipped to the left of the line
+   * when it would run past the right edge
+   */
+  private renderHoverCursor(cache: RenderCache, hover: HoverInfo, options: Required<WaveformOptions>): void {
+    const { canvasHeight, canvasWidth } = cache;
+    const { color, font, tooltip, tooltipBackground, tooltipColor, width } = options.hover as Required<HoverOptions>;
+
+    drawProgressLine(this.ctx, hover.x, canvasHeight, {
+      color,
+      heightPercent: 1,
+      position: "center",
+      style: "solid",
+      width,
+    });
+
+    if (!tooltip) {
+      return;
+    }
+
+    const text = typeof tooltip === "function" ? tooltip(hover) : formatHoverTooltip(hover, options);
+    if (!text) {
+      return;
+    }
+
+    this.ctx.save();
+    this.ctx.font = font;
+    this.ctx.textBaseline = "middle";
+
+    const boxWidth = this.ctx.measureText(text).width + 8;
+    const boxHeight = this.markerFlagHeight;
+    const x = hover.x + 4 + boxWidth > canvasWidth ? hover.x - 4 - boxWidth : hover.x + 4;
+    const y = getWaveformArea(canvasHeight, options).top + 2;
+
+    this.ctx.fillStyle = tooltipBackground;
+    this.ctx.fillRect(x, y, boxWidth, boxHeight);
+    this.ctx.fillStyle = tooltipColor;
+    this.ctx.fillText(text, x + 4, y + boxHeight / 2);
+
+    this.ctx.restore();
+  }
+
+  /**
+   * Outlines the canvas inside its edges, so the ring is never clipped
+   */
+  private renderFocusRing(cache: RenderCache, options: Required<WaveformOptions>): void {
+    const { focusRingColor, focusRingWidth } = options.accessibility as Required<AccessibilityOptions>;
+    const inset = focusRingWidth / 2;
+
+    this.ctx.save();
+    this.ctx.strokeStyle = focusRingColor;
+    this.ctx.lineWidth = focusRingWidth;
+    this.ctx.strokeRect(inset, inset, cache.canvasWidth - focusRingWidth, cache.canvasHeight - focusRingWidth);
+    this.ctx.restore();
+  }
+
+  /**
+   * Draws marker lines with the progress line geometry, then their flags. Flags that would
+   * overlap are stacked in rows below the top of the line, and elided once the rows are full.
+   */
+  private renderMarkers(cache: RenderCache, options: Required<WaveformOptions>): MarkerFlag[] {
+    const { canvasHeight, canvasWidth, viewport } = cache;
+    const height = this.markerFlagHeight;
+    const visible = this.markers
+      .map(marker => ({
+        marker,
+        style: {
+          ...options.markerStyle,
+          ...marker.style,
+          ...(this.forcedColors && { color: options.markerStyle.color, labelColor: options.markerStyle.labelColor }),
+        } as Required<MarkerStyle>,
+        x: toViewportProgress(marker.position, viewport) * canvasWidth,
+      }))
+      .filter(({ x }) => x >= 0 && x <= canvasWidth);
+
+    this.ctx.save();
+    this.ctx.font = "11px sans-serif";
+    this.ctx.textBaseline = "middle";
+
+    visible.forEach(({ style, x }) => drawProgressLine(this.ctx, x, canvasHeight, style));
+
+    const widths = visible.map(({ marker }) => (marker.label ? this.ctx.measureText(marker.label).width + 8 : 6));
+    const rows = Math.max(1, Math.min(this.markerLabelRows, Math.floor(canvasHeight / height)));
+    const placements = layoutMarkerLabels(
+      visible.map(({ x }, i) => ({ width: widths[i], x })),
+      canvasWidth,
+      rows,
+    );
+    const flags: MarkerFlag[] = [];
+
+    placements.forEach((placement, i) => {
+      if (!placement) return;
+
+      const { marker, style } = visible[i];
+      const { startY } = calculateLineDimensions(canvasHeight * style.heightPercent, canvasHeight, style.position);
+      const flag = { height, id: marker.id, width: widths[i], x: placement.x, y: startY + placement.row * height };
+
+      this.ctx.fillStyle = style.color;
+      this.ctx.fillRect(flag.x, flag.y, flag.width, flag.height);
+
+      if (marker.label) {
+        this.ctx.fillStyle = style.labelColor;
+        this.ctx.fillText(marker.label, flag.x + 4, flag.y + height / 2);
+      }
+
+      flags.push(flag);
+    });
+
+    this.ctx.restore();
+    return flags;
+  }
+
+  /**
+   * The playhead is hidden once it scrolls out of a zoomed viewport; values past
+   * the end of the waveform stay pinned to the right edge.
+   */
+  private isPlayheadVisible(visibleProgress: number, cache: RenderCache): boolean {
+    const viewportEnd = cache.viewport?.end ?? 1;
+    return visibleProgress >= 0 && (visibleProgress <= 1 || viewportEnd >= 1);
+  }
+
   private shouldUseFallbackRendering(options: Required<WaveformOptions>, staticPath?: Path2D): boolean {
+    // Only bars have rounded corners; other styles are always drawn from their cached path
+    if (resolveWaveformStyle(options.style).type !== "bars") {
+      return false;
+    }
+
     return options.borderRadius > 0 && (!staticPath || typeof (Path2D.prototype as any).roundRect !== "function");
   }
 
-  private renderWithPath(path: Path2D, backgroundColor: string, options: Required<WaveformOptions>): void {
-    // Draw background waveform
-    this.ctx.fillStyle = backgroundColor;
-    this.ctx.fill(path);
+  private renderWithPath(
+    cache: RenderCache,
+    path: Path2D,
+    backgroundColor: Paint,
+    options: Required<WaveformOptions>,
+  ): void {
+    const { channelPaths } = cache;
+
+    if (isStrokedStyle(options.style)) {
+      if (channelPaths && options.channelColors?.length) {
+        channelPaths.forEach((channelPath, channel) =>
+          this.strokeLine(cache, channelPath, this.getChannelColor(options, channel, backgroundColor), options),
+        );
+      } else {
+        this.strokeLine(cache, path, backgroundColor, options);
+      }
+      return;
+    }
+
+    // Draw background waveform, one fill per color batch or per lane when channel colors are set
+    if (this.hasBarColors(options)) {
+      this.fillBarColorGroups(cache, "unplayed", options, false);
+    } else if (channelPaths && options.channelColors?.length) {
+      channelPaths.forEach((channelPath, channel) => {
+        const bars = cache.bars.filter(bar => (bar.channel ?? 0) === channel);
+        this.fillPath(cache, channelPath, bars, this.getChannelColor(options, channel, backgroundColor), options);
+      });
+    } else {
+      this.fillPath(cache, path, cache.bars, backgroundColor, options);
+    }
 
     if (options.borderWidth > 0) {
-      this.ctx.strokeStyle = options.borderColor;
+      this.ctx.strokeStyle = this.getPaintStyle(cache, options.borderColor);
       this.ctx.lineWidth = options.borderWidth;
       this.ctx.stroke(path);
     }
   }
 
   private renderProgressWithPath(
+    cache: RenderCache,
     path: Path2D,
-    color: string,
+    color: Paint,
     progress: number,
-    canvasWidth: number,
     options: Required<WaveformOptions>,
   ): void {
     this.ctx.save();
-    const progressWidth = canvasWidth * progress;
+    const progressWidth = cache.canvasWidth * progress;
     this.ctx.beginPath();
-    this.ctx.rect(0, 0, progressWidth, canvasWidth);
+    this.ctx.rect(0, 0, progressWidth, cache.canvasWidth);
     this.ctx.clip();
 
-    this.ctx.fillStyle = color;
+    if (isStrokedStyle(options.style)) {
+      this.strokeLine(cache, path, color, options);
+    } else {
+      if (this.hasBarColors(options)) {
+        this.fillBarColorGroups(cache, "played", options, false);
+      } else {
+        this.fillPath(cache, path, cache.bars, color, options);
+      }
+
+      if (options.borderWidth > 0) {
+        this.ctx.strokeStyle = this.getPaintStyle(cache, options.borderColor);
+        this.ctx.stroke(path);
+      }
+    }
+
+    const rmsColor = options.rmsProgressColor ?? options.rmsColor;
+    if (cache.rmsPath && rmsColor) {
+      this.paintRmsPath(cache, cache.rmsPath, rmsColor, options);
+    }
+
+    this.ctx.restore();
+  }
+
+  /**
+   * Draws the RMS body of each bar on top of the peak outline
+   */
+  private renderRmsBody(
+    cache: RenderCache,
+    color: string,
+    options: Required<WaveformOptions>,
+    useFallback: boolean,
+  ): void {
+    if (!useFallback) {
+      if (cache.rmsPath) {
+        this.paintRmsPath(cache, cache.rmsPath, color, options);
+      }
+      return;
+    }
+
+    const rmsBars = this.getRmsBars(cache.bars);
+    if (rmsBars.length > 0) {
+      this.renderBarsWithFallback(cache, rmsBars, color, { ...options, borderWidth: 0 });
+    }
+  }
+
+  private paintRmsPath(cache: RenderCache, path: Path2D, color: string, options: Required<WaveformOptions>): void {
+    if (isStrokedStyle(options.style)) {
+      this.strokeLine(cache, path, color, { ...options, borderWidth: 0 });
+    } else {
+      this.ctx.fillStyle = color;
+      this.ctx.fill(path);
+    }
+  }
+
+  /**
+   * Fills a cached path. Bar-relative gradients need one fill per bar, so the bars
+   * traced into the path are filled one by one instead.
+   */
+  private fillPath(
+    cache: RenderCache,
+    path: Path2D,
+    bars: CachedBarData[],
+    paint: Paint,
+    options: Required<WaveformOptions>,
+  ): void {
+    if (isBarPaint(paint) && resolveWaveformStyle(options.style).type === "bars") {
+      this.fillEachBar(bars, paint, options.borderRadius);
+      return;
+    }
+
+    this.ctx.fillStyle = this.getPaintStyle(cache, paint);
     this.ctx.fill(path);
+  }
+
+  private fillEachBar(bars: CachedBarData[], paint: Paint, borderRadius: number): void {
+    for (const bar of bars) {
+      this.ctx.fillStyle = resolvePaint(this.ctx, paint, bar);
+      this.ctx.beginPath();
+      traceBar(this.ctx, bar, borderRadius);
+      this.ctx.fill();
+    }
+  }
+
+  /**
+   * Resolves a paint sized to the whole canvas. Gradients and patterns are kept on the
+   * cache, which is rebuilt on resize and invalidated when the colors change.
+   */
+  private getPaintStyle(cache: RenderCache, paint: Paint): PaintStyle {
+    if (typeof paint === "string") {
+      return paint;
+    }
+
+    cache.paints ??= new Map();
+    let style = cache.paints.get(paint);
+
+    if (style === undefined) {
+      style = resolvePaint(this.ctx, paint, { x: 0, y: 0, width: cache.canvasWidth, height: cache.canvasHeight });
+      cache.paints.set(paint, style);
+    }
+
+    return style;
+  }
+
+  /**
+   * Strokes the `line` style; its border is a wider line drawn underneath
+   */
+  private strokeLine(cache: RenderCache, path: Path2D, color: Paint, options: Required<WaveformOptions>): void {
+    const lineWidth = resolveWaveformStyle(options.style).lineWidth ?? options.barWidth;
+
+    this.ctx.lineJoin = "round";
+    this.ctx.lineCap = "round";
 
     if (options.borderWidth > 0) {
-      this.ctx.strokeStyle = options.borderColor;
+      this.ctx.strokeStyle = this.getPaintStyle(cache, options.borderColor);
+      this.ctx.lineWidth = lineWidth + options.borderWidth * 2;
       this.ctx.stroke(path);
     }
 
-    this.ctx.restore();
+    this.ctx.strokeStyle = this.getPaintStyle(cache, color);
+    this.ctx.lineWidth = lineWidth;
+    this.ctx.stroke(path);
+  }
+
+  private getRmsBars(bars: CachedBarData[]): CachedBarData[] {
+    return bars
+      .filter(bar => bar.rmsHeight !== undefined)
+      .map(bar => ({ ...bar, y: bar.rmsY!, height: bar.rmsHeight! }));
+  }
+
+  private renderWithFallback(cache: RenderCache, color: Paint, options: Required<WaveformOptions>): void {
+    const channelCount = cache.channelCount ?? 1;
+
+    if (this.hasBarColors(options)) {
+      this.fillBarColorGroups(cache, "unplayed", options, true);
+      return;
+    }
+
+    if (channelCount > 1 && options.channelColors?.length) {
+      for (let channel = 0; channel < channelCount; channel++) {
+        const bars = cache.bars.filter(bar => bar.channel === channel);
+        this.renderBarsWithFallback(cache, bars, this.getChannelColor(options, channel, color), options);
+      }
+      return;
+    }
+
+    this.renderBarsWithFallback(cache, cache.bars, color, options);
+  }
+
+  /**
+   * Per-bar colors apply to styles that draw each bar on its own
+   */
+  private hasBarColors(options: Required<WaveformOptions>): boolean {
+    const { type } = resolveWaveformStyle(options.style);
+    return !!options.barColor && (type === "bars" || type === "dots");
+  }
+
+  /**
+   * Fills the bars batched by their `barColor`, so each color costs a single fill
+   */
+  private fillBarColorGroups(
+    cache: RenderCache,
+    state: ProgressState,
+    options: Required<WaveformOptions>,
+    useFallback: boolean,
+  ): void {
+    for (const group of this.getBarColorGroups(cache, state, options)) {
+      if (useFallback) {
+        this.renderBarsWithFallback(cache, group.bars, group.paint, options);
+        continue;
+      }
+
+      if (!group.path) {
+        group.path = new Path2D();
+        traceWaveformShape(group.path, group.bars, cache.lanes, options.style, options.borderRadius);
+      }
+      this.fillPath(cache, group.path, group.bars, group.paint, options);
+    }
+  }
+
+  /**
+   * Groups the bars by color once per cache; bars without a color of their own keep
+   * the progress color or their channel's background
+   */
+  private getBarColorGroups(
+    cache: RenderCache,
+    state: ProgressState,
+    options: Required<WaveformOptions>,
+  ): BarColorGroup[] {
+    const cached = cache.barColorGroups?.[state];
+    if (cached) {
+      return cached;
+    }
+
+    const getBarColor = resolveBarColor(options.barColor!, cache.canvasWidth);
+    const groups = new Map<Paint, CachedBarData[]>();
+    const channelIndexes = new Map<number, number>();
+
+    for (const bar of cache.bars) {
+      const channel = bar.channel ?? 0;
+      const index = channelIndexes.get(channel) ?? 0;
+      channelIndexes.set(channel, index + 1);
+
+      const paint =
+        getBarColor(bar, index, state) ??
+        (state === "played" ? options.color : this.getChannelColor(options, channel, options.backgroundColor));
+      const bars = groups.get(paint);
+      if (bars) {
+        bars.push(bar);
+      } else {
+        groups.set(paint, [bar]);
+      }
+    }
+
+    const result = [...groups].map(([paint, bars]) => ({ paint, bars }));
+    cache.barColorGroups = { ...cache.barColorGroups, [state]: result };
+    return result;
   }
 
-  private renderWithFallback(cache: RenderCache, color: string, options: Required<WaveformOptions>): void {
-    this.renderBarsWithFallback(cache.bars, color, options);
+  private getChannelColor(options: Required<WaveformOptions>, channel: number, fallback: Paint): Paint {
+    return options.channelColors[channel] ?? fallback;
   }
 
   private renderProgressWithFallback(
     cache: RenderCache,
-    color: string,
+    color: Paint,
     progress: number,
     options: Required<WaveformOptions>,
   ): void {
@@ -142,16 +822,37 @@ export class RenderingEngine {
     this.ctx.beginPath();
     this.ctx.rect(0, 0, progressWidth, cache.canvasHeight);
     this.ctx.clip();
-    this.renderBarsWithFallback(cache.bars, color, options);
+
+    if (this.hasBarColors(options)) {
+      this.fillBarColorGroups(cache, "played", options, true);
+    } else {
+      this.renderBarsWithFallback(cache, cache.bars, color, options);
+    }
+
+    const rmsColor = options.rmsProgressColor ?? options.rmsColor;
+    if (rmsColor) {
+      this.renderRmsBody(cache, rmsColor, options, true);
+    }
+
     this.ctx.restore();
   }
 
-  private renderBarsWithFallback(bars: CachedBarData[], color: string, options: Required<WaveformOptions>): void {
+  private renderBarsWithFallback(
+    cache: RenderCache,
+    bars: CachedBarData[],
+    color: Paint,
+    options: Required<WaveformOptions>,
+  ): void {
     const { borderColor, borderRadius, borderWidth = 0 } = options;
 
-    this.ctx.fillStyle = color;
+    if (isBarPaint(color)) {
+      this.fillEachBar(bars, color, borderRadius);
+    } else {
+      this.ctx.fillStyle = this.getPaintStyle(cache, color);
+    }
+
     if (borderWidth > 0) {
-      this.ctx.strokeStyle = borderColor;
+      this.ctx.strokeStyle = this.getPaintStyle(cache, borderColor);
       this.ctx.lineWidth = borderWidth;
     }
 
@@ -159,14 +860,12 @@ export class RenderingEngine {
     this.ctx.beginPath();
 
     for (const bar of bars) {
-      if (borderRadius > 0 && typeof this.ctx.roundRect === "function") {
-        this.ctx.roundRect(bar.x, bar.y, bar.width, bar.height, borderRadius);
-      } else {
-        this.ctx.rect(bar.x, bar.y, bar.width, bar.height);
-      }
+      traceBar(this.ctx, bar, borderRadius);
     }
 
-    this.ctx.fill();
+    if (!isBarPaint(color)) {
+      this.ctx.fill();
+    }
 
     if (borderWidth > 0) {
       this.ctx.stroke();
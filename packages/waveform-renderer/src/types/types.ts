@@ -4,6 +4,166 @@
 
 export type RenderMode = "bottom" | "center" | "top";
 
+export type ChannelLayout = "mirrored" | "stacked";
+
+export type AmplitudeScaleType = "db" | "linear" | "power" | "sqrt";
+
+/**
+ * `floor` is the quietest level shown by the `db` scale (default -60 dB),
+ * `exponent` the curve of the `power` scale (default 0.5)
+ */
+export interface AmplitudeScaleOptions {
+  exponent?: number;
+  floor?: number;
+  type: AmplitudeScaleType;
+}
+
+export type AmplitudeScale = AmplitudeScaleOptions | AmplitudeScaleType;
+
+export type NormalizationType = "fixed" | "none" | "peak" | "percentile";
+
+/**
+ * `ceiling` is the level drawn at full height by `fixed` normalization (default 1),
+ * `percentile` the share of absolute values below full height for `percentile` normalization (default 99)
+ */
+export interface NormalizationOptions {
+  ceiling?: number;
+  percentile?: number;
+  type: NormalizationType;
+}
+
+export type Normalization = NormalizationOptions | NormalizationType;
+
+export type DownsamplingMethod = "average" | "lttb" | "max" | "none" | "rms";
+
+export type UpsamplingMethod = "cubic" | "linear" | "none";
+
+/**
+ * How peaks are mapped to bars: `downsample` when a bar covers several peaks (default `max`),
+ * `upsample` when bars fall between two peaks (default `linear`). `none` picks the nearest peak.
+ */
+export interface Resampling {
+  downsample?: DownsamplingMethod;
+  upsample?: UpsamplingMethod;
+}
+
+export type WaveformStyleType = "area" | "bars" | "dots" | "line" | "mirroredArea";
+
+/**
+ * `smooth` draws the `line` and area styles as Catmull-Rom curves. `lineWidth` is the stroke
+ * of the `line` style (default `barWidth`), `radius` the size of each dot (default half of `barWidth`).
+ */
+export interface WaveformStyleOptions {
+  lineWidth?: number;
+  radius?: number;
+  smooth?: boolean;
+  type: WaveformStyleType;
+}
+
+export type WaveformStyle = WaveformStyleOptions | WaveformStyleType;
+
+/**
+ * Value assigned to `fillStyle` or `strokeStyle`
+ */
+export type PaintStyle = CanvasGradient | CanvasPattern | string;
+
+/**
+ * Whether gradient coordinates are fractions of the whole canvas or of each bar
+ */
+export type PaintUnits = "bar" | "canvas";
+
+export interface GradientStop {
+  color: string;
+  offset: number;
+}
+
+/**
+ * `from` and `to` are fractions (0-1) of the painted area (default top to bottom)
+ */
+export interface LinearGradientPaint {
+  from?: [number, number];
+  stops: GradientStop[];
+  to?: [number, number];
+  type: "linearGradient";
+  units?: PaintUnits;
+}
+
+/**
+ * `center` is a fraction (0-1) of the painted area (default its middle),
+ * `radius` a fraction of its larger side (default 0.5)
+ */
+export interface RadialGradientPaint {
+  center?: [number, number];
+  radius?: number;
+  stops: GradientStop[];
+  type: "radialGradient";
+  units?: PaintUnits;
+}
+
+export interface PatternPaint {
+  repetition?: "no-repeat" | "repeat" | "repeat-x" | "repeat-y";
+  source: CanvasImageSource;
+  type: "pattern";
+}
+
+/**
+ * Rectangle, in CSS pixels, a paint is sized to
+ */
+export interface PaintArea {
+  height: number;
+  width: number;
+  x: number;
+  y: number;
+}
+
+export type PaintCallback = (ctx: CanvasRenderingContext2D, area: PaintArea) => PaintStyle;
+
+export type Paint = LinearGradientPaint | PaintCallback | PatternPaint | RadialGradientPaint | string;
+
+/**
+ * Whether a bar color is drawn in the played part of the waveform or the rest of it
+ */
+export type ProgressState = "played" | "unplayed";
+
+/**
+ * Returns the color of one bar, or nothing to use `color` or `backgroundColor`.
+ * `index` counts the bars of each channel from the left edge of the canvas.
+ */
+export type BarColorCallback = (
+  bar: CachedBarData,
+  index: number,
+  progressState: ProgressState,
+) => null | string | undefined;
+
+export type ColormapName = "heat" | "viridis";
+
+/**
+ * Maps a value between 0 and 1 to a color. `value` is the bar's `amplitude` (default),
+ * its `position` across the canvas, or one value per bar. Unplayed bars are drawn
+ * with `unplayedOpacity` (default 0.5) so progress stays visible.
+ */
+export interface ColormapOptions {
+  colormap: ColormapName | GradientStop[];
+  unplayedOpacity?: number;
+  value?: "amplitude" | "position" | number[];
+}
+
+export type BarColor = BarColorCallback | ColormapName | ColormapOptions;
+
+/**
+ * Visible range of the waveform as fractions (0-1) of the full duration
+ */
+export interface Viewport {
+  start: number;
+  end: number;
+}
+
+/**
+ * How presses on the waveform seek: `click` seeks where a press is released, `scrub` also
+ * follows sideways drags, and `handle` only lets the playhead be dragged
+ */
+export type InteractionMode = "click" | "handle" | "scrub";
+
 export interface ProgressLineOptions {
   color?: string;
   heightPercent?: number;
@@ -12,21 +172,245 @@ export interface ProgressLineOptions {
   width?: number;
 }
 
+/**
+ * Things a key can do while the waveform has focus. Steps are in seconds once `duration`
+ * is known, and a percentage of the waveform before.
+ */
+export type KeyAction =
+  | "end"
+  | "home"
+  | "largeStepBackward"
+  | "largeStepForward"
+  | "nextMarker"
+  | "nextRegion"
+  | "previousMarker"
+  | "previousRegion"
+  | "stepBackward"
+  | "stepForward";
+
+/**
+ * Keys per action, written like `"ArrowLeft"` or `"Shift+M"` with modifiers in the order
+ * Ctrl, Alt, Shift, Meta. Bindings given here replace the default ones of that action.
+ */
+export type KeyBindings = Partial<Record<KeyAction, string[]>>;
+
+/**
+ * Makes the canvas a focusable ARIA slider that can be moved with the keyboard
+ */
+export interface AccessibilityOptions {
+  focusRingColor?: string;
+  focusRingWidth?: number;
+  keyBindings?: KeyBindings;
+  /** Accessible name of the slider */
+  label?: string;
+  /** PageUp/PageDown jump, in seconds */
+  largeStep?: number;
+  /** Arrow key step, in seconds */
+  step?: number;
+}
+
+/**
+ * Animates the playhead after a seek, from where it was drawn to its new position
+ */
+export interface SeekEasingOptions {
+  /** Length of the animation in milliseconds */
+  duration?: number;
+  /** Maps the elapsed share of the animation (0-1) to the share of the jump covered (0-1) */
+  easing?: (t: number) => number;
+}
+
+/**
+ * Hover layer drawn while a mouse or pen is over the canvas: a cursor line, shading between
+ * the playhead and the pointer, and a tooltip. It is painted over the cached layout, so
+ * moving the pointer never rebuilds the render cache.
+ */
+export interface HoverOptions {
+  /** Cursor line color */
+  color?: string;
+  font?: string;
+  /** Fill laid over the waveform between the playhead and the pointer; `null` disables it */
+  shadeColor?: null | string;
+  /** Shows the time and peak under the pointer, or the text a formatter returns */
+  tooltip?: ((info: HoverInfo) => string) | boolean;
+  tooltipBackground?: string;
+  tooltipColor?: string;
+  width?: number;
+}
+
+export type TimeFormat = "beats" | "hh:mm:ss.ms" | "mm:ss" | "smpte";
+
+/**
+ * Settings a time label is formatted with. `interval` is the spacing of the labelled ticks
+ * in seconds, so formatters can drop digits that never change.
+ */
+export interface TimeFormatContext {
+  beatsPerBar: number;
+  bpm: number;
+  fps: number;
+  interval: number;
+  locale: string | string[];
+}
+
+export type TimeFormatter = (seconds: number, context: TimeFormatContext) => string;
+
+/**
+ * Time axis drawn along the top or bottom edge once `duration` is known. Its `height` is
+ * reserved, so the waveform is laid out in the remaining space.
+ */
+export interface TimeRulerOptions {
+  beatsPerBar?: number;
+  bpm?: number;
+  color?: string;
+  font?: string;
+  format?: TimeFormat | TimeFormatter;
+  fps?: number;
+  height?: number;
+  /** Locales passed to `Intl.NumberFormat`; an empty list uses the runtime's default */
+  locale?: string | string[];
+  /** Minimum distance between labelled ticks in pixels */
+  minTickSpacing?: number;
+  position?: "bottom" | "top";
+}
+
+export interface TimeTickIntervals {
+  major: number;
+  minor: number | null;
+}
+
 export interface WaveformOptions {
+  accessibility?: null | AccessibilityOptions;
   amplitude?: number;
-  backgroundColor?: string;
+  backgroundColor?: Paint;
+  barColor?: BarColor | null;
   barWidth?: number;
-  borderColor?: string;
+  borderColor?: Paint;
   borderRadius?: number;
   borderWidth?: number;
-  color?: string;
+  /** Paint of the buffered part of the unplayed waveform; `null` hides buffered ranges */
+  bufferedColor?: null | Paint;
+  channelColors?: string[];
+  channelLayout?: ChannelLayout;
+  color?: Paint;
+  createRegionsOnDrag?: boolean;
   debug?: boolean;
+  /** Distance in pixels a press moves before it becomes a drag */
+  dragThreshold?: number;
+  duration?: null | number;
   gap?: number;
+  hover?: null | HoverOptions;
+  interaction?: InteractionMode;
+  markerStyle?: MarkerStyle;
+  /** Largest zoom factor `zoomTo` and gestures reach */
+  maxZoom?: number;
   minPixelRatio?: number;
+  minZoom?: number;
+  normalize?: Normalization;
   position?: RenderMode;
   progress?: number;
   progressLine?: null | ProgressLineOptions;
+  /** Smallest playhead movement in CSS pixels that updates the progress */
+  progressPrecision?: number;
+  regionColor?: string;
+  regionLabelColor?: string;
+  resampling?: Resampling;
+  rmsColor?: null | string;
+  rmsProgressColor?: null | string;
+  scale?: AmplitudeScale;
+  seekEasing?: null | SeekEasingOptions;
   smoothing?: boolean;
+  style?: WaveformStyle;
+  timeRuler?: null | TimeRulerOptions;
+}
+
+// ====================================
+// Peak Data Types
+// ====================================
+
+export type PeakAggregation = "meanAbsolute" | "peak" | "rms";
+
+/**
+ * Signed peak pairs holding the lowest and highest sample value of each bucket,
+ * optionally with the RMS level of the same buckets
+ */
+export interface MinMaxPeaks {
+  max: number[];
+  min: number[];
+  rms?: number[];
+}
+
+export type ChannelPeaks = MinMaxPeaks | number[];
+
+/**
+ * Output shape of worker-backed extraction: absolute peaks, signed min/max pairs,
+ * or min/max pairs together with RMS levels
+ */
+export type PeakExtractionFormat = "minMax" | "peakRms" | "peaks";
+
+export interface PeakExtractionOptions {
+  aggregation?: PeakAggregation;
+  format?: PeakExtractionFormat;
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+  transfer?: boolean;
+  useWorker?: boolean;
+}
+
+export interface PeakPyramidOptions {
+  allChannels?: boolean;
+  samplesPerPeak?: number;
+}
+
+/**
+ * Peaks for a single channel, or one entry per channel for multi-lane rendering
+ */
+export type WaveformPeaks = ChannelPeaks | ChannelPeaks[];
+
+// ====================================
+// Peak and Audio File Format Types
+// ====================================
+
+/**
+ * Peaks read from a BBC audiowaveform `.dat` or `.json` file, scaled to -1 to 1
+ */
+export interface AudiowaveformData {
+  bits: 8 | 16;
+  channels: number;
+  length: number;
+  peaks: MinMaxPeaks | MinMaxPeaks[];
+  sampleRate: number;
+  samplesPerPixel: number;
+  version: 1 | 2;
+}
+
+/**
+ * The JSON document written by `audiowaveform --output-format json`
+ */
+export interface AudiowaveformJson {
+  bits: 8 | 16;
+  channels?: number;
+  data: number[];
+  length: number;
+  sample_rate: number;
+  samples_per_pixel: number;
+  version?: 1 | 2;
+}
+
+export interface AudiowaveformExportOptions {
+  bits?: 8 | 16;
+  sampleRate?: number;
+  samplesPerPixel?: number;
+  version?: 1 | 2;
+}
+
+export type WavSampleFormat = "float" | "pcm";
+
+/**
+ * A decoded WAV file. Implements the `AudioBuffer` interface so it can be passed
+ * to the peak helpers and `PeakPyramid.fromAudioBuffer` where Web Audio is unavailable.
+ */
+export interface DecodedWav extends AudioBuffer {
+  bitsPerSample: number;
+  format: WavSampleFormat;
 }
 
 // ====================================
@@ -35,19 +419,194 @@ export interface WaveformOptions {
 
 export interface WaveformEvents {
   destroy: void;
+  ended: void;
   error: Error;
+  hover: HoverInfo;
+  hoverEnd: void;
+  markerClick: Marker;
+  markerMoved: Marker;
+  pan: Viewport;
   progressChange: number;
   ready: void;
+  regionClick: Region;
+  regionCreated: Region;
+  regionUpdated: Region;
   renderComplete: void;
   renderStart: void;
   resize: { height: number; width: number };
+  scrub: number;
+  scrubEnd: number;
+  scrubStart: number;
   seek: number;
+  viewportChange: Viewport;
+  zoom: number;
+}
+
+/**
+ * What lies under a hovering pointer. `time` needs a `duration`; `bar` is the first
+ * channel's bar in the hovered column, or `null` where there is no bar.
+ */
+export interface HoverInfo {
+  bar: CachedBarData | null;
+  progress: number;
+  time: null | number;
+  x: number;
+  y: number;
 }
 
+/**
+ * Pointer location relative to the canvas in CSS pixels, with the absolute progress under it
+ */
+export interface PointerPosition {
+  progress: number;
+  progressPerPixel: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * `onPointerDown` returns true to follow the pointer as a drag; `onPointerUp` returns
+ * true when the drag should not also seek. Presses nothing claims seek or scrub, and
+ * `hitTestPlayhead` tells whether a press grabbed the playhead. `onHover` gets the moves
+ * of a mouse or pen that is not pressed. Gestures report `onZoom` as a factor to multiply
+ * the zoom by around an anchor, and `onPan` as a fraction of the full waveform.
+ */
 export interface EventCallbacks {
   onSeek: (progress: number) => void;
   onResize: (dimensions: { width: number; height: number }) => void;
   onError: (error: Error) => void;
+  onPointerDown?: (position: PointerPosition) => boolean;
+  onPointerMove?: (position: PointerPosition) => void;
+  onPointerUp?: (position: PointerPosition) => boolean;
+  onHover?: (position: PointerPosition) => void;
+  onHoverEnd?: () => void;
+  hitTestPlayhead?: (position: PointerPosition) => boolean;
+  onScrubStart?: (position: PointerPosition) => void;
+  onScrub?: (position: PointerPosition) => void;
+  onScrubEnd?: (position: PointerPosition) => void;
+  onZoom?: (factor: number, anchor: PointerPosition) => void;
+  onPan?: (delta: number) => void;
+}
+
+// ====================================
+// Media Types
+// ====================================
+
+/**
+ * Loaded part of the media as absolute positions (0-1)
+ */
+export interface BufferedRange {
+  end: number;
+  start: number;
+}
+
+/**
+ * Time ranges in seconds: a media element's `buffered` or `played`, or `[start, end]` pairs
+ */
+export type TimeRangesLike = [start: number, end: number][] | TimeRanges;
+
+/**
+ * `onProgress` reports the interpolated playhead on every frame while the media plays
+ */
+export interface MediaCallbacks {
+  onBufferedChange: (ranges: TimeRangesLike) => void;
+  onDurationChange: (duration: number) => void;
+  onProgress: (progress: number) => void;
+}
+
+// ====================================
+// Region Types
+// ====================================
+
+/**
+ * A range of the waveform. `start` and `end` are absolute positions (0-1), like `progress`.
+ * Regions can be moved and resized with the pointer unless `draggable` or `resizable` is false.
+ */
+export interface Region {
+  color?: string;
+  draggable?: boolean;
+  end: number;
+  id: string;
+  label?: string;
+  resizable?: boolean;
+  start: number;
+}
+
+/**
+ * A region to add; an id is generated when none is given
+ */
+export type RegionInit = Omit<Region, "id"> & { id?: string };
+
+export interface RegionCallbacks {
+  onChange: () => void;
+  onClick: (region: Region) => void;
+  onCreate: (region: Region) => void;
+  onUpdate: (region: Region) => void;
+}
+
+/**
+ * `onFocusChange` reports keyboard focus, which shows the focus ring
+ */
+export interface AccessibilityCallbacks {
+  getMarkers: () => Marker[];
+  getRegions: () => Region[];
+  onFocusChange: (focused: boolean) => void;
+  onForcedColorsChange: (active: boolean) => void;
+  onSeek: (progress: number) => void;
+}
+
+// ====================================
+// Marker Types
+// ====================================
+
+/**
+ * Line options of a marker, plus the color of the text on its flag
+ */
+export interface MarkerStyle extends ProgressLineOptions {
+  labelColor?: string;
+}
+
+/**
+ * A point annotation such as a cue point or chapter, at an absolute `position` (0-1).
+ * Markers can be dragged with the pointer when `draggable` is true.
+ */
+export interface Marker {
+  draggable?: boolean;
+  id: string;
+  label?: string;
+  position: number;
+  style?: MarkerStyle;
+}
+
+/**
+ * A marker to add; an id is generated when none is given
+ */
+export type MarkerInit = Omit<Marker, "id"> & { id?: string };
+
+/**
+ * Flag drawn at the top of a marker line, in CSS pixels
+ */
+export interface MarkerFlag {
+  height: number;
+  id: string;
+  width: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Row and left edge of a marker flag after overlapping flags were moved apart
+ */
+export interface MarkerLabelPlacement {
+  row: number;
+  x: number;
+}
+
+export interface MarkerCallbacks {
+  getFlags: () => MarkerFlag[];
+  onChange: () => void;
+  onClick: (marker: Marker) => void;
+  onMove: (marker: Marker) => void;
 }
 
 // ====================================
@@ -60,6 +619,21 @@ export interface CachedBarData {
   width: number;
   height: number;
   peakValue: number;
+  maxValue?: number;
+  minValue?: number;
+  rmsValue?: number;
+  rmsY?: number;
+  rmsHeight?: number;
+  channel?: number;
+}
+
+/**
+ * Vertical band of the canvas a channel is drawn in, and the edge its bars grow from
+ */
+export interface ChannelLane {
+  top: number;
+  height: number;
+  position: RenderMode;
 }
 
 export interface RenderCache {
@@ -70,10 +644,41 @@ export interface RenderCache {
   singleUnitWidth: number;
   bars: CachedBarData[];
   staticWaveformPath?: Path2D;
+  channelCount?: number;
+  channelPaths?: Path2D[];
+  /** One lane per channel, used to shape non-bar styles */
+  lanes?: ChannelLane[];
+  rmsPath?: Path2D;
+  viewport?: Viewport;
+  /** Number of peaks the layout is scaled for, which may exceed the peaks received so far */
+  layoutLength?: number;
+  /** Bars per channel that already have peak data */
+  filledBars?: number;
+  /** Gradients and patterns resolved for this canvas size */
+  paints?: Map<Paint, PaintStyle>;
+  /** Bars grouped by the color `barColor` gives them, per progress state */
+  barColorGroups?: Partial<Record<ProgressState, BarColorGroup[]>>;
   lastOptionsHash: string;
   lastPeaksHash: string;
 }
 
+/**
+ * Bars sharing one color, filled together through a single path
+ */
+export interface BarColorGroup {
+  bars: CachedBarData[];
+  paint: Paint;
+  path?: Path2D;
+}
+
+/**
+ * Horizontal range, in CSS pixels, that needs repainting
+ */
+export interface DirtyRegion {
+  end: number;
+  start: number;
+}
+
 // ====================================
 // Debug System Types
 // ====================================
@@ -0,0 +1,101 @@
+import type { KeyAction, KeyBindings, WaveformOptions } from "../types";
+
+import { DEFAULT_KEY_BINDINGS } from "../constants/default";
+import { formatRulerTime } from "./time-ruler";
+
+const VALUE_TIME_INTERVAL = 1; // s, whole seconds are read out
+
+/**
+ * Names a key press the way bindings are written: modifiers in the order Ctrl, Alt, Shift,
+ * Meta, then the key. Letters are lower case unless Shift is held, so `Shift+M` and `m`
+ * are told apart.
+ */
+export function getKeyName(event: Pick<KeyboardEvent, "altKey" | "ctrlKey" | "key" | "metaKey" | "shiftKey">): string {
+  // Caps Lock alone does not change the binding
+  const key = event.key.length === 1 ? (event.shiftKey ? event.key.toUpperCase() : event.key.toLowerCase()) : event.key;
+  const modifiers = [
+    event.ctrlKey && "Ctrl",
+    event.altKey && "Alt",
+    event.shiftKey && "Shift",
+    event.metaKey && "Meta",
+  ];
+
+  return [...modifiers.filter(Boolean), key].join("+");
+}
+
+/**
+ * Maps each bound key to its action. Actions given in `bindings` replace their default keys.
+ */
+export function resolveKeyBindings(bindings: KeyBindings = {}): Map<string, KeyAction> {
+  const resolved = new Map<string, KeyAction>();
+  const merged = { ...DEFAULT_KEY_BINDINGS, ...bindings };
+
+  (Object.keys(merged) as KeyAction[]).forEach(action => {
+    merged[action]?.forEach(key => resolved.set(key, action));
+  });
+
+  return resolved;
+}
+
+/**
+ * Finds the nearest position strictly before or after `progress`, or `null` at either end
+ */
+export function findAdjacentPosition(positions: number[], progress: number, direction: 1 | -1): number | null {
+  const epsilon = 1e-6;
+  const candidates = positions.filter(position =>
+    direction === 1 ? position > progress + epsilon : position < progress - epsilon,
+  );
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  return direction === 1 ? Math.min(...candidates) : Math.max(...candidates);
+}
+
+/**
+ * Text a screen reader announces for the slider: `"1:05 of 3:20"` in the ruler's format,
+ * or a percentage without a duration
+ */
+export function formatValueText(progress: number, options: Required<WaveformOptions>): string {
+  const { duration } = options;
+
+  if (typeof duration !== "number" || duration <= 0) {
+    return `${Math.round(progress * 100)}%`;
+  }
+
+  const time = formatRulerTime(progress * duration, options, VALUE_TIME_INTERVAL);
+  return `${time} of ${formatRulerTime(duration, options, VALUE_TIME_INTERVAL)}`;
+}
+
+/**
+ * Replaces every color with CSS system colors while the user agent forces a high-contrast
+ * palette: unplayed bars in `CanvasText`, played bars in `Highlight`, and overlays in
+ * colors the palette keeps apart. Gradients, colormaps and translucent fills are dropped.
+ */
+export function applyForcedColors(options: Required<WaveformOptions>): Required<WaveformOptions> {
+  return {
+    ...options,
+    accessibility: options.accessibility && { ...options.accessibility, focusRingColor: "Highlight" },
+    backgroundColor: "CanvasText",
+    barColor: null,
+    borderColor: "CanvasText",
+    bufferedColor: options.bufferedColor && "GrayText",
+    channelColors: [],
+    color: "Highlight",
+    hover: options.hover && {
+      ...options.hover,
+      color: "CanvasText",
+      shadeColor: null,
+      tooltipBackground: "Canvas",
+      tooltipColor: "CanvasText",
+    },
+    markerStyle: { ...options.markerStyle, color: "CanvasText", labelColor: "Canvas" },
+    progressLine: options.progressLine && { ...options.progressLine, color: "CanvasText" },
+    regionColor: "Highlight",
+    regionLabelColor: "CanvasText",
+    rmsColor: null,
+    rmsProgressColor: null,
+    timeRuler: options.timeRuler && { ...options.timeRuler, color: "CanvasText" },
+  };
+}
@@ -0,0 +1,247 @@
+import type {
+  AudiowaveformData,
+  AudiowaveformExportOptions,
+  AudiowaveformJson,
+  MinMaxPeaks,
+  WaveformPeaks,
+} from "../types";
+import { getPeakChannels, isMinMaxPeaks } from "./peaks";
+
+const V1_HEADER_SIZE = 20;
+const V2_HEADER_SIZE = 24;
+const FLAG_8_BIT = 0x1;
+
+/**
+ * Parses a binary audiowaveform `.dat` file (version 1 or 2, 8- or 16-bit).
+ * Returns one min/max peak pair per channel, scaled to a range of -1 to 1.
+ */
+export function parseAudiowaveformDat(data: ArrayBuffer | ArrayBufferView): AudiowaveformData {
+  const view = ArrayBuffer.isView(data)
+    ? new DataView(data.buffer, data.byteOffset, data.byteLength)
+    : new DataView(data);
+
+  if (view.byteLength < V1_HEADER_SIZE) {
+    throw new Error("Audiowaveform data is too short to contain a header");
+  }
+
+  const version = view.getInt32(0, true);
+  if (version !== 1 && version !== 2) {
+    throw new Error(`Unsupported audiowaveform version: ${version}`);
+  }
+
+  if (version === 2 && view.byteLength < V2_HEADER_SIZE) {
+    throw new Error("Audiowaveform data is too short to contain a header");
+  }
+
+  const flags = view.getUint32(4, true);
+  if ((flags & ~FLAG_8_BIT) !== 0) {
+    throw new Error(`Invalid audiowaveform flags: ${flags}`);
+  }
+
+  const bits = flags & FLAG_8_BIT ? 8 : 16;
+  const sampleRate = view.getInt32(8, true);
+  const samplesPerPixel = view.getInt32(12, true);
+  const length = view.getUint32(16, true);
+  const channels = version === 2 ? view.getInt32(20, true) : 1;
+
+  validateHeader({ bits, channels, length, sampleRate, samplesPerPixel });
+
+  const headerSize = version === 2 ? V2_HEADER_SIZE : V1_HEADER_SIZE;
+  const bytesPerValue = bits / 8;
+  const valueCount = length * channels * 2;
+
+  if (view.byteLength < headerSize + valueCount * bytesPerValue) {
+    throw new Error("Audiowaveform data is shorter than the length in its header");
+  }
+
+  const values: number[] = Array.from({ length: valueCount });
+  for (let i = 0; i < valueCount; i++) {
+    const offset = headerSize + i * bytesPerValue;
+    values[i] = bits === 8 ? view.getInt8(offset) : view.getInt16(offset, true);
+  }
+
+  return {
+    bits,
+    channels,
+    length,
+    peaks: deinterleave(values, length, channels, bits),
+    sampleRate,
+    samplesPerPixel,
+    version,
+  };
+}
+
+/**
+ * Parses the JSON output of audiowaveform, given as a string or an already parsed object
+ */
+export function parseAudiowaveformJson(json: AudiowaveformJson | string): AudiowaveformData {
+  const document: Partial<AudiowaveformJson> = typeof json === "string" ? JSON.parse(json) : json;
+
+  if (!document || typeof document !== "object") {
+    throw new Error("Audiowaveform JSON must be an object");
+  }
+
+  const { bits, channels = 1, data, length, sample_rate, samples_per_pixel, version = 1 } = document;
+
+  if (version !== 1 && version !== 2) {
+    throw new Error(`Unsupported audiowaveform version: ${version}`);
+  }
+
+  if (bits !== 8 && bits !== 16) {
+    throw new Error(`Unsupported audiowaveform bit depth: ${bits}`);
+  }
+
+  if (!Array.isArray(data)) {
+    throw new Error("Audiowaveform JSON must contain a data array");
+  }
+
+  validateHeader({ bits, channels, length: length!, sampleRate: sample_rate!, samplesPerPixel: samples_per_pixel! });
+
+  if (data.length !== length! * channels * 2) {
+    throw new Error("Audiowaveform data length does not match its header");
+  }
+
+  return {
+    bits,
+    channels,
+    length: length!,
+    peaks: deinterleave(data, length!, channels, bits),
+    sampleRate: sample_rate!,
+    samplesPerPixel: samples_per_pixel!,
+    version,
+  };
+}
+
+/**
+ * Serializes peaks to a binary audiowaveform `.dat` file. Absolute peaks are written
+ * as symmetric min/max pairs; multiple channels require version 2.
+ */
+export function toAudiowaveformDat(peaks: WaveformPeaks, options: AudiowaveformExportOptions = {}): ArrayBuffer {
+  const { bits, channels, length, sampleRate, samplesPerPixel, values, version } = prepareExport(peaks, options);
+  const headerSize = version === 2 ? V2_HEADER_SIZE : V1_HEADER_SIZE;
+  const bytesPerValue = bits / 8;
+  const buffer = new ArrayBuffer(headerSize + values.length * bytesPerValue);
+  const view = new DataView(buffer);
+
+  view.setInt32(0, version, true);
+  view.setUint32(4, bits === 8 ? FLAG_8_BIT : 0, true);
+  view.setInt32(8, sampleRate, true);
+  view.setInt32(12, samplesPerPixel, true);
+  view.setUint32(16, length, true);
+  if (version === 2) {
+    view.setInt32(20, channels, true);
+  }
+
+  for (let i = 0; i < values.length; i++) {
+    const offset = headerSize + i * bytesPerValue;
+    if (bits === 8) {
+      view.setInt8(offset, values[i]);
+    } else {
+      view.setInt16(offset, values[i], true);
+    }
+  }
+
+  return buffer;
+}
+
+/**
+ * Serializes peaks to the audiowaveform JSON format
+ */
+export function toAudiowaveformJson(peaks: WaveformPeaks, options: AudiowaveformExportOptions = {}): AudiowaveformJson {
+  const { bits, channels, length, sampleRate, samplesPerPixel, values, version } = prepareExport(peaks, options);
+
+  // Version 1 documents have no channel count
+  return {
+    version,
+    ...(version === 2 ? { channels } : {}),
+    sample_rate: sampleRate,
+    samples_per_pixel: samplesPerPixel,
+    bits,
+    length,
+    data: values,
+  };
+}
+
+function validateHeader(header: {
+  bits: number;
+  channels: number;
+  length: number;
+  sampleRate: number;
+  samplesPerPixel: number;
+}): void {
+  if (!Number.isInteger(header.channels) || header.channels < 1) {
+    throw new Error(`Invalid audiowaveform channel count: ${header.channels}`);
+  }
+
+  if (!Number.isInteger(header.sampleRate) || header.sampleRate <= 0) {
+    throw new Error(`Invalid audiowaveform sample rate: ${header.sampleRate}`);
+  }
+
+  if (!Number.isInteger(header.samplesPerPixel) || header.samplesPerPixel <= 0) {
+    throw new Error(`Invalid audiowaveform samples per pixel: ${header.samplesPerPixel}`);
+  }
+
+  if (!Number.isInteger(header.length) || header.length < 0) {
+    throw new Error(`Invalid audiowaveform length: ${header.length}`);
+  }
+}
+
+/**
+ * Splits `[min, max]` pairs, interleaved per channel within each pixel, into scaled peaks
+ */
+function deinterleave(
+  values: ArrayLike<number>,
+  length: number,
+  channels: number,
+  bits: number,
+): MinMaxPeaks | MinMaxPeaks[] {
+  const scale = 2 ** (bits - 1);
+  const result: MinMaxPeaks[] = Array.from({ length: channels }, () => ({
+    max: Array.from({ length }),
+    min: Array.from({ length }),
+  }));
+
+  for (let i = 0; i < length; i++) {
+    for (let channel = 0; channel < channels; channel++) {
+      const index = (i * channels + channel) * 2;
+      result[channel].min[i] = values[index] / scale;
+      result[channel].max[i] = values[index + 1] / scale;
+    }
+  }
+
+  return channels > 1 ? result : result[0];
+}
+
+function prepareExport(peaks: WaveformPeaks, options: AudiowaveformExportOptions) {
+  const { bits = 16, sampleRate = 44100, samplesPerPixel = 256 } = options;
+  const channelPeaks = getPeakChannels(peaks).map(channel =>
+    isMinMaxPeaks(channel) ? channel : { max: channel.map(Math.abs), min: channel.map(peak => -Math.abs(peak)) },
+  );
+  const channels = channelPeaks.length;
+  const version = options.version ?? 2;
+
+  if (version === 1 && channels > 1) {
+    throw new Error("Audiowaveform version 1 only supports a single channel");
+  }
+
+  if (bits !== 8 && bits !== 16) {
+    throw new Error(`Unsupported audiowaveform bit depth: ${bits}`);
+  }
+
+  validateHeader({ bits, channels, length: 0, sampleRate, samplesPerPixel });
+
+  const length = channelPeaks[0].max.length;
+  const scale = 2 ** (bits - 1);
+  const values: number[] = Array.from({ length: length * channels * 2 });
+  const quantize = (value: number) => Math.max(-scale, Math.min(scale - 1, Math.round((value || 0) * scale)));
+
+  for (let i = 0; i < length; i++) {
+    for (let channel = 0; channel < channels; channel++) {
+      const index = (i * channels + channel) * 2;
+      values[index] = quantize(channelPeaks[channel].min[i]);
+      values[index + 1] = quantize(channelPeaks[channel].max[i]);
+    }
+  }
+
+  return { bits, channels, length, sampleRate, samplesPerPixel, values, version };
+}
@@ -1,14 +1,66 @@
-import type { ProgressLineOptions, RenderMode } from "../types";
+import type { AmplitudeScale, ProgressLineOptions, RenderMode } from "../types";
 
 /**
- * Calculates the vertical position and height for a bar based on the render mode
+ * Maps a linear peak value to its displayed height (0-1 for normalized peaks),
+ * keeping its sign. The `db` scale maps `floor` dB to 0 and 0 dB to 1.
+ */
+export function applyAmplitudeScale(value: number, scale: AmplitudeScale = "linear"): number {
+  const { exponent = 0.5, floor = -60, type } = typeof scale === "string" ? { type: scale } : scale;
+  const magnitude = Math.abs(value);
+  let scaled: number;
+
+  switch (type) {
+    case "db": {
+      const decibels = magnitude > 0 ? 20 * Math.log10(magnitude) : -Infinity;
+      scaled = floor < 0 ? Math.max(0, (decibels - floor) / -floor) : magnitude;
+      break;
+    }
+    case "power":
+      scaled = magnitude ** exponent;
+      break;
+    case "sqrt":
+      scaled = Math.sqrt(magnitude);
+      break;
+    case "linear":
+    default:
+      scaled = magnitude;
+  }
+
+  return value < 0 ? -scaled : scaled;
+}
+
+/**
+ * Calculates the vertical position and height for a bar based on the render mode.
+ * When `minPeak` is given, `peak` is treated as the bucket maximum and the bar spans
+ * from min to max around the centerline in center mode; other modes draw its magnitude.
+ * Peaks are mapped through `scale` before they are multiplied by the amplitude.
  */
 export function calculateBarDimensions(
   peak: number,
   canvasHeight: number,
   amplitude: number,
   position: RenderMode,
+  minPeak?: number,
+  scale: AmplitudeScale = "linear",
 ): { height: number; y: number } {
+  peak = applyAmplitudeScale(peak, scale);
+
+  if (minPeak !== undefined) {
+    minPeak = applyAmplitudeScale(minPeak, scale);
+
+    if (position === "center") {
+      const halfHeight = canvasHeight / 2;
+      const top = Math.max(peak, minPeak);
+      const bottom = Math.min(peak, minPeak);
+      return {
+        height: (top - bottom) * halfHeight * amplitude,
+        y: halfHeight - top * halfHeight * amplitude,
+      };
+    }
+
+    peak = Math.max(Math.abs(peak), Math.abs(minPeak));
+  }
+
   const height = peak * canvasHeight * amplitude;
 
   switch (position) {
@@ -0,0 +1,125 @@
+import type { BarColor, BarColorCallback, ColormapName, GradientStop } from "../types";
+
+export const COLORMAPS: Record<ColormapName, GradientStop[]> = {
+  heat: [
+    { offset: 0, color: "#0b0000" },
+    { offset: 0.375, color: "#ff0000" },
+    { offset: 0.75, color: "#ffff00" },
+    { offset: 1, color: "#ffffff" },
+  ],
+  viridis: [
+    { offset: 0, color: "#440154" },
+    { offset: 0.125, color: "#472d7b" },
+    { offset: 0.25, color: "#3b528b" },
+    { offset: 0.375, color: "#2c728e" },
+    { offset: 0.5, color: "#21918c" },
+    { offset: 0.625, color: "#28ae80" },
+    { offset: 0.75, color: "#5ec962" },
+    { offset: 0.875, color: "#addc30" },
+    { offset: 1, color: "#fde725" },
+  ],
+};
+
+type Rgba = [number, number, number, number];
+
+/**
+ * Returns the color at `value` (0-1) of a built-in colormap or custom stops, blending
+ * the neighbouring stops in RGB. Custom stops must use hex or `rgb()`/`rgba()` colors.
+ */
+export function sampleColormap(colormap: ColormapName | GradientStop[], value: number, opacity = 1): string {
+  const stops = typeof colormap === "string" ? COLORMAPS[colormap] : [...colormap].sort((a, b) => a.offset - b.offset);
+
+  if (!stops?.length) {
+    throw new Error(
+      typeof colormap === "string" ? `Unknown colormap: ${colormap}` : "Colormaps need at least one stop",
+    );
+  }
+
+  const position = Math.max(0, Math.min(1, Number.isFinite(value) ? value : 0));
+  const upper = stops.findIndex(stop => stop.offset >= position);
+
+  let color: Rgba;
+  if (upper <= 0) {
+    color = parseColor(stops[Math.max(0, upper)].color);
+  } else {
+    const from = stops[upper - 1];
+    const to = stops[upper];
+    const t = to.offset > from.offset ? (position - from.offset) / (to.offset - from.offset) : 1;
+    const start = parseColor(from.color);
+    const end = parseColor(to.color);
+    color = start.map((channel, i) => channel + (end[i] - channel) * t) as Rgba;
+  }
+
+  const [r, g, b] = color.slice(0, 3).map(Math.round);
+  const alpha = Math.round(color[3] * opacity * 1000) / 1000;
+
+  return alpha < 1 ? `rgba(${r}, ${g}, ${b}, ${alpha})` : `rgb(${r}, ${g}, ${b})`;
+}
+
+/**
+ * Turns the `barColor` option into a callback. Colormaps are sampled with the bar's
+ * amplitude, its position across a canvas of `canvasWidth`, or a value per bar index.
+ */
+export function resolveBarColor(barColor: BarColor, canvasWidth: number): BarColorCallback {
+  if (typeof barColor === "function") {
+    return barColor;
+  }
+
+  const {
+    colormap,
+    unplayedOpacity = 0.5,
+    value = "amplitude",
+  } = typeof barColor === "string" ? { colormap: barColor } : barColor;
+
+  // Levels are quantized to 256 steps, which keeps the number of color batches small
+  const cache = new Map<string, string>();
+
+  return (bar, index, progressState) => {
+    let level: number;
+    if (value === "amplitude") {
+      level = bar.peakValue;
+    } else if (value === "position") {
+      level = canvasWidth > 0 ? (bar.x + bar.width / 2) / canvasWidth : 0;
+    } else {
+      level = value[index] ?? 0;
+    }
+
+    const quantized = Math.round(Math.max(0, Math.min(1, level)) * 255) / 255;
+    const opacity = progressState === "played" ? 1 : unplayedOpacity;
+    const key = `${quantized}:${opacity}`;
+
+    let color = cache.get(key);
+    if (color === undefined) {
+      color = sampleColormap(colormap, quantized, opacity);
+      cache.set(key, color);
+    }
+    return color;
+  };
+}
+
+function parseColor(color: string): Rgba {
+  const value = color.trim().toLowerCase();
+
+  if (value.startsWith("#")) {
+    const hex = value.slice(1);
+    const digits = hex.length <= 4 ? [...hex].map(digit => digit + digit) : hex.match(/../g);
+
+    if (digits && [3, 4, 6, 8].includes(hex.length) && /^[\da-f]+$/.test(hex)) {
+      const [r, g, b, a = "ff"] = digits;
+      return [parseInt(r, 16), parseInt(g, 16), parseInt(b, 16), parseInt(a, 16) / 255];
+    }
+  }
+
+  const match = value.match(/^rgba?\(([^)]+)\)$/);
+  if (match) {
+    const [r, g, b, a = 1] = match[1]
+      .split(/[\s,/]+/)
+      .filter(Boolean)
+      .map(Number);
+    if ([r, g, b, a].every(Number.isFinite)) {
+      return [r, g, b, a];
+    }
+  }
+
+  throw new Error(`Colormap colors must be hex or rgb() values: ${color}`);
+}
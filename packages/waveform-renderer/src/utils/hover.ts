@@ -0,0 +1,18 @@
+import type { HoverInfo, WaveformOptions } from "../types";
+
+import { formatRulerTime } from "./time-ruler";
+
+const HOVER_TIME_INTERVAL = 0.01; // s, hundredths in the tooltip
+
+/**
+ * Default tooltip text: the time under the pointer in the ruler's format, or the progress
+ * as a percentage without a duration, followed by the peak of the hovered bar
+ */
+export function formatHoverTooltip(info: HoverInfo, options: Required<WaveformOptions>): string {
+  const position =
+    info.time !== null
+      ? formatRulerTime(info.time, options, HOVER_TIME_INTERVAL)
+      : `${(info.progress * 100).toFixed(1)}%`;
+
+  return info.bar ? `${position} · ${info.bar.peakValue.toFixed(2)}` : position;
+}
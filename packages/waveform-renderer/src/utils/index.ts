@@ -1,2 +1,16 @@
 export * from "./canvas";
 export * from "./peaks";
+export * from "./viewport";
+export * from "./peak-worker";
+export * from "./audiowaveform";
+export * from "./wav";
+export * from "./resample";
+export * from "./shapes";
+export * from "./paint";
+export * from "./colormap";
+export * from "./regions";
+export * from "./markers";
+export * from "./time-ruler";
+export * from "./hover";
+export * from "./accessibility";
+export * from "./media";
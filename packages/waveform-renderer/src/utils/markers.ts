@@ -0,0 +1,57 @@
+import type { Marker, MarkerInit, MarkerLabelPlacement } from "../types";
+
+/**
+ * Validates a marker and copies its known fields, so later changes to the
+ * caller's object never reach the renderer
+ */
+export function createMarker(init: MarkerInit, id: string): Marker {
+  const { draggable, label, position, style } = init;
+
+  if (!Number.isFinite(position) || position < 0 || position > 1) {
+    throw new Error("Marker position must be between 0 and 1");
+  }
+
+  return {
+    id,
+    position,
+    ...(label !== undefined && { label }),
+    ...(draggable !== undefined && { draggable }),
+    ...(style !== undefined && { style: { ...style } }),
+  };
+}
+
+/**
+ * Places marker flags in rows so they never overlap. Each flag starts at its marker line,
+ * or ends there when it would run past the right edge, and goes in the first row with
+ * room for it. Flags that fit in none of the `maxRows` rows are elided (`null`).
+ */
+export function layoutMarkerLabels(
+  labels: { width: number; x: number }[],
+  canvasWidth: number,
+  maxRows: number,
+  gap: number = 2,
+): (MarkerLabelPlacement | null)[] {
+  const placements = labels.map(({ width, x }) => ({
+    width,
+    x: Math.max(0, x + width > canvasWidth ? x - width : x),
+  }));
+  const order = placements.map((_, index) => index).sort((a, b) => placements[a].x - placements[b].x);
+  const rowEnds: number[] = [];
+  const result: (MarkerLabelPlacement | null)[] = labels.map(() => null);
+
+  for (const index of order) {
+    const { width, x } = placements[index];
+    let row = rowEnds.findIndex(end => end + gap <= x);
+
+    if (row === -1 && rowEnds.length < maxRows) {
+      row = rowEnds.length;
+    }
+
+    if (row !== -1) {
+      rowEnds[row] = x + width;
+      result[index] = { row, x };
+    }
+  }
+
+  return result;
+}
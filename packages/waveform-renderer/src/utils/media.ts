@@ -0,0 +1,49 @@
+import type { BufferedRange, TimeRangesLike } from "../types";
+
+/**
+ * Copies time ranges in seconds, sorted, with overlapping ranges merged. A media element's
+ * `TimeRanges` change as it loads, so they are read once here.
+ */
+export function readTimeRanges(ranges: TimeRangesLike): [number, number][] {
+  const pairs: [number, number][] = Array.isArray(ranges)
+    ? ranges.map(([start, end]) => [start, end])
+    : Array.from({ length: ranges.length }, (_, i) => [ranges.start(i), ranges.end(i)]);
+
+  if (pairs.some(([start, end]) => Number.isNaN(start) || Number.isNaN(end) || end < start)) {
+    throw new Error("Buffered ranges must be [start, end] pairs in seconds");
+  }
+
+  pairs.sort((a, b) => a[0] - b[0]);
+
+  return pairs.reduce<[number, number][]>((merged, [start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+    return merged;
+  }, []);
+}
+
+/**
+ * Converts time ranges in seconds to absolute positions (0-1), or none without a duration
+ */
+export function toBufferedRanges(ranges: TimeRangesLike, duration: null | number): BufferedRange[] {
+  if (typeof duration !== "number" || !Number.isFinite(duration) || duration <= 0) {
+    return [];
+  }
+
+  const result: BufferedRange[] = [];
+
+  for (const [startTime, endTime] of readTimeRanges(ranges)) {
+    const start = Math.max(0, Math.min(1, startTime / duration));
+    const end = Math.max(0, Math.min(1, endTime / duration));
+
+    if (end > start) {
+      result.push({ end, start });
+    }
+  }
+
+  return result;
+}
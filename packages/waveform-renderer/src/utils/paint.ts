@@ -0,0 +1,57 @@
+import type { GradientStop, Paint, PaintArea, PaintStyle } from "../types";
+
+/**
+ * Gradients sized to each bar cannot be shared by one fill, so their bars are filled one by one
+ */
+export function isBarPaint(paint: Paint): boolean {
+  return typeof paint === "object" && paint.type !== "pattern" && paint.units === "bar";
+}
+
+/**
+ * Turns a paint spec into a value for `fillStyle` or `strokeStyle`, with gradient
+ * coordinates scaled to `area`
+ */
+export function resolvePaint(ctx: CanvasRenderingContext2D, paint: Paint, area: PaintArea): PaintStyle {
+  if (typeof paint === "string") {
+    return paint;
+  }
+
+  if (typeof paint === "function") {
+    return paint(ctx, area);
+  }
+
+  const toX = (fraction: number) => area.x + fraction * area.width;
+  const toY = (fraction: number) => area.y + fraction * area.height;
+
+  switch (paint.type) {
+    case "linearGradient": {
+      const [x0, y0] = paint.from ?? [0, 0];
+      const [x1, y1] = paint.to ?? [0, 1];
+      const gradient = ctx.createLinearGradient(toX(x0), toY(y0), toX(x1), toY(y1));
+      return addColorStops(gradient, paint.stops);
+    }
+    case "radialGradient": {
+      const [cx, cy] = paint.center ?? [0.5, 0.5];
+      const radius = (paint.radius ?? 0.5) * Math.max(area.width, area.height);
+      const gradient = ctx.createRadialGradient(toX(cx), toY(cy), 0, toX(cx), toY(cy), radius);
+      return addColorStops(gradient, paint.stops);
+    }
+    case "pattern":
+      // Images that have not finished loading produce no pattern
+      return ctx.createPattern(paint.source, paint.repetition ?? "repeat") ?? "transparent";
+    default:
+      throw new Error(`Unknown paint type: ${(paint as { type: string }).type}`);
+  }
+}
+
+function addColorStops(gradient: CanvasGradient, stops: GradientStop[]): CanvasGradient {
+  if (!stops?.length) {
+    throw new Error("Gradient paints require at least one color stop");
+  }
+
+  for (const stop of stops) {
+    gradient.addColorStop(Math.max(0, Math.min(1, stop.offset)), stop.color);
+  }
+
+  return gradient;
+}
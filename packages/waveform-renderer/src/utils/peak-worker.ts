@@ -0,0 +1,257 @@
+import { PEAK_EXTRACTION_CHUNK_SIZE } from "../constants/default";
+import type { ChannelPeaks, PeakAggregation, PeakExtractionFormat, PeakExtractionOptions } from "../types";
+import { normalizeChannelPeaks } from "./peaks";
+
+interface RawChannelPeaks {
+  max: Float32Array;
+  min?: Float32Array;
+  rms?: Float32Array;
+}
+
+interface PeakWorkerRequest {
+  aggregation: PeakAggregation;
+  bucketsPerChunk: number;
+  channels: Float32Array[];
+  format: PeakExtractionFormat;
+  numberOfPeaks: number;
+}
+
+type PeakWorkerResponse =
+  | { type: "done"; results: RawChannelPeaks[] }
+  | { type: "error"; message: string }
+  | { type: "progress"; progress: number };
+
+/**
+ * Extracts peaks from raw channel data on a Web Worker, falling back to chunked
+ * extraction on the main thread where workers are unavailable. Channel buffers are
+ * transferred to the worker, which detaches them, unless `transfer` is false.
+ */
+export function extractPeaks(
+  channelData: Float32Array,
+  numberOfPeaks: number,
+  options?: PeakExtractionOptions,
+): Promise<ChannelPeaks>;
+export function extractPeaks(
+  channelData: Float32Array[],
+  numberOfPeaks: number,
+  options?: PeakExtractionOptions,
+): Promise<ChannelPeaks[]>;
+export async function extractPeaks(
+  channelData: Float32Array | Float32Array[],
+  numberOfPeaks: number,
+  options: PeakExtractionOptions = {},
+): Promise<ChannelPeaks | ChannelPeaks[]> {
+  const channels = Array.isArray(channelData) ? channelData : [channelData];
+
+  if (channels.length === 0) {
+    throw new Error("Channel data must not be empty");
+  }
+
+  if (!Number.isInteger(numberOfPeaks) || numberOfPeaks <= 0) {
+    throw new Error("Number of peaks must be a positive integer");
+  }
+
+  options.signal?.throwIfAborted();
+
+  const samplesPerPeak = Math.max(1, Math.floor(channels[0].length / numberOfPeaks));
+  const request: PeakWorkerRequest = {
+    aggregation: options.aggregation ?? "peak",
+    bucketsPerChunk: Math.max(1, Math.floor(PEAK_EXTRACTION_CHUNK_SIZE / (samplesPerPeak * channels.length))),
+    channels,
+    format: options.format ?? "peaks",
+    numberOfPeaks,
+  };
+
+  const useWorker = (options.useWorker ?? true) && typeof Worker !== "undefined";
+  const results = useWorker ? await extractInWorker(request, options) : await extractInline(request, options);
+  const peaks = normalizeChannelPeaks(results.map(result => toChannelPeaks(result)));
+
+  return Array.isArray(channelData) ? peaks : peaks[0];
+}
+
+function extractInWorker(request: PeakWorkerRequest, options: PeakExtractionOptions): Promise<RawChannelPeaks[]> {
+  const { onProgress, signal, transfer = true } = options;
+  let worker: Worker;
+
+  try {
+    worker = createPeakWorker();
+  } catch {
+    // Content security policies may forbid blob workers, extraction still has to succeed
+    return extractInline(request, options);
+  }
+
+  return new Promise((resolve, reject) => {
+    const finish = () => {
+      signal?.removeEventListener("abort", abort);
+      worker.terminate();
+    };
+    const abort = () => {
+      finish();
+      reject(signal!.reason);
+    };
+
+    worker.onmessage = (event: MessageEvent<PeakWorkerResponse>) => {
+      const response = event.data;
+
+      if (response.type === "progress") {
+        onProgress?.(response.progress);
+      } else if (response.type === "done") {
+        finish();
+        resolve(response.results);
+      } else {
+        finish();
+        reject(new Error(response.message));
+      }
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      finish();
+      reject(new Error(event.message || "Peak extraction worker failed"));
+    };
+
+    signal?.addEventListener("abort", abort);
+
+    // Views of one interleaved buffer share it, and a buffer may only be listed once
+    const buffers = transfer ? [...new Set(request.channels.map(channel => channel.buffer))] : [];
+
+    try {
+      worker.postMessage(request, buffers);
+    } catch (e) {
+      // e.g. a DataCloneError for a buffer that is already detached
+      finish();
+      reject(e);
+    }
+  });
+}
+
+/**
+ * Main-thread fallback that yields to the event loop between chunks, so progress
+ * callbacks and abort signals behave the same as with a worker
+ */
+async function extractInline(request: PeakWorkerRequest, options: PeakExtractionOptions): Promise<RawChannelPeaks[]> {
+  const { bucketsPerChunk, channels, format, numberOfPeaks } = request;
+  const results = channels.map(() => createRawChannelPeaks(format, numberOfPeaks));
+
+  for (let from = 0; from < numberOfPeaks; from += bucketsPerChunk) {
+    const to = Math.min(numberOfPeaks, from + bucketsPerChunk);
+
+    computePeakBuckets(request, results, from, to);
+    options.onProgress?.(to / numberOfPeaks);
+
+    if (to < numberOfPeaks) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      options.signal?.throwIfAborted();
+    }
+  }
+
+  return results;
+}
+
+function createPeakWorker(): Worker {
+  // Both functions are self-contained so their source can be shipped to the worker as is
+  const source = `(${runPeakWorker.toString()})(${computePeakBuckets.toString()});`;
+  const url = URL.createObjectURL(new Blob([source], { type: "text/javascript" }));
+
+  try {
+    return new Worker(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function createRawChannelPeaks(format: PeakExtractionFormat, numberOfPeaks: number): RawChannelPeaks {
+  if (format === "peaks") {
+    return { max: new Float32Array(numberOfPeaks) };
+  }
+
+  return {
+    max: new Float32Array(numberOfPeaks),
+    min: new Float32Array(numberOfPeaks),
+    rms: format === "peakRms" ? new Float32Array(numberOfPeaks) : undefined,
+  };
+}
+
+function toChannelPeaks(raw: RawChannelPeaks): ChannelPeaks {
+  if (!raw.min) {
+    return Array.from(raw.max);
+  }
+
+  const peaks = { max: Array.from(raw.max), min: Array.from(raw.min) };
+  return raw.rms ? { ...peaks, rms: Array.from(raw.rms) } : peaks;
+}
+
+/**
+ * Worker entry point. Must not reference anything outside its own body.
+ */
+function runPeakWorker(compute: typeof computePeakBuckets): void {
+  self.onmessage = (event: MessageEvent<PeakWorkerRequest>) => {
+    try {
+      const { bucketsPerChunk, channels, format, numberOfPeaks } = event.data;
+      const results = channels.map(() => {
+        const max = new Float32Array(numberOfPeaks);
+        if (format === "peaks") return { max };
+
+        const min = new Float32Array(numberOfPeaks);
+        return format === "peakRms" ? { max, min, rms: new Float32Array(numberOfPeaks) } : { max, min };
+      });
+
+      for (let from = 0; from < numberOfPeaks; from += bucketsPerChunk) {
+        const to = Math.min(numberOfPeaks, from + bucketsPerChunk);
+        compute(event.data, results, from, to);
+        self.postMessage({ type: "progress", progress: to / numberOfPeaks });
+      }
+
+      const transfer = results.flatMap(result =>
+        [result.max, result.min, result.rms].filter(array => array !== undefined).map(array => array.buffer),
+      );
+      self.postMessage({ type: "done", results }, { transfer });
+    } catch (error) {
+      self.postMessage({ type: "error", message: error instanceof Error ? error.message : String(error) });
+    }
+  };
+}
+
+/**
+ * Fills buckets `[from, to)` of every channel. Must not reference anything outside its own body.
+ */
+function computePeakBuckets(request: PeakWorkerRequest, results: RawChannelPeaks[], from: number, to: number): void {
+  const { aggregation, channels, numberOfPeaks } = request;
+
+  for (let channel = 0; channel < channels.length; channel++) {
+    const channelData = channels[channel];
+    const result = results[channel];
+    const samplesPerPeak = Math.floor(channelData.length / numberOfPeaks);
+
+    for (let i = from; i < to; i++) {
+      const start = i * samplesPerPeak;
+      const end = start + samplesPerPeak;
+      // Seeded from the bucket, like the synchronous helpers, so DC offsets are kept
+      let low = end > start ? channelData[start] : 0;
+      let high = low;
+      let sum = 0;
+      let sumOfSquares = 0;
+
+      for (let j = start; j < end; j++) {
+        const sample = channelData[j];
+        if (sample < low) low = sample;
+        if (sample > high) high = sample;
+        sum += Math.abs(sample);
+        sumOfSquares += sample * sample;
+      }
+
+      const rms = samplesPerPeak > 0 ? Math.sqrt(sumOfSquares / samplesPerPeak) : 0;
+
+      if (result.min) {
+        result.min[i] = low;
+        result.max[i] = high;
+        if (result.rms) result.rms[i] = rms;
+      } else if (aggregation === "rms") {
+        result.max[i] = rms;
+      } else if (aggregation === "meanAbsolute") {
+        result.max[i] = samplesPerPeak > 0 ? sum / samplesPerPeak : 0;
+      } else {
+        result.max[i] = Math.max(high, -low);
+      }
+    }
+  }
+}
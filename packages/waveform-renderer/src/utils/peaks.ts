@@ -1,8 +1,80 @@
+import type { ChannelPeaks, MinMaxPeaks, Normalization, PeakAggregation, WaveformPeaks } from "@/types";
+
+/**
+ * Calculates peaks from an AudioBuffer, aggregating each bucket with the given mode
+ */
+export function getPeaksFromAudioBuffer(
+  audioBuffer: AudioBuffer,
+  numberOfPeaks: number,
+  aggregation: PeakAggregation = "peak",
+): number[] {
+  return normalizePeaks(aggregateBuckets(audioBuffer.getChannelData(0), numberOfPeaks, aggregation));
+}
+
+/**
+ * Calculates peaks for every channel of an AudioBuffer, normalized on a shared scale
+ * so that level differences between channels stay visible
+ */
+export function getChannelPeaksFromAudioBuffer(
+  audioBuffer: AudioBuffer,
+  numberOfPeaks: number,
+  aggregation: PeakAggregation = "peak",
+): number[][] {
+  const channels: number[][] = [];
+
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    channels.push(aggregateBuckets(audioBuffer.getChannelData(channel), numberOfPeaks, aggregation));
+  }
+
+  return normalizeChannelPeaks(channels) as number[][];
+}
+
+/**
+ * Calculates mid (L+R) and side (L-R) peaks from a stereo AudioBuffer.
+ * Mono buffers produce a silent side channel.
+ */
+export function getMidSidePeaksFromAudioBuffer(
+  audioBuffer: AudioBuffer,
+  numberOfPeaks: number,
+  aggregation: PeakAggregation = "peak",
+): { mid: number[]; side: number[] } {
+  const left = audioBuffer.getChannelData(0);
+  const right = audioBuffer.numberOfChannels > 1 ? audioBuffer.getChannelData(1) : left;
+  const mid = new Float32Array(left.length);
+  const side = new Float32Array(left.length);
+
+  for (let i = 0; i < left.length; i++) {
+    mid[i] = (left[i] + right[i]) / 2;
+    side[i] = (left[i] - right[i]) / 2;
+  }
+
+  const [midPeaks, sidePeaks] = normalizeChannelPeaks([
+    aggregateBuckets(mid, numberOfPeaks, aggregation),
+    aggregateBuckets(side, numberOfPeaks, aggregation),
+  ]) as number[][];
+
+  return { mid: midPeaks, side: sidePeaks };
+}
+
 /**
- * Calculates peaks from an AudioBuffer
+ * Calculates signed min/max peak pairs from an AudioBuffer
  */
-export function getPeaksFromAudioBuffer(audioBuffer: AudioBuffer, numberOfPeaks: number): number[] {
-  const channelData = audioBuffer.getChannelData(0);
+export function getMinMaxPeaksFromAudioBuffer(audioBuffer: AudioBuffer, numberOfPeaks: number): MinMaxPeaks {
+  return normalizeMinMaxPeaks(calculateMinMaxPeaks(audioBuffer.getChannelData(0), numberOfPeaks, false));
+}
+
+/**
+ * Calculates signed min/max peak pairs together with the RMS level of each bucket,
+ * all normalized on the same scale so the RMS body fits inside the peak outline
+ */
+export function getPeakRmsFromAudioBuffer(audioBuffer: AudioBuffer, numberOfPeaks: number): MinMaxPeaks {
+  return normalizeMinMaxPeaks(calculateMinMaxPeaks(audioBuffer.getChannelData(0), numberOfPeaks, true));
+}
+
+/**
+ * Reduces each bucket of samples to a single non-negative value
+ */
+function aggregateBuckets(channelData: Float32Array, numberOfPeaks: number, aggregation: PeakAggregation): number[] {
   const peaks: number[] = Array.from({ length: numberOfPeaks });
   const samplesPerPeak = Math.floor(channelData.length / numberOfPeaks);
 
@@ -10,34 +82,226 @@ export function getPeaksFromAudioBuffer(audioBuffer: AudioBuffer, numberOfPeaks:
     const start = i * samplesPerPeak;
     const end = start + samplesPerPeak;
     let max = 0;
+    let sum = 0;
 
     for (let j = start; j < end; j++) {
-      const absolute = Math.abs(channelData[j]);
+      const sample = channelData[j];
+      const absolute = Math.abs(sample);
       if (absolute > max) max = absolute;
+      sum += aggregation === "rms" ? sample * sample : absolute;
+    }
+
+    switch (aggregation) {
+      case "rms":
+        peaks[i] = samplesPerPeak > 0 ? Math.sqrt(sum / samplesPerPeak) : 0;
+        break;
+      case "meanAbsolute":
+        peaks[i] = samplesPerPeak > 0 ? sum / samplesPerPeak : 0;
+        break;
+      case "peak":
+      default:
+        peaks[i] = max;
     }
+  }
+
+  return peaks;
+}
+
+function calculateMinMaxPeaks(channelData: Float32Array, numberOfPeaks: number, withRms: boolean): MinMaxPeaks {
+  const min: number[] = Array.from({ length: numberOfPeaks });
+  const max: number[] = Array.from({ length: numberOfPeaks });
+  const rms: number[] = withRms ? Array.from({ length: numberOfPeaks }) : [];
+  const samplesPerPeak = Math.floor(channelData.length / numberOfPeaks);
+
+  for (let i = 0; i < numberOfPeaks; i++) {
+    const start = i * samplesPerPeak;
+    const end = start + samplesPerPeak;
+    // Seeded from the bucket itself, so a DC offset is not pulled back to the centerline
+    let low = end > start ? channelData[start] : 0;
+    let high = low;
+    let sumOfSquares = 0;
+
+    for (let j = start; j < end; j++) {
+      const sample = channelData[j];
+      if (sample < low) low = sample;
+      if (sample > high) high = sample;
+      sumOfSquares += sample * sample;
+    }
+
+    min[i] = low;
+    max[i] = high;
+    if (withRms) {
+      rms[i] = samplesPerPeak > 0 ? Math.sqrt(sumOfSquares / samplesPerPeak) : 0;
+    }
+  }
+
+  return withRms ? { max, min, rms } : { max, min };
+}
+
+/**
+ * Splits interleaved `[min0, max0, min1, max1, ...]` values into min/max peak arrays
+ */
+export function splitInterleavedPeaks(interleaved: ArrayLike<number>): MinMaxPeaks {
+  const length = Math.floor(interleaved.length / 2);
+  const min: number[] = Array.from({ length });
+  const max: number[] = Array.from({ length });
 
-    peaks[i] = max;
+  for (let i = 0; i < length; i++) {
+    min[i] = interleaved[i * 2];
+    max[i] = interleaved[i * 2 + 1];
   }
 
-  return normalizePeaks(peaks);
+  return { max, min };
+}
+
+/**
+ * Checks whether the given peaks are signed min/max pairs
+ */
+export function isMinMaxPeaks(peaks: WaveformPeaks): peaks is MinMaxPeaks {
+  return !Array.isArray(peaks) && typeof peaks === "object" && peaks !== null;
+}
+
+/**
+ * Checks whether the given peaks hold one entry per channel
+ */
+export function isMultiChannelPeaks(peaks: WaveformPeaks): peaks is ChannelPeaks[] {
+  return Array.isArray(peaks) && peaks.length > 0 && typeof peaks[0] === "object" && peaks[0] !== null;
+}
+
+/**
+ * Returns the peaks as a list of channels, wrapping single-channel data
+ */
+export function getPeakChannels(peaks: WaveformPeaks): ChannelPeaks[] {
+  return isMultiChannelPeaks(peaks) ? peaks : [peaks as ChannelPeaks];
+}
+
+/**
+ * Returns the number of peak buckets in any peak representation
+ */
+export function getPeakCount(peaks: WaveformPeaks): number {
+  const channel = getPeakChannels(peaks)[0];
+  return isMinMaxPeaks(channel) ? channel.max.length : channel.length;
+}
+
+/**
+ * Returns the value drawn at full height for the given normalization strategy.
+ * `none` and `fixed` use a constant ceiling, `peak` the loudest value and
+ * `percentile` the given percentile of all absolute values, so rare outliers
+ * don't flatten the rest of the waveform.
+ */
+export function getNormalizationDivisor(peaks: WaveformPeaks, normalization: Normalization = "peak"): number {
+  const options = typeof normalization === "string" ? { type: normalization } : normalization;
+
+  switch (options.type) {
+    case "none":
+      return 1;
+    case "fixed": {
+      const ceiling = options.ceiling ?? 1;
+      if (!Number.isFinite(ceiling) || ceiling <= 0) {
+        throw new Error("Normalization ceiling must be a positive number");
+      }
+      return ceiling;
+    }
+    case "percentile": {
+      const percentile = options.percentile ?? 99;
+      if (!Number.isFinite(percentile) || percentile <= 0 || percentile > 100) {
+        throw new Error("Normalization percentile must be between 0 and 100");
+      }
+
+      const values = getAbsolutePeakValues(peaks).sort((a, b) => a - b);
+      const index = Math.max(0, Math.ceil((percentile / 100) * values.length) - 1);
+      return values[index] || getMaxPeak(peaks) || 1;
+    }
+    case "peak":
+    default:
+      return getMaxPeak(peaks) || 1;
+  }
+}
+
+/**
+ * Returns a copy of the peaks scaled by the normalization strategy. Values beyond
+ * the full-height level (outliers in `percentile` mode, anything above the ceiling
+ * in `fixed` mode) are clamped to a range of -1 to 1.
+ */
+export function normalizeWaveformPeaks(
+  peaks: WaveformPeaks,
+  normalization: Normalization = "peak",
+  divisor = getNormalizationDivisor(peaks, normalization),
+): WaveformPeaks {
+  const channels = getPeakChannels(peaks).map(channel => scaleChannelPeaks(channel, divisor, true));
+  return isMultiChannelPeaks(peaks) ? channels : channels[0];
+}
+
+/**
+ * Normalizes min/max peak pairs (and their RMS levels) to a range of -1 to 1 using a shared scale.
+ * Peaks already within range are left as they are.
+ */
+export function normalizeMinMaxPeaks(peaks: MinMaxPeaks): MinMaxPeaks {
+  return scaleChannelPeaks(peaks, Math.max(1, getMaxPeak(peaks)), false) as MinMaxPeaks;
+}
+
+/**
+ * Normalizes several channels to a range of -1 to 1 using a scale shared by all of them
+ */
+export function normalizeChannelPeaks(channels: ChannelPeaks[]): ChannelPeaks[] {
+  const maxPeak = Math.max(1, getMaxPeak(channels));
+  return channels.map(channel => scaleChannelPeaks(channel, maxPeak, false));
 }
 
 /**
  * Normalizes an array of peak values to a range of -1 to 1
  */
 export function normalizePeaks(peaks: number[]): number[] {
-  let maxPeak = 1;
+  return scaleChannelPeaks(peaks, Math.max(1, getMaxPeak(peaks)), false) as number[];
+}
 
-  for (let i = 0; i < peaks.length; i++) {
-    const peak = Math.abs(peaks[i]);
-    if (peak > maxPeak) maxPeak = peak;
+function getMaxPeak(peaks: WaveformPeaks): number {
+  let maxPeak = 0;
+
+  for (const channel of getPeakChannels(peaks)) {
+    for (const values of isMinMaxPeaks(channel) ? [channel.min, channel.max] : [channel]) {
+      for (let i = 0; i < values.length; i++) {
+        const peak = Math.abs(values[i]);
+        if (peak > maxPeak) maxPeak = peak;
+      }
+    }
+  }
+
+  return maxPeak;
+}
+
+function getAbsolutePeakValues(peaks: WaveformPeaks): number[] {
+  const result: number[] = [];
+
+  for (const channel of getPeakChannels(peaks)) {
+    if (isMinMaxPeaks(channel)) {
+      // Each bucket counts once, by its larger side
+      for (let i = 0; i < channel.max.length; i++) {
+        result.push(Math.max(Math.abs(channel.min[i]), Math.abs(channel.max[i])));
+      }
+    } else {
+      for (let i = 0; i < channel.length; i++) {
+        result.push(Math.abs(channel[i]));
+      }
+    }
   }
 
-  for (let i = 0; i < peaks.length; i++) {
-    peaks[i] = peaks[i] / maxPeak;
+  return result;
+}
+
+function scaleChannelPeaks(channel: ChannelPeaks, divisor: number, clamp: boolean): ChannelPeaks {
+  const scale = (value: number) => {
+    const scaled = value / divisor;
+    return clamp ? Math.max(-1, Math.min(1, scaled)) : scaled;
+  };
+
+  if (!isMinMaxPeaks(channel)) {
+    return channel.map(scale);
   }
 
-  return peaks;
+  return channel.rms
+    ? { max: channel.max.map(scale), min: channel.min.map(scale), rms: channel.rms.map(scale) }
+    : { max: channel.max.map(scale), min: channel.min.map(scale) };
 }
 
 /**
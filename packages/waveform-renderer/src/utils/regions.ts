@@ -0,0 +1,57 @@
+import type { Region, RegionInit } from "../types";
+
+/**
+ * Validates a region and copies its known fields, so later changes to the
+ * caller's object never reach the renderer
+ */
+export function createRegion(init: RegionInit, id: string): Region {
+  const { color, draggable, end, label, resizable, start } = init;
+
+  if (!Number.isFinite(start) || !Number.isFinite(end) || start < 0 || end > 1) {
+    throw new Error("Region start and end must be between 0 and 1");
+  }
+
+  if (end < start) {
+    throw new Error("Region end must not be before its start");
+  }
+
+  return {
+    id,
+    start,
+    end,
+    ...(color !== undefined && { color }),
+    ...(label !== undefined && { label }),
+    ...(draggable !== undefined && { draggable }),
+    ...(resizable !== undefined && { resizable }),
+  };
+}
+
+export function serializeRegions(regions: Region[]): string {
+  return JSON.stringify(regions.map(region => createRegion(region, region.id)));
+}
+
+/**
+ * Reads regions written by `serializeRegions`. Ids are optional, so hand-written
+ * lists of ranges can be loaded too.
+ */
+export function parseRegions(json: string | unknown[]): RegionInit[] {
+  const data: unknown = typeof json === "string" ? JSON.parse(json) : json;
+
+  if (!Array.isArray(data)) {
+    throw new Error("Regions JSON must be an array");
+  }
+
+  return data.map(item => {
+    if (typeof item !== "object" || item === null) {
+      throw new Error("Each region must be an object");
+    }
+
+    const { id, ...init } = item as RegionInit;
+    if (id !== undefined && typeof id !== "string") {
+      throw new Error("Region ids must be strings");
+    }
+
+    const { id: _id, ...region } = createRegion(init, "");
+    return id === undefined ? region : { id, ...region };
+  });
+}
@@ -0,0 +1,163 @@
+import type { ChannelPeaks, DownsamplingMethod, Resampling, UpsamplingMethod } from "../types";
+import { isMinMaxPeaks } from "./peaks";
+
+/**
+ * Maps peaks to `count` bars, where bar `i` covers the peaks from `start + i * step`
+ * up to the next bar. Bars covering several peaks are aggregated with the downsampling
+ * method, bars between two peaks are interpolated with the upsampling method.
+ * RMS levels are always combined as a root mean square, so they keep their meaning.
+ */
+export function resampleChannelPeaks(
+  peaks: ChannelPeaks,
+  start: number,
+  step: number,
+  count: number,
+  resampling: Resampling = {},
+): ChannelPeaks {
+  const downsample = resampling.downsample ?? "max";
+  const upsample = resampling.upsample ?? "linear";
+
+  if (!isMinMaxPeaks(peaks)) {
+    return resampleValues(peaks, start, step, count, downsample, upsample, "absolute");
+  }
+
+  const min = resampleValues(peaks.min, start, step, count, downsample, upsample, "min");
+  const max = resampleValues(peaks.max, start, step, count, downsample, upsample, "max");
+
+  return peaks.rms
+    ? { max, min, rms: resampleValues(peaks.rms, start, step, count, "rms", upsample, "absolute") }
+    : { max, min };
+}
+
+/**
+ * `min` series aggregate towards negative values, `max` and `absolute` series towards positive ones
+ */
+type SeriesKind = "absolute" | "max" | "min";
+
+function resampleValues(
+  values: number[],
+  start: number,
+  step: number,
+  count: number,
+  downsample: DownsamplingMethod,
+  upsample: UpsamplingMethod,
+  kind: SeriesKind,
+): number[] {
+  const result: number[] = Array.from({ length: count });
+  let previous = values[Math.floor(start) - 1] ?? 0;
+
+  for (let i = 0; i < count; i++) {
+    const position = start + i * step;
+    const from = Math.floor(position);
+    const to = Math.max(from + 1, Math.min(values.length, Math.floor(position + step)));
+
+    if (step > 1 && downsample !== "none") {
+      result[i] =
+        downsample === "lttb"
+          ? selectLargestTriangle(values, from, to, i, previous, start + (i + 1) * step, step)
+          : aggregate(values, from, to, downsample, kind);
+    } else if (step < 1 && upsample !== "none") {
+      result[i] = interpolate(values, position, upsample);
+    } else {
+      result[i] = values[from] || 0;
+    }
+
+    previous = result[i];
+  }
+
+  return result;
+}
+
+function aggregate(values: number[], from: number, to: number, method: DownsamplingMethod, kind: SeriesKind): number {
+  let extreme = values[from] || 0;
+  let sum = 0;
+  let sumOfSquares = 0;
+  let length = 0;
+
+  for (let i = from; i < to; i++) {
+    const value = values[i] || 0;
+    if (kind === "min" ? value < extreme : kind === "max" ? value > extreme : Math.abs(value) > Math.abs(extreme)) {
+      extreme = value;
+    }
+    sum += value;
+    sumOfSquares += value * value;
+    length++;
+  }
+
+  if (length === 0) {
+    return 0;
+  }
+
+  switch (method) {
+    case "average":
+      return sum / length;
+    case "rms":
+      return (kind === "min" ? -1 : 1) * Math.sqrt(sumOfSquares / length);
+    case "max":
+    default:
+      return kind === "absolute" ? Math.abs(extreme) : extreme;
+  }
+}
+
+/**
+ * Largest-triangle-three-buckets: picks the peak in the bucket that forms the largest
+ * triangle with the previously selected point and the average of the next bucket, which
+ * keeps the visual shape of the waveform with real values instead of aggregates.
+ */
+function selectLargestTriangle(
+  values: number[],
+  from: number,
+  to: number,
+  bar: number,
+  previous: number,
+  nextStart: number,
+  step: number,
+): number {
+  const nextFrom = Math.floor(nextStart);
+  const nextTo = Math.min(values.length, Math.floor(nextStart + step));
+  let nextAverage = 0;
+
+  for (let i = nextFrom; i < nextTo; i++) {
+    nextAverage += values[i] || 0;
+  }
+  nextAverage = nextTo > nextFrom ? nextAverage / (nextTo - nextFrom) : values[to - 1] || 0;
+
+  // Bars are one unit wide; the neighbours are placed at the centers of their bars
+  const previousX = bar - 0.5;
+  const nextX = bar + 1.5;
+  let selected = values[from] || 0;
+  let largestArea = -1;
+
+  for (let i = from; i < to; i++) {
+    const x = bar + (i - from + 0.5) / (to - from);
+    const value = values[i] || 0;
+    const area = Math.abs((previousX - nextX) * (value - previous) - (previousX - x) * (nextAverage - previous));
+
+    if (area > largestArea) {
+      largestArea = area;
+      selected = value;
+    }
+  }
+
+  return selected;
+}
+
+function interpolate(values: number[], position: number, method: UpsamplingMethod): number {
+  const last = values.length - 1;
+  const index = Math.max(0, Math.min(last, Math.floor(position)));
+  const t = position - index;
+  const p1 = values[index] || 0;
+  const p2 = values[Math.min(last, index + 1)] || 0;
+
+  if (method === "linear") {
+    return p1 + (p2 - p1) * t;
+  }
+
+  // Catmull-Rom spline, limited to the neighbouring values so bars never overshoot
+  const p0 = values[Math.max(0, index - 1)] || 0;
+  const p3 = values[Math.min(last, index + 2)] || 0;
+  const value =
+    0.5 * (2 * p1 + (p2 - p0) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t * t + (3 * p1 - p0 - 3 * p2 + p3) * t * t * t);
+
+  return Math.max(Math.min(p0, p1, p2, p3), Math.min(Math.max(p0, p1, p2, p3), value));
+}
@@ -0,0 +1,175 @@
+import type { CachedBarData, ChannelLane, WaveformStyle, WaveformStyleOptions } from "../types";
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export function resolveWaveformStyle(style: WaveformStyle = "bars"): WaveformStyleOptions {
+  return typeof style === "string" ? { type: style } : style;
+}
+
+/**
+ * Line styles are stroked; every other style is filled
+ */
+export function isStrokedStyle(style?: WaveformStyle): boolean {
+  return resolveWaveformStyle(style).type === "line";
+}
+
+/**
+ * Adds the shape of the given bars to a path or canvas context. Connected styles are
+ * traced lane by lane through the bar centers, so two channels are never joined.
+ * Without lanes, the bars of each channel are treated as one centered lane.
+ */
+export function traceWaveformShape(
+  path: CanvasPath,
+  bars: CachedBarData[],
+  lanes: ChannelLane[] = [],
+  style: WaveformStyle = "bars",
+  borderRadius = 0,
+): void {
+  const options = resolveWaveformStyle(style);
+
+  if (options.type === "bars") {
+    for (const bar of bars) {
+      traceBar(path, bar, borderRadius);
+    }
+    return;
+  }
+
+  for (const [channel, channelBars] of groupByChannel(bars)) {
+    traceLane(path, channelBars, lanes[channel] ?? getBarsLane(channelBars), options);
+  }
+}
+
+export function traceBar(path: CanvasPath, bar: CachedBarData, borderRadius: number): void {
+  if (borderRadius > 0 && typeof path.roundRect === "function") {
+    path.roundRect(bar.x, bar.y, bar.width, bar.height, borderRadius);
+  } else {
+    path.rect(bar.x, bar.y, bar.width, bar.height);
+  }
+}
+
+function getBarsLane(bars: CachedBarData[]): ChannelLane {
+  const top = Math.min(...bars.map(bar => bar.y));
+  const bottom = Math.max(...bars.map(bar => bar.y + bar.height));
+  return { top, height: bottom - top, position: "center" };
+}
+
+function groupByChannel(bars: CachedBarData[]): Map<number, CachedBarData[]> {
+  const channels = new Map<number, CachedBarData[]>();
+
+  for (const bar of bars) {
+    const channel = bar.channel ?? 0;
+    const channelBars = channels.get(channel);
+    if (channelBars) {
+      channelBars.push(bar);
+    } else {
+      channels.set(channel, [bar]);
+    }
+  }
+
+  return channels;
+}
+
+function traceLane(path: CanvasPath, bars: CachedBarData[], lane: ChannelLane, options: WaveformStyleOptions): void {
+  const smooth = options.smooth ?? false;
+  const bounds = { top: lane.top, bottom: lane.top + lane.height };
+  const centers = bars.map(bar => bar.x + bar.width / 2);
+
+  if (options.type === "mirroredArea") {
+    const middle = lane.top + lane.height / 2;
+    const upper = bars.map((bar, i) => ({ x: centers[i], y: middle - bar.height / 2 }));
+    const lower = bars.map((bar, i) => ({ x: centers[i], y: middle + bar.height / 2 }));
+    traceArea(path, upper, lower, smooth, bounds);
+    return;
+  }
+
+  const upper = bars.map((bar, i) => ({ x: centers[i], y: bar.y }));
+  const lower = bars.map((bar, i) => ({ x: centers[i], y: bar.y + bar.height }));
+
+  if (options.type === "area") {
+    traceArea(path, upper, lower, smooth, bounds);
+    return;
+  }
+
+  // Bars grow away from the lane's baseline, so only their outer edges carry the signal
+  const edges = [...(lane.position !== "top" ? [upper] : []), ...(lane.position !== "bottom" ? [lower] : [])];
+
+  for (const points of edges) {
+    if (options.type === "dots") {
+      const radius = options.radius ?? (bars[0]?.width ?? 0) / 2;
+      for (const point of points) {
+        path.moveTo(point.x + radius, point.y);
+        path.arc(point.x, point.y, radius, 0, Math.PI * 2);
+      }
+    } else {
+      traceCurve(path, points, smooth, bounds, true);
+    }
+  }
+}
+
+/**
+ * Traces a closed envelope: along the upper edge and back along the lower one
+ */
+function traceArea(
+  path: CanvasPath,
+  upper: Point[],
+  lower: Point[],
+  smooth: boolean,
+  bounds: { bottom: number; top: number },
+): void {
+  if (upper.length === 0) {
+    return;
+  }
+
+  traceCurve(path, upper, smooth, bounds, true);
+  traceCurve(path, [...lower].reverse(), smooth, bounds, false);
+  path.closePath();
+}
+
+/**
+ * Connects the points with straight lines or a Catmull-Rom spline. Control points are
+ * kept inside the lane so curves never spill into a neighbouring channel.
+ */
+function traceCurve(
+  path: CanvasPath,
+  points: Point[],
+  smooth: boolean,
+  bounds: { bottom: number; top: number },
+  moveToStart: boolean,
+): void {
+  if (points.length === 0) {
+    return;
+  }
+
+  const clampY = (y: number) => Math.max(bounds.top, Math.min(bounds.bottom, y));
+
+  if (moveToStart) {
+    path.moveTo(points[0].x, points[0].y);
+  } else {
+    path.lineTo(points[0].x, points[0].y);
+  }
+
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+
+    if (!smooth) {
+      path.lineTo(to.x, to.y);
+      continue;
+    }
+
+    const previous = points[i - 2] ?? from;
+    const next = points[i + 1] ?? to;
+
+    path.bezierCurveTo(
+      from.x + (to.x - previous.x) / 6,
+      clampY(from.y + (to.y - previous.y) / 6),
+      to.x - (next.x - from.x) / 6,
+      clampY(to.y - (next.y - from.y) / 6),
+      to.x,
+      to.y,
+    );
+  }
+}
@@ -0,0 +1,163 @@
+import type { TimeFormat, TimeFormatContext, TimeRulerOptions, TimeTickIntervals, WaveformOptions } from "../types";
+
+import { DEFAULT_TIME_RULER_OPTIONS } from "../constants/default";
+
+const SECOND_INTERVALS = [
+  0.001, 0.002, 0.005, 0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800, 3600, 7200,
+  21600, 43200, 86400,
+];
+const FRAME_COUNTS = [1, 2, 5, 10];
+const BAR_COUNTS = [1, 2, 4, 8, 16, 32, 64, 128, 256, 512, 1024];
+const MIN_MINOR_TICK_SPACING = 6; // px
+const MAX_MINOR_TICKS = 10;
+
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+/**
+ * Whether a time ruler is drawn, which needs both ruler options and a known duration
+ */
+export function hasTimeRuler(options: Required<WaveformOptions>): boolean {
+  return !!options.timeRuler && typeof options.duration === "number" && options.duration > 0;
+}
+
+/**
+ * Part of the canvas left for the waveform once the ruler's height is reserved
+ */
+export function getWaveformArea(
+  canvasHeight: number,
+  options: Required<WaveformOptions>,
+): { height: number; top: number } {
+  if (!hasTimeRuler(options)) {
+    return { height: canvasHeight, top: 0 };
+  }
+
+  const { height = 0, position } = options.timeRuler!;
+  const reserved = Math.min(canvasHeight, Math.max(0, height));
+
+  return { height: canvasHeight - reserved, top: position === "bottom" ? 0 : reserved };
+}
+
+/**
+ * Picks the spacing of labelled ticks so they are at least `minTickSpacing` pixels apart,
+ * from intervals that suit the format: seconds, video frames, or beats and bars. Minor
+ * ticks divide a major interval evenly and are left out when they would be too dense.
+ */
+export function getTickIntervals(pixelsPerSecond: number, options: Required<TimeRulerOptions>): TimeTickIntervals {
+  const candidates = getIntervalCandidates(options);
+  const major =
+    candidates.find(interval => interval * pixelsPerSecond >= options.minTickSpacing) ??
+    candidates[candidates.length - 1];
+
+  const minor = candidates.find(interval => {
+    const ratio = major / interval;
+    return (
+      interval < major &&
+      ratio <= MAX_MINOR_TICKS &&
+      Math.abs(ratio - Math.round(ratio)) < 1e-6 &&
+      interval * pixelsPerSecond >= MIN_MINOR_TICK_SPACING
+    );
+  });
+
+  return { major, minor: minor ?? null };
+}
+
+/**
+ * Formats a time in seconds with one of the built-in formats. Digits follow the locale
+ * through `Intl.NumberFormat`. SMPTE timecodes count non-drop frames at the rounded frame
+ * rate; beats are shown as `bar.beat`, or just the bar when ticks are whole bars apart.
+ */
+export function formatTime(seconds: number, format: TimeFormat, context: TimeFormatContext): string {
+  const { beatsPerBar, bpm, fps, interval, locale } = context;
+  const time = Math.max(0, seconds);
+
+  switch (format) {
+    case "beats": {
+      const beatLength = 60 / bpm;
+      const beat = Math.floor(Math.round((time / beatLength) * 1000) / 1000);
+      const bar = formatNumber(Math.floor(beat / beatsPerBar) + 1, locale);
+
+      return interval >= beatLength * beatsPerBar ? bar : `${bar}.${formatNumber((beat % beatsPerBar) + 1, locale)}`;
+    }
+    case "hh:mm:ss.ms": {
+      const total = Math.round(time * 1000) / 1000;
+      const hours = Math.floor(total / 3600);
+      const minutes = Math.floor((total % 3600) / 60);
+
+      return [
+        formatNumber(hours, locale, 2),
+        formatNumber(minutes, locale, 2),
+        formatNumber(total - hours * 3600 - minutes * 60, locale, 2, 3),
+      ].join(":");
+    }
+    case "smpte": {
+      const rate = Math.max(1, Math.round(fps));
+      const frames = Math.round(time * rate);
+      const totalSeconds = Math.floor(frames / rate);
+
+      return [Math.floor(totalSeconds / 3600), Math.floor((totalSeconds % 3600) / 60), totalSeconds % 60, frames % rate]
+        .map(part => formatNumber(part, locale, 2))
+        .join(":");
+    }
+    case "mm:ss":
+    default: {
+      // Sub-second ticks get as many decimals as their spacing needs
+      const decimals = interval < 1 ? Math.min(3, Math.ceil(-Math.log10(interval) - 1e-9)) : 0;
+      const factor = 10 ** decimals;
+      const total = Math.round(time * factor) / factor;
+      const minutes = Math.floor(total / 60);
+
+      return `${formatNumber(minutes, locale)}:${formatNumber(total - minutes * 60, locale, 2, decimals)}`;
+    }
+  }
+}
+
+/**
+ * Formats a time the way the ruler labels it, with the ruler's format and locale, or the
+ * defaults when there is no ruler. `interval` sets the precision of sub-second formats.
+ */
+export function formatRulerTime(seconds: number, options: Required<WaveformOptions>, interval: number): string {
+  const { beatsPerBar, bpm, format, fps, locale } = { ...DEFAULT_TIME_RULER_OPTIONS, ...options.timeRuler };
+  const context: TimeFormatContext = { beatsPerBar, bpm, fps, interval, locale };
+
+  return typeof format === "function" ? format(seconds, context) : formatTime(seconds, format, context);
+}
+
+function getIntervalCandidates(options: Required<TimeRulerOptions>): number[] {
+  if (options.format === "beats") {
+    const beatLength = 60 / options.bpm;
+    const beats = [1, 2].filter(count => count < options.beatsPerBar && options.beatsPerBar % count === 0);
+
+    return [...beats, ...BAR_COUNTS.map(count => count * options.beatsPerBar)].map(count => count * beatLength);
+  }
+
+  if (options.format === "smpte") {
+    const rate = Math.max(1, Math.round(options.fps));
+    const frames = FRAME_COUNTS.filter(count => count < rate).map(count => count / rate);
+
+    return [...frames, ...SECOND_INTERVALS.filter(interval => interval >= 1)];
+  }
+
+  return SECOND_INTERVALS;
+}
+
+function formatNumber(
+  value: number,
+  locale: string | string[],
+  minimumIntegerDigits: number = 1,
+  fractionDigits: number = 0,
+): string {
+  const key = `${String(locale)}|${minimumIntegerDigits}|${fractionDigits}`;
+  let format = numberFormats.get(key);
+
+  if (!format) {
+    format = new Intl.NumberFormat(locale, {
+      maximumFractionDigits: fractionDigits,
+      minimumFractionDigits: fractionDigits,
+      minimumIntegerDigits,
+      useGrouping: false,
+    });
+    numberFormats.set(key, format);
+  }
+
+  return format.format(value);
+}
@@ -0,0 +1,27 @@
+import type { Viewport } from "../types";
+
+/**
+ * Clamps a viewport to the 0-1 range while keeping at least `minSpan` visible
+ */
+export function clampViewport(start: number, end: number, minSpan: number = 0.0001): Viewport {
+  const span = Math.min(1, Math.max(minSpan, end - start));
+  const clampedStart = Math.max(0, Math.min(1 - span, start));
+
+  return { start: clampedStart, end: clampedStart + span };
+}
+
+/**
+ * Converts an absolute progress value into a position within the visible range
+ */
+export function toViewportProgress(progress: number, viewport?: Viewport): number {
+  if (!viewport) return progress;
+  return (progress - viewport.start) / (viewport.end - viewport.start);
+}
+
+/**
+ * Converts a position within the visible range into an absolute progress value
+ */
+export function fromViewportProgress(position: number, viewport?: Viewport): number {
+  if (!viewport) return position;
+  return viewport.start + position * (viewport.end - viewport.start);
+}
@@ -0,0 +1,184 @@
+import type { DecodedWav, WavSampleFormat } from "../types";
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+interface WavFormat {
+  bitsPerSample: number;
+  blockAlign: number;
+  format: WavSampleFormat;
+  numberOfChannels: number;
+  sampleRate: number;
+}
+
+/**
+ * Decodes a RIFF/WAVE file without Web Audio. Supports 8/16/24/32-bit integer PCM,
+ * 32/64-bit float and WAVE_FORMAT_EXTENSIBLE with any number of channels.
+ */
+export function decodeWav(data: ArrayBuffer | ArrayBufferView): DecodedWav {
+  const view = ArrayBuffer.isView(data)
+    ? new DataView(data.buffer, data.byteOffset, data.byteLength)
+    : new DataView(data);
+
+  if (view.byteLength < 12 || readTag(view, 0) !== "RIFF" || readTag(view, 8) !== "WAVE") {
+    throw new Error("Data is not a RIFF/WAVE file");
+  }
+
+  let format: WavFormat | undefined;
+  let dataOffset = -1;
+  let dataSize = 0;
+  let offset = 12;
+
+  while (offset + 8 <= view.byteLength) {
+    const id = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === "fmt ") {
+      format = parseFormat(view, body, size);
+    } else if (id === "data") {
+      dataOffset = body;
+      // Streamed files may leave the size unset, so never read past the end
+      dataSize = Math.min(size, view.byteLength - body);
+      break;
+    }
+
+    // Chunks are padded to an even number of bytes
+    offset = body + size + (size % 2);
+  }
+
+  if (!format) {
+    throw new Error("WAV file is missing a fmt chunk");
+  }
+
+  if (dataOffset < 0) {
+    throw new Error("WAV file is missing a data chunk");
+  }
+
+  const length = Math.floor(dataSize / format.blockAlign);
+  const channelData = Array.from({ length: format.numberOfChannels }, () => new Float32Array(length));
+  const readSample = getSampleReader(format);
+  const bytesPerSample = format.bitsPerSample / 8;
+
+  for (let i = 0; i < length; i++) {
+    const frame = dataOffset + i * format.blockAlign;
+    for (let channel = 0; channel < format.numberOfChannels; channel++) {
+      channelData[channel][i] = readSample(view, frame + channel * bytesPerSample);
+    }
+  }
+
+  return createDecodedWav(channelData, format, length);
+}
+
+function readTag(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3),
+  );
+}
+
+function parseFormat(view: DataView, offset: number, size: number): WavFormat {
+  if (size < 16 || offset + 16 > view.byteLength) {
+    throw new Error("WAV fmt chunk is too short");
+  }
+
+  let formatTag = view.getUint16(offset, true);
+  const numberOfChannels = view.getUint16(offset + 2, true);
+  const sampleRate = view.getUint32(offset + 4, true);
+  const blockAlign = view.getUint16(offset + 12, true);
+  const bitsPerSample = view.getUint16(offset + 14, true);
+
+  if (formatTag === WAVE_FORMAT_EXTENSIBLE) {
+    if (size < 40 || offset + 26 > view.byteLength) {
+      throw new Error("WAV fmt chunk is too short for WAVE_FORMAT_EXTENSIBLE");
+    }
+
+    // The sub-format GUID starts with the actual format tag
+    formatTag = view.getUint16(offset + 24, true);
+  }
+
+  if (numberOfChannels === 0) {
+    throw new Error("WAV file must have at least one channel");
+  }
+
+  if (sampleRate === 0) {
+    throw new Error("WAV sample rate must be greater than zero");
+  }
+
+  if (blockAlign < (numberOfChannels * bitsPerSample) / 8) {
+    throw new Error("WAV block align is too small for its channels and bit depth");
+  }
+
+  if (formatTag === WAVE_FORMAT_PCM) {
+    if (![8, 16, 24, 32].includes(bitsPerSample)) {
+      throw new Error(`Unsupported PCM bit depth: ${bitsPerSample}`);
+    }
+    return { bitsPerSample, blockAlign, format: "pcm", numberOfChannels, sampleRate };
+  }
+
+  if (formatTag === WAVE_FORMAT_IEEE_FLOAT) {
+    if (bitsPerSample !== 32 && bitsPerSample !== 64) {
+      throw new Error(`Unsupported float bit depth: ${bitsPerSample}`);
+    }
+    return { bitsPerSample, blockAlign, format: "float", numberOfChannels, sampleRate };
+  }
+
+  throw new Error(`Unsupported WAV format: 0x${formatTag.toString(16)}`);
+}
+
+/**
+ * Returns a reader that converts one sample to a float between -1 and 1
+ */
+function getSampleReader(format: WavFormat): (view: DataView, offset: number) => number {
+  if (format.format === "float") {
+    return format.bitsPerSample === 64
+      ? (view, offset) => view.getFloat64(offset, true)
+      : (view, offset) => view.getFloat32(offset, true);
+  }
+
+  switch (format.bitsPerSample) {
+    case 8:
+      // 8-bit PCM is unsigned with silence at 128
+      return (view, offset) => (view.getUint8(offset) - 128) / 128;
+    case 16:
+      return (view, offset) => view.getInt16(offset, true) / 32768;
+    case 24:
+      return (view, offset) => {
+        const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+        return value / 8388608;
+      };
+    case 32:
+    default:
+      return (view, offset) => view.getInt32(offset, true) / 2147483648;
+  }
+}
+
+function createDecodedWav(channelData: Float32Array[], format: WavFormat, length: number): DecodedWav {
+  const getChannelData = (channel: number): Float32Array => {
+    if (channel < 0 || channel >= channelData.length) {
+      throw new RangeError(`Channel index ${channel} is out of range`);
+    }
+    return channelData[channel];
+  };
+
+  return {
+    bitsPerSample: format.bitsPerSample,
+    duration: length / format.sampleRate,
+    format: format.format,
+    length,
+    numberOfChannels: format.numberOfChannels,
+    sampleRate: format.sampleRate,
+    getChannelData,
+    copyFromChannel(destination, channelNumber, bufferOffset = 0) {
+      const source = getChannelData(channelNumber);
+      destination.set(source.subarray(bufferOffset, bufferOffset + destination.length));
+    },
+    copyToChannel(source, channelNumber, bufferOffset = 0) {
+      const target = getChannelData(channelNumber);
+      target.set(source.subarray(0, Math.max(0, target.length - bufferOffset)), bufferOffset);
+    },
+  };
+}
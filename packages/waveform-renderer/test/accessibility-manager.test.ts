@@ -0,0 +1,213 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { AccessibilityManager } from "../src/accessibility-manager";
+import { DEFAULT_ACCESSIBILITY_OPTIONS, DEFAULT_OPTIONS } from "../src/constants";
+import type { AccessibilityCallbacks, Marker, Region, WaveformOptions } from "../src/types";
+
+const press = (canvas: HTMLCanvasElement, key: string, init: KeyboardEventInit = {}): KeyboardEvent => {
+  const event = new KeyboardEvent("keydown", { cancelable: true, key, ...init });
+  canvas.dispatchEvent(event);
+  return event;
+};
+
+describe("AccessibilityManager", () => {
+  let canvas: HTMLCanvasElement;
+  let callbacks: AccessibilityCallbacks;
+  let manager: AccessibilityManager;
+  let markers: Marker[];
+  let regions: Region[];
+
+  const sync = (options: Partial<WaveformOptions> = {}) =>
+    manager.sync({ ...DEFAULT_OPTIONS, accessibility: DEFAULT_ACCESSIBILITY_OPTIONS, ...options });
+
+  beforeEach(() => {
+    canvas = document.createElement("canvas");
+    markers = [];
+    regions = [];
+    callbacks = {
+      getMarkers: () => markers,
+      getRegions: () => regions,
+      onFocusChange: vi.fn(),
+      onForcedColorsChange: vi.fn(),
+      onSeek: vi.fn(),
+    };
+    manager = new AccessibilityManager(canvas, callbacks);
+  });
+
+  afterEach(() => {
+    manager.destroy();
+    vi.unstubAllGlobals();
+  });
+
+  describe("slider semantics", () => {
+    it("should make the canvas a focusable slider", () => {
+      sync({ duration: 200, progress: 0.25 });
+
+      expect(canvas.getAttribute("role")).toBe("slider");
+      expect(canvas.getAttribute("tabindex")).toBe("0");
+      expect(canvas.getAttribute("aria-label")).toBe("Audio waveform");
+      expect(canvas.getAttribute("aria-valuemin")).toBe("0");
+      expect(canvas.getAttribute("aria-valuemax")).toBe("100");
+      expect(canvas.getAttribute("aria-valuenow")).toBe("25");
+      expect(canvas.getAttribute("aria-valuetext")).toBe("0:50 of 3:20");
+    });
+
+    it("should follow the progress and label", () => {
+      sync();
+      sync({ accessibility: { ...DEFAULT_ACCESSIBILITY_OPTIONS, label: "Episode 12" }, progress: 0.3333 });
+
+      expect(canvas.getAttribute("aria-label")).toBe("Episode 12");
+      expect(canvas.getAttribute("aria-valuenow")).toBe("33.3");
+      expect(canvas.getAttribute("aria-valuetext")).toBe("33%");
+    });
+
+    it("should only write attributes whose value changed", () => {
+      sync({ duration: 100, progress: 0.5 });
+      const setAttribute = vi.spyOn(canvas, "setAttribute");
+
+      sync({ duration: 100, progress: 0.5 });
+      expect(setAttribute).not.toHaveBeenCalled();
+
+      sync({ duration: 100, progress: 0.502 });
+      expect(setAttribute).toHaveBeenCalledTimes(1);
+      expect(setAttribute).toHaveBeenCalledWith("aria-valuenow", "50.2");
+    });
+
+    it("should restore the page's attributes once disabled", () => {
+      canvas.setAttribute("tabindex", "-1");
+      canvas.setAttribute("aria-label", "Player");
+
+      sync();
+      expect(canvas.getAttribute("tabindex")).toBe("-1");
+
+      sync({ accessibility: null });
+      expect(canvas.getAttribute("aria-label")).toBe("Player");
+      expect(canvas.hasAttribute("role")).toBe(false);
+      expect(canvas.hasAttribute("aria-valuenow")).toBe(false);
+    });
+  });
+
+  describe("keyboard navigation", () => {
+    beforeEach(() => sync({ duration: 100, progress: 0.5 }));
+
+    it("should step by seconds with the arrow keys", () => {
+      const event = press(canvas, "ArrowRight");
+
+      expect(callbacks.onSeek).toHaveBeenCalledWith(0.55);
+      expect(event.defaultPrevented).toBe(true);
+
+      press(canvas, "ArrowDown");
+      expect(callbacks.onSeek).toHaveBeenLastCalledWith(0.5);
+    });
+
+    it("should jump with PageUp, PageDown, Home and End", () => {
+      press(canvas, "PageDown");
+      expect(callbacks.onSeek).toHaveBeenLastCalledWith(0.2);
+
+      press(canvas, "End");
+      expect(callbacks.onSeek).toHaveBeenLastCalledWith(1);
+
+      press(canvas, "PageUp");
+      expect(callbacks.onSeek).toHaveBeenLastCalledWith(1);
+
+      press(canvas, "Home");
+      expect(callbacks.onSeek).toHaveBeenLastCalledWith(0);
+    });
+
+    it("should step by a percentage without a duration", () => {
+      sync({ progress: 0.5 });
+
+      press(canvas, "ArrowLeft");
+      expect(callbacks.onSeek).toHaveBeenLastCalledWith(0.49);
+
+      press(canvas, "PageUp");
+      expect(callbacks.onSeek).toHaveBeenLastCalledWith(expect.closeTo(0.59));
+    });
+
+    it("should move between markers and region starts", () => {
+      markers = [
+        { id: "a", position: 0.2 },
+        { id: "b", position: 0.7 },
+      ];
+      regions = [{ id: "r", start: 0.6, end: 0.9 }];
+
+      press(canvas, "m");
+      expect(callbacks.onSeek).toHaveBeenLastCalledWith(0.7);
+
+      press(canvas, "M", { shiftKey: true });
+      expect(callbacks.onSeek).toHaveBeenLastCalledWith(0.2);
+
+      press(canvas, "r");
+      expect(callbacks.onSeek).toHaveBeenLastCalledWith(0.6);
+    });
+
+    it("should leave keys with nothing to do to the browser", () => {
+      const events = [press(canvas, "r"), press(canvas, "Tab"), press(canvas, "ArrowRight", { ctrlKey: true })];
+
+      expect(callbacks.onSeek).not.toHaveBeenCalled();
+      expect(events.map(event => event.defaultPrevented)).toEqual([false, false, false]);
+    });
+
+    it("should use custom bindings", () => {
+      sync({ accessibility: { ...DEFAULT_ACCESSIBILITY_OPTIONS, keyBindings: { stepForward: ["l"] } }, duration: 100 });
+
+      press(canvas, "ArrowRight");
+      expect(callbacks.onSeek).not.toHaveBeenCalled();
+
+      press(canvas, "l");
+      expect(callbacks.onSeek).toHaveBeenCalledWith(0.05);
+    });
+
+    it("should stop listening once disabled", () => {
+      sync({ accessibility: null });
+
+      press(canvas, "ArrowRight");
+      expect(callbacks.onSeek).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("focus", () => {
+    it("should report focus changes", () => {
+      sync();
+      document.body.appendChild(canvas);
+
+      canvas.focus();
+      expect(callbacks.onFocusChange).toHaveBeenLastCalledWith(true);
+
+      canvas.blur();
+      expect(callbacks.onFocusChange).toHaveBeenLastCalledWith(false);
+
+      canvas.remove();
+    });
+
+    it("should drop the focus ring when disabled while focused", () => {
+      sync();
+      canvas.dispatchEvent(new FocusEvent("focus"));
+
+      sync({ accessibility: null });
+      expect(callbacks.onFocusChange).toHaveBeenLastCalledWith(false);
+    });
+  });
+
+  describe("forced colors", () => {
+    it("should report forced colors mode", () => {
+      const query = Object.assign(new EventTarget(), { matches: true });
+      vi.stubGlobal(
+        "matchMedia",
+        vi.fn(() => query),
+      );
+
+      manager.destroy();
+      manager = new AccessibilityManager(canvas, callbacks);
+      expect(window.matchMedia).toHaveBeenCalledWith("(forced-colors: active)");
+      expect(manager.isForcedColors()).toBe(true);
+
+      query.dispatchEvent(Object.assign(new Event("change"), { matches: false }));
+      expect(callbacks.onForcedColorsChange).toHaveBeenCalledWith(false);
+    });
+
+    it("should work without matchMedia", () => {
+      expect(manager.isForcedColors()).toBe(false);
+    });
+  });
+});
@@ -1,12 +1,19 @@
-import { describe, expect, it, vi, beforeEach } from "vitest";
+import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
 
 import { CacheManager } from "../src/cache-manager";
+import { PeakPyramid } from "../src/peak-pyramid";
+import { DEFAULT_TIME_RULER_OPTIONS } from "../src/constants";
 import type { WaveformOptions, CachedBarData } from "../src/types";
 
 // Mock Path2D for Node.js environment
 class MockPath2D {
   rect = vi.fn();
   roundRect = vi.fn();
+  moveTo = vi.fn();
+  lineTo = vi.fn();
+  bezierCurveTo = vi.fn();
+  arc = vi.fn();
+  closePath = vi.fn();
 }
 
 global.Path2D = MockPath2D as any;
@@ -25,20 +32,51 @@ describe("CacheManager", () => {
     } as unknown as HTMLCanvasElement;
 
     mockOptions = {
+      accessibility: null,
       amplitude: 0.8,
       backgroundColor: "#f0f0f0",
+      barColor: null,
       barWidth: 2,
       borderColor: "#000",
       borderRadius: 2,
       borderWidth: 1,
+      bufferedColor: "#999999",
+      channelColors: [],
+      channelLayout: "stacked" as const,
       color: "#3b82f6",
+      createRegionsOnDrag: false,
       debug: false,
+      dragThreshold: 5,
+      duration: null,
       gap: 1,
+      hover: null,
+      interaction: "scrub" as const,
+      markerStyle: {
+        color: "#f59e0b",
+        heightPercent: 1,
+        labelColor: "#fff",
+        position: "center" as const,
+        style: "solid" as const,
+        width: 1,
+      },
+      maxZoom: 100,
       minPixelRatio: 1,
+      minZoom: 1,
+      normalize: "peak",
       position: "bottom" as const,
       progress: 0,
       progressLine: null,
+      progressPrecision: 0.1,
+      regionColor: "rgba(0, 0, 255, 0.2)",
+      regionLabelColor: "#000",
+      resampling: { downsample: "max", upsample: "linear" },
+      rmsColor: null,
+      rmsProgressColor: null,
+      scale: "linear",
+      seekEasing: null,
       smoothing: false,
+      style: "bars",
+      timeRuler: null,
     };
   });
 
@@ -72,6 +110,15 @@ describe("CacheManager", () => {
       expect(cache.staticWaveformPath).toBeUndefined();
     });
 
+    it("should drop resolved paints so they are rebuilt", () => {
+      const cache = cacheManager.getCache(mockCanvas, 1, [0.5, 1], mockOptions);
+      cache.paints = new Map([["#000", "#000"]]);
+
+      cacheManager.invalidate();
+
+      expect(cache.paints).toBeUndefined();
+    });
+
     it("should not throw when cache is null", () => {
       expect(() => cacheManager.invalidate()).not.toThrow();
     });
@@ -176,7 +223,506 @@ describe("CacheManager", () => {
     });
   });
 
+  describe("min/max peaks", () => {
+    it("should store signed values on each bar", () => {
+      const peaks = { min: [-0.4], max: [0.2] };
+      const cache = cacheManager.getCache(mockCanvas, 1, peaks, mockOptions);
+
+      expect(cache.bars[0].minValue).toBe(-0.4);
+      expect(cache.bars[0].maxValue).toBe(0.2);
+      expect(cache.bars[0].peakValue).toBe(0.4);
+    });
+
+    it("should draw bars from min to max around the centerline", () => {
+      const peaks = { min: [-0.5], max: [0.25] };
+      const cache = cacheManager.getCache(mockCanvas, 1, peaks, { ...mockOptions, amplitude: 1, position: "center" });
+
+      // Half height = 100, top = 100 - 0.25 * 100, height = 0.75 * 100
+      expect(cache.bars[0].y).toBe(75);
+      expect(cache.bars[0].height).toBe(75);
+    });
+
+    it("should compute the RMS body inside the peak outline", () => {
+      const peaks = { min: [-0.8], max: [0.8], rms: [0.4] };
+      const cache = cacheManager.getCache(mockCanvas, 1, peaks, { ...mockOptions, amplitude: 1, position: "center" });
+      const bar = cache.bars[0];
+
+      expect(bar.rmsValue).toBe(0.4);
+      expect(bar.rmsY).toBe(60);
+      expect(bar.rmsHeight).toBe(80);
+      expect(bar.rmsY!).toBeGreaterThan(bar.y);
+    });
+
+    it("should build an RMS path only when bars carry RMS data", () => {
+      const withRms = cacheManager.getCache(mockCanvas, 1, { min: [-0.8], max: [0.8], rms: [0.4] }, mockOptions);
+      cacheManager.createStaticPath(withRms, 0);
+      expect(withRms.rmsPath).toBeDefined();
+
+      const withoutRms = cacheManager.getCache(mockCanvas, 1, { min: [-0.8], max: [0.8] }, mockOptions);
+      cacheManager.createStaticPath(withoutRms, 0);
+      expect(withoutRms.rmsPath).toBeUndefined();
+    });
+
+    it("should not set signed values for plain peaks", () => {
+      const cache = cacheManager.getCache(mockCanvas, 1, [0.5], mockOptions);
+
+      expect(cache.bars[0].minValue).toBeUndefined();
+      expect(cache.bars[0].maxValue).toBeUndefined();
+    });
+
+    it("should create different hashes for plain and signed peaks", () => {
+      const cache1 = cacheManager.getCache(mockCanvas, 1, [0.5, 0.5], mockOptions);
+      const cache2 = cacheManager.getCache(mockCanvas, 1, { min: [-0.5, -0.5], max: [0.5, 0.5] }, mockOptions);
+
+      expect(cache1.lastPeaksHash).not.toBe(cache2.lastPeaksHash);
+    });
+  });
+
+  describe("viewport", () => {
+    it("should only map the visible range of the peaks", () => {
+      const peaks = Array.from({ length: 1000 }, (_, i) => (i < 500 ? 0.1 : 0.9));
+      const cache = cacheManager.getCache(mockCanvas, 1, peaks, mockOptions, { start: 0.5, end: 1 });
+
+      expect(cache.bars.every(bar => bar.peakValue === 0.9)).toBe(true);
+      expect(cache.step).toBeCloseTo(500 / cache.totalBars);
+    });
+
+    it("should store the viewport on the cache", () => {
+      const cache = cacheManager.getCache(mockCanvas, 1, [0.5], mockOptions, { start: 0.2, end: 0.4 });
+
+      expect(cache.viewport).toEqual({ start: 0.2, end: 0.4 });
+    });
+
+    it("should rebuild the cache when the viewport changes", () => {
+      const peaks = [0.1, 0.5, 0.8, 0.3];
+      const cache1 = cacheManager.getCache(mockCanvas, 1, peaks, mockOptions);
+      const cache2 = cacheManager.getCache(mockCanvas, 1, peaks, mockOptions, { start: 0, end: 1 });
+      const cache3 = cacheManager.getCache(mockCanvas, 1, peaks, mockOptions, { start: 0, end: 0.5 });
+
+      expect(cache1).toBe(cache2);
+      expect(cache2).not.toBe(cache3);
+    });
+
+    it("should query pyramids for the visible range", () => {
+      const pyramid = PeakPyramid.fromPeaks([0.1, 0.2, 0.3, 0.4]);
+      const getPeaksSpy = vi.spyOn(pyramid, "getPeaks");
+
+      const cache = cacheManager.getCache(mockCanvas, 1, pyramid, mockOptions, { start: 0.25, end: 0.5 });
+
+      expect(getPeaksSpy).toHaveBeenCalledWith(cache.totalBars, 0.25, 0.5);
+    });
+  });
+
+  describe("amplitude scale", () => {
+    it("should apply the scale to bar heights", () => {
+      const options = { ...mockOptions, amplitude: 1, borderWidth: 0, scale: "sqrt" as const };
+
+      const cache = cacheManager.getCache(mockCanvas, 1, [0.25], options);
+
+      expect(cache.bars[0].height).toBe(100);
+      expect(cache.bars[0].peakValue).toBe(0.25);
+    });
+
+    it("should apply the scale to min/max and RMS values", () => {
+      const options = { ...mockOptions, amplitude: 1, position: "center" as const, scale: "sqrt" as const };
+
+      const cache = cacheManager.getCache(mockCanvas, 1, { min: [-0.25], max: [0.25], rms: [0.04] }, options);
+
+      expect(cache.bars[0].height).toBe(100);
+      expect(cache.bars[0].rmsHeight).toBeCloseTo(40);
+    });
+
+    it("should rebuild the cache when the scale changes", () => {
+      const peaks = [0.1, 0.5];
+      const cache1 = cacheManager.getCache(mockCanvas, 1, peaks, mockOptions);
+      const cache2 = cacheManager.getCache(mockCanvas, 1, peaks, { ...mockOptions, scale: { type: "db", floor: -40 } });
+      const cache3 = cacheManager.getCache(mockCanvas, 1, peaks, { ...mockOptions, scale: { type: "db", floor: -60 } });
+
+      expect(cache1).not.toBe(cache2);
+      expect(cache2).not.toBe(cache3);
+    });
+  });
+
+  describe("resampling", () => {
+    // One pixel per bar, so 800 bars
+    const options = () => ({ ...mockOptions, barWidth: 1, borderWidth: 0, gap: 0 });
+
+    it("should keep transients between two bars when downsampling", () => {
+      const peaks = Array.from({ length: 1600 }, (_, i) => (i % 2 === 1 ? 0.9 : 0.1));
+
+      const cache = cacheManager.getCache(mockCanvas, 1, peaks, options());
+
+      expect(cache.bars.every(bar => bar.peakValue === 0.9)).toBe(true);
+    });
+
+    it("should pick a single peak per bar without downsampling", () => {
+      const peaks = Array.from({ length: 1600 }, (_, i) => (i % 2 === 1 ? 0.9 : 0.1));
+
+      const cache = cacheManager.getCache(mockCanvas, 1, peaks, {
+        ...options(),
+        resampling: { downsample: "none" },
+      });
+
+      expect(cache.bars.every(bar => bar.peakValue === 0.1)).toBe(true);
+    });
+
+    it("should interpolate between peaks when upsampling", () => {
+      const cache = cacheManager.getCache(mockCanvas, 1, [0, 0.8], options());
+
+      expect(cache.bars[0].peakValue).toBe(0);
+      expect(cache.bars[200].peakValue).toBeCloseTo(0.4);
+    });
+
+    it("should repeat peaks without upsampling", () => {
+      const cache = cacheManager.getCache(mockCanvas, 1, [0, 0.8], { ...options(), resampling: { upsample: "none" } });
+
+      expect(cache.bars[399].peakValue).toBe(0);
+      expect(cache.bars[400].peakValue).toBe(0.8);
+    });
+
+    it("should rebuild the cache when the resampling changes", () => {
+      const peaks = [0.1, 0.5];
+      const cache1 = cacheManager.getCache(mockCanvas, 1, peaks, mockOptions);
+      const cache2 = cacheManager.getCache(mockCanvas, 1, peaks, { ...mockOptions, resampling: { upsample: "cubic" } });
+
+      expect(cache1).not.toBe(cache2);
+    });
+  });
+
+  describe("styles", () => {
+    it("should rebuild the cache when the style changes", () => {
+      const peaks = [0.1, 0.5];
+      const cache1 = cacheManager.getCache(mockCanvas, 1, peaks, mockOptions);
+      const cache2 = cacheManager.getCache(mockCanvas, 1, peaks, { ...mockOptions, style: "line" });
+      const cache3 = cacheManager.getCache(mockCanvas, 1, peaks, {
+        ...mockOptions,
+        style: { type: "line", smooth: true },
+      });
+
+      expect(cache1).not.toBe(cache2);
+      expect(cache2).not.toBe(cache3);
+    });
+  });
+
+  describe("getBarAt", () => {
+    const options = () => ({ ...mockOptions, amplitude: 1, borderWidth: 0, gap: 2 });
+
+    it("should return null without a cache", () => {
+      expect(cacheManager.getBarAt(0, 0)).toBeNull();
+    });
+
+    it("should find the bar under a point", () => {
+      const cache = cacheManager.getCache(mockCanvas, 1, [0.5, 1], options());
+      const bar = cache.bars[cache.bars.length - 1];
+
+      expect(cacheManager.getBarAt(bar.x + 1, 199)).toBe(bar);
+    });
+
+    it("should miss points in gaps or above a bar", () => {
+      const cache = cacheManager.getCache(mockCanvas, 1, [0.5, 0.5], options());
+
+      expect(cacheManager.getBarAt(cache.bars[0].x + 3, 199)).toBeNull();
+      expect(cacheManager.getBarAt(cache.bars[0].x + 1, 50)).toBeNull();
+    });
+
+    it("should follow the scaled geometry", () => {
+      cacheManager.getCache(mockCanvas, 1, [0.25], options());
+      expect(cacheManager.getBarAt(1, 100)).toBeNull();
+
+      cacheManager.getCache(mockCanvas, 1, [0.25], { ...options(), scale: "sqrt" });
+      expect(cacheManager.getBarAt(1, 100)).not.toBeNull();
+    });
+
+    it("should pick the bar in the lane under the point", () => {
+      const cache = cacheManager.getCache(mockCanvas, 1, [[1], [1]], options());
+
+      expect(cacheManager.getBarAt(1, 150)?.channel).toBe(1);
+      expect(cacheManager.getBarAt(1, 50)?.channel).toBe(0);
+      expect(cache.bars).toHaveLength(cache.totalBars * 2);
+    });
+  });
+
+  describe("getBarInColumn", () => {
+    it("should find the first channel's bar at any height", () => {
+      expect(cacheManager.getBarInColumn(0)).toBeNull();
+
+      const cache = cacheManager.getCache(mockCanvas, 1, [[0.5], [0.5]], { ...mockOptions, gap: 2 });
+
+      expect(cacheManager.getBarInColumn(1)).toBe(cache.bars[0]);
+      expect(cacheManager.getBarInColumn(cache.bars[0].x + 3)).toBe(cache.bars[0]);
+      expect(cacheManager.getBarInColumn(-1)).toBeNull();
+      expect(cacheManager.getBarInColumn(cache.canvasWidth + 10)).toBeNull();
+    });
+  });
+
+  describe("appended peaks", () => {
+    it("should only create bars for received peaks when laid out for a longer total length", () => {
+      const cache = cacheManager.getCache(mockCanvas, 1, [0.5, 0.5], mockOptions, undefined, 8);
+
+      expect(cache.layoutLength).toBe(8);
+      expect(cache.filledBars).toBe(Math.ceil(cache.totalBars / 4));
+      expect(cache.bars).toHaveLength(cache.filledBars!);
+    });
+
+    it("should rebuild the cache when the total length changes", () => {
+      const cache1 = cacheManager.getCache(mockCanvas, 1, [0.5, 0.5], mockOptions, undefined, 8);
+      const cache2 = cacheManager.getCache(mockCanvas, 1, [0.5, 0.5], mockOptions, undefined, 16);
+
+      expect(cache1).not.toBe(cache2);
+    });
+
+    it("should extend the cache with bars for appended peaks", () => {
+      const cache = cacheManager.getCache(mockCanvas, 1, [0.5, 0.5], mockOptions, undefined, 8);
+      const previousBars = cache.bars.length;
+
+      const region = cacheManager.extend([0.5, 0.5, 0.25, 0.25], mockOptions, 8);
+
+      expect(region).not.toBeNull();
+      expect(cache.bars.length).toBeGreaterThan(previousBars);
+      expect(cache.bars[previousBars].peakValue).toBe(0.25);
+      expect(region!.start).toBe(cache.bars[previousBars].x - mockOptions.borderWidth);
+      expect(region!.end).toBe(cache.bars[cache.bars.length - 1].x + mockOptions.barWidth + mockOptions.borderWidth);
+    });
+
+    it("should keep the extended cache valid for the new peaks", () => {
+      const cache = cacheManager.getCache(mockCanvas, 1, [0.5, 0.5], mockOptions, undefined, 8);
+      const peaks = [0.5, 0.5, 0.25, 0.25];
+
+      cacheManager.extend(peaks, mockOptions, 8);
+
+      expect(cacheManager.getCache(mockCanvas, 1, peaks, mockOptions, undefined, 8)).toBe(cache);
+    });
+
+    it("should regroup bar colors after extending", () => {
+      const cache = cacheManager.getCache(mockCanvas, 1, [0.5, 0.5], mockOptions, undefined, 8);
+      cache.barColorGroups = { unplayed: [] };
+
+      cacheManager.extend([0.5, 0.5, 0.25, 0.25], mockOptions, 8);
+
+      expect(cache.barColorGroups).toBeUndefined();
+    });
+
+    it("should add appended bars to the cached paths", () => {
+      const options = { ...mockOptions, borderRadius: 0 };
+      const cache = cacheManager.getCache(mockCanvas, 1, [0.5, 0.5], options, undefined, 8);
+      const path = cacheManager.createStaticPath(cache, 0);
+      const rectSpy = vi.spyOn(path, "rect");
+
+      cacheManager.extend([0.5, 0.5, 0.25, 0.25], options, 8);
+
+      expect(cacheManager.createStaticPath(cache, 0)).toBe(path);
+      expect(rectSpy).toHaveBeenCalled();
+    });
+
+    it("should retrace connected styles and repaint from the previous bars", () => {
+      const options = { ...mockOptions, borderRadius: 0, style: "line" as const };
+      const cache = cacheManager.getCache(mockCanvas, 1, [0.5, 0.5], options, undefined, 8);
+      const path = cacheManager.createStaticPath(cache, 0, options.style);
+      const previousBars = cache.bars.length;
+
+      const region = cacheManager.extend([0.5, 0.5, 0.25, 0.25], options, 8);
+
+      expect(cache.staticWaveformPath).toBeUndefined();
+      expect(cacheManager.createStaticPath(cache, 0, options.style)).not.toBe(path);
+      expect(region!.start).toBe((previousBars - 2) * cache.singleUnitWidth);
+      expect(region!.end).toBe(
+        cache.bars[cache.bars.length - 1].x + options.barWidth + options.borderWidth + cache.singleUnitWidth,
+      );
+    });
+
+    it("should keep lanes grouped by channel when extending", () => {
+      cacheManager.getCache(mockCanvas, 1, [[0.5], [0.5]], mockOptions, undefined, 4);
+
+      cacheManager.extend(
+        [
+          [0.5, 0.2],
+          [0.5, 0.2],
+        ],
+        mockOptions,
+        4,
+      );
+      const cache = cacheManager.getCache(
+        mockCanvas,
+        1,
+        [
+          [0.5, 0.2],
+          [0.5, 0.2],
+        ],
+        mockOptions,
+        undefined,
+        4,
+      );
+
+      expect(cache.bars.slice(0, cache.filledBars).every(bar => bar.channel === 0)).toBe(true);
+      expect(cache.bars.slice(cache.filledBars).every(bar => bar.channel === 1)).toBe(true);
+    });
+
+    it("should return an empty region when no new bar is filled", () => {
+      cacheManager.getCache(mockCanvas, 1, [0.5, 0.5], mockOptions, undefined, 8);
+
+      expect(cacheManager.extend([0.5, 0.5], mockOptions, 8)).toEqual({ start: 0, end: 0 });
+    });
+
+    it("should require a rebuild when the layout changed", () => {
+      expect(cacheManager.extend([0.5], mockOptions, 8)).toBeNull();
+
+      cacheManager.getCache(mockCanvas, 1, [0.5, 0.5], mockOptions, undefined, 8);
+
+      expect(cacheManager.extend([0.5, 0.5, 0.5], mockOptions, 16)).toBeNull();
+      expect(cacheManager.extend([0.5, 0.5, 0.5], { ...mockOptions, barWidth: 4 }, 8)).toBeNull();
+    });
+  });
+
+  describe("peak pyramids", () => {
+    it("should query one summarized peak per bar", () => {
+      const peaks = Array.from({ length: 10000 }, () => 0.1);
+      peaks[5001] = 1;
+      const pyramid = PeakPyramid.fromPeaks(peaks);
+      const getPeaksSpy = vi.spyOn(pyramid, "getPeaks");
+
+      const cache = cacheManager.getCache(mockCanvas, 1, pyramid, mockOptions);
+
+      expect(getPeaksSpy).toHaveBeenCalledWith(cache.totalBars, 0, 1);
+      expect(cache.step).toBe(1);
+      expect(cache.bars.some(bar => bar.peakValue === 1)).toBe(true);
+    });
+
+    it("should reuse the cache for the same pyramid", () => {
+      const pyramid = PeakPyramid.fromPeaks([0.5, 0.25]);
+
+      const cache1 = cacheManager.getCache(mockCanvas, 1, pyramid, mockOptions);
+      const cache2 = cacheManager.getCache(mockCanvas, 1, pyramid, mockOptions);
+
+      expect(cache1).toBe(cache2);
+    });
+
+    it("should rebuild the cache for a different pyramid", () => {
+      const cache1 = cacheManager.getCache(mockCanvas, 1, PeakPyramid.fromPeaks([0.5]), mockOptions);
+      const cache2 = cacheManager.getCache(mockCanvas, 1, PeakPyramid.fromPeaks([0.5]), mockOptions);
+
+      expect(cache1).not.toBe(cache2);
+    });
+  });
+
+  describe("channel lanes", () => {
+    it("should build one row of bars per channel", () => {
+      const peaks = [
+        [0.5, 0.5],
+        [0.25, 0.25],
+      ];
+      const cache = cacheManager.getCache(mockCanvas, 1, peaks, mockOptions);
+
+      expect(cache.channelCount).toBe(2);
+      expect(cache.bars).toHaveLength(cache.totalBars * 2);
+      expect(cache.bars[0].channel).toBe(0);
+      expect(cache.bars[cache.totalBars].channel).toBe(1);
+    });
+
+    it("should stack lanes vertically", () => {
+      const peaks = [[0.5], [0.5]];
+      const cache = cacheManager.getCache(mockCanvas, 1, peaks, { ...mockOptions, amplitude: 1, position: "center" });
+      const top = cache.bars[0];
+      const bottom = cache.bars[cache.totalBars];
+
+      // Each lane is 100px high, bars are 50px high and centered within their lane
+      expect(top.y).toBe(25);
+      expect(top.height).toBe(50);
+      expect(bottom.y).toBe(125);
+      expect(bottom.height).toBe(50);
+    });
+
+    it("should mirror the second channel below the centerline", () => {
+      const peaks = [[0.5], [1]];
+      const cache = cacheManager.getCache(mockCanvas, 1, peaks, {
+        ...mockOptions,
+        amplitude: 1,
+        channelLayout: "mirrored",
+      });
+      const top = cache.bars[0];
+      const bottom = cache.bars[cache.totalBars];
+
+      expect(top.y + top.height).toBe(100);
+      expect(top.height).toBe(50);
+      expect(bottom.y).toBe(100);
+      expect(bottom.height).toBe(100);
+    });
+
+    it("should not tag bars with a channel for single-channel peaks", () => {
+      const cache = cacheManager.getCache(mockCanvas, 1, [0.5], mockOptions);
+
+      expect(cache.channelCount).toBe(1);
+      expect(cache.bars[0].channel).toBeUndefined();
+    });
+
+    it("should rebuild cache when the channel layout changes", () => {
+      const peaks = [[0.5], [0.5]];
+      const cache1 = cacheManager.getCache(mockCanvas, 1, peaks, mockOptions);
+      const cache2 = cacheManager.getCache(mockCanvas, 1, peaks, { ...mockOptions, channelLayout: "mirrored" });
+
+      expect(cache1).not.toBe(cache2);
+    });
+
+    it("should create one path per channel alongside the static path", () => {
+      const cache = cacheManager.getCache(mockCanvas, 1, [[0.5], [0.5]], mockOptions);
+
+      cacheManager.createStaticPath(cache, 0);
+
+      expect(cache.channelPaths).toHaveLength(2);
+
+      cacheManager.invalidate();
+      expect(cache.channelPaths).toBeUndefined();
+    });
+  });
+
+  describe("time ruler space", () => {
+    const ruler = { ...DEFAULT_TIME_RULER_OPTIONS, height: 40 };
+
+    it("should lay bars out beneath a top ruler", () => {
+      const cache = cacheManager.getCache(mockCanvas, 1, [1], {
+        ...mockOptions,
+        amplitude: 1,
+        duration: 60,
+        timeRuler: ruler,
+      });
+
+      expect(cache.lanes).toEqual([{ top: 40, height: 160, position: "bottom" }]);
+      expect(cache.bars[0].y).toBe(40);
+      expect(cache.bars[0].height).toBe(160);
+    });
+
+    it("should keep bars above a bottom ruler and split the rest into lanes", () => {
+      const cache = cacheManager.getCache(mockCanvas, 1, [[1], [1]], {
+        ...mockOptions,
+        duration: 60,
+        timeRuler: { ...ruler, position: "bottom" },
+      });
+
+      expect(cache.lanes?.map(lane => [lane.top, lane.height])).toEqual([
+        [0, 80],
+        [80, 80],
+      ]);
+    });
+
+    it("should not reserve space until the duration is known", () => {
+      const cache = cacheManager.getCache(mockCanvas, 1, [1], { ...mockOptions, timeRuler: ruler });
+
+      expect(cache.lanes).toEqual([{ top: 0, height: 200, position: "bottom" }]);
+    });
+
+    it("should rebuild the cache when the ruler height changes", () => {
+      const options = { ...mockOptions, duration: 60, timeRuler: ruler };
+      const cache1 = cacheManager.getCache(mockCanvas, 1, [1], options);
+      const cache2 = cacheManager.getCache(mockCanvas, 1, [1], { ...options, timeRuler: { ...ruler, height: 30 } });
+
+      expect(cache1).not.toBe(cache2);
+    });
+  });
+
   describe("createStaticPath", () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
     it("should create Path2D for cache bars", () => {
       const peaks = [0.1, 0.5, 0.8, 0.3];
       const cache = cacheManager.getCache(mockCanvas, 1, peaks, mockOptions);
@@ -247,6 +793,39 @@ describe("CacheManager", () => {
       expect(mockPath.rect).toHaveBeenCalled();
       expect(mockPath.roundRect).not.toHaveBeenCalled();
     });
+
+    it("should trace other styles through the bars of each lane", () => {
+      const options = { ...mockOptions, style: "area" as const };
+      const cache = cacheManager.getCache(mockCanvas, 1, [0.1, 0.5, 0.8, 0.3], options);
+
+      const path = cacheManager.createStaticPath(cache, 2, options.style) as unknown as MockPath2D;
+
+      expect(path.rect).not.toHaveBeenCalled();
+      expect(path.roundRect).not.toHaveBeenCalled();
+      expect(path.moveTo).toHaveBeenCalledTimes(1);
+      expect(path.closePath).toHaveBeenCalledTimes(1);
+    });
+
+    it("should trace one path per channel and the RMS body in the same style", () => {
+      const options = { ...mockOptions, style: "line" as const };
+      const cache = cacheManager.getCache(
+        mockCanvas,
+        1,
+        [
+          { min: [-0.5, -0.2], max: [0.5, 0.2], rms: [0.3, 0.1] },
+          { min: [-0.4, -0.1], max: [0.4, 0.1], rms: [0.2, 0.05] },
+        ],
+        options,
+      );
+
+      cacheManager.createStaticPath(cache, 0, options.style);
+
+      expect(cache.lanes).toHaveLength(2);
+      expect(cache.channelPaths).toHaveLength(2);
+      expect((cache.channelPaths![1] as unknown as MockPath2D).moveTo).toHaveBeenCalled();
+      expect((cache.rmsPath as unknown as MockPath2D).moveTo).toHaveBeenCalled();
+      expect((cache.rmsPath as unknown as MockPath2D).rect).not.toHaveBeenCalled();
+    });
   });
 
   describe("cache validation", () => {
@@ -36,6 +36,22 @@ describe("EventHandlerManager", () => {
   let mockCanvas: HTMLCanvasElement;
   let mockCallbacks: EventCallbacks;
 
+  const getHandler = (type: string, canvas = mockCanvas) =>
+    (canvas.addEventListener as any).mock.calls.find((call: any) => call[0] === type)[1];
+  const pointer = (clientX: number, event: Record<string, unknown> = {}) => ({
+    button: 0,
+    clientX,
+    clientY: 150,
+    pointerId: 1,
+    pointerType: "mouse",
+    ...event,
+  });
+  // Press and release without moving
+  const tap = (clientX: number, event: Record<string, unknown> = {}, canvas = mockCanvas) => {
+    getHandler("pointerdown", canvas)(pointer(clientX, event));
+    getHandler("pointerup", canvas)(pointer(clientX, event));
+  };
+
   beforeEach(() => {
     // Reset all mocks
     vi.clearAllMocks();
@@ -45,6 +61,7 @@ describe("EventHandlerManager", () => {
 
     // Mock canvas
     mockCanvas = {
+      style: { touchAction: "" },
       addEventListener: vi.fn(),
       removeEventListener: vi.fn(),
       getBoundingClientRect: vi.fn().mockReturnValue({
@@ -78,8 +95,16 @@ describe("EventHandlerManager", () => {
     it("should initialize with canvas and callbacks", () => {
       eventHandler = new EventHandlerManager(mockCanvas, mockCallbacks);
 
-      expect(mockCanvas.addEventListener).toHaveBeenCalledWith("click", expect.any(Function));
-      expect(mockCanvas.addEventListener).toHaveBeenCalledWith("touchstart", expect.any(Function));
+      ["pointerdown", "pointermove", "pointerup", "pointercancel", "pointerleave"].forEach(type => {
+        expect(mockCanvas.addEventListener).toHaveBeenCalledWith(type, expect.any(Function));
+      });
+      expect(mockCanvas.addEventListener).not.toHaveBeenCalledWith("touchstart", expect.any(Function));
+    });
+
+    it("should let vertical swipes scroll the page", () => {
+      eventHandler = new EventHandlerManager(mockCanvas, mockCallbacks);
+
+      expect(mockCanvas.style.touchAction).toBe("pan-y");
     });
 
     it("should create ResizeObserver and observe canvas", () => {
@@ -99,14 +124,22 @@ describe("EventHandlerManager", () => {
 
   describe("destroy", () => {
     beforeEach(() => {
+      mockCanvas.style.touchAction = "none";
       eventHandler = new EventHandlerManager(mockCanvas, mockCallbacks);
     });
 
     it("should remove event listeners", () => {
       eventHandler.destroy();
 
-      expect(mockCanvas.removeEventListener).toHaveBeenCalledWith("click", expect.any(Function));
-      expect(mockCanvas.removeEventListener).toHaveBeenCalledWith("touchstart", expect.any(Function));
+      ["pointerdown", "pointermove", "pointerup", "pointercancel", "pointerleave"].forEach(type => {
+        expect(mockCanvas.removeEventListener).toHaveBeenCalledWith(type, expect.any(Function));
+      });
+    });
+
+    it("should restore the canvas touch action", () => {
+      eventHandler.destroy();
+
+      expect(mockCanvas.style.touchAction).toBe("none");
     });
 
     it("should disconnect ResizeObserver", () => {
@@ -138,73 +171,57 @@ describe("EventHandlerManager", () => {
       eventHandler = new EventHandlerManager(mockCanvas, mockCallbacks);
     });
 
-    it("should handle click events and calculate progress", () => {
-      const clickEvent = new MouseEvent("click", {
-        clientX: 500, // 500 - 100 (left) = 400px from left edge
-        clientY: 150,
-      });
-
-      // Get the click handler from addEventListener calls
-      const clickHandler = (mockCanvas.addEventListener as any).mock.calls.find((call: any) => call[0] === "click")[1];
-
-      clickHandler(clickEvent);
+    it("should seek where a press is released", () => {
+      // 500 - 100 (left) = 400px from left edge
+      tap(500);
 
       // Progress should be (500 - 100) / 800 = 0.5
       expect(mockCallbacks.onSeek).toHaveBeenCalledWith(0.5);
     });
 
-    it("should prevent default on click events", () => {
-      const clickEvent = new MouseEvent("click", {
-        clientX: 300,
-        clientY: 150,
-      });
-      const preventDefaultSpy = vi.spyOn(clickEvent, "preventDefault");
+    it("should seek when a press moves less than the drag threshold", () => {
+      getHandler("pointerdown")(pointer(500));
+      getHandler("pointermove")(pointer(503));
+      getHandler("pointerup")(pointer(504));
 
-      const clickHandler = (mockCanvas.addEventListener as any).mock.calls.find((call: any) => call[0] === "click")[1];
+      expect(mockCallbacks.onSeek).toHaveBeenCalledWith(0.505);
+    });
 
-      clickHandler(clickEvent);
+    it("should translate clicks into absolute progress within the viewport", () => {
+      eventHandler.setViewport({ start: 0.5, end: 0.75 });
 
-      expect(preventDefaultSpy).toHaveBeenCalled();
+      // Half way across the canvas is half way through the visible quarter
+      tap(500);
+
+      expect(mockCallbacks.onSeek).toHaveBeenCalledWith(0.625);
     });
 
-    it("should handle clicks at canvas edges", () => {
-      const clickHandler = (mockCanvas.addEventListener as any).mock.calls.find((call: any) => call[0] === "click")[1];
+    it("should clamp clicks outside the canvas to the viewport edges", () => {
+      eventHandler.setViewport({ start: 0.5, end: 0.75 });
+
+      tap(1000);
+
+      expect(mockCallbacks.onSeek).toHaveBeenCalledWith(0.75);
+    });
 
+    it("should handle clicks at canvas edges", () => {
       // Click at left edge
-      const leftClickEvent = new MouseEvent("click", {
-        clientX: 100, // exactly at left edge
-        clientY: 150,
-      });
-      clickHandler(leftClickEvent);
+      tap(100);
       expect(mockCallbacks.onSeek).toHaveBeenCalledWith(0);
 
-      // Click at right edge
-      const rightClickEvent = new MouseEvent("click", {
-        clientX: 900, // 100 + 800 = right edge
-        clientY: 150,
-      });
-      clickHandler(rightClickEvent);
+      // Click at right edge (100 + 800)
+      tap(900);
       expect(mockCallbacks.onSeek).toHaveBeenCalledWith(1);
     });
 
-    it("should handle clicks outside canvas bounds", () => {
-      const clickHandler = (mockCanvas.addEventListener as any).mock.calls.find((call: any) => call[0] === "click")[1];
+    it("should ignore other buttons and pointers", () => {
+      getHandler("pointerdown")(pointer(500, { button: 2 }));
+      getHandler("pointerup")(pointer(500, { button: 2 }));
 
-      // Click beyond right edge
-      const farRightClickEvent = new MouseEvent("click", {
-        clientX: 1000, // way beyond right edge
-        clientY: 150,
-      });
-      clickHandler(farRightClickEvent);
-      expect(mockCallbacks.onSeek).toHaveBeenCalledWith(1); // Should be clamped to 1
+      getHandler("pointerdown")(pointer(500));
+      getHandler("pointerup")(pointer(600, { pointerId: 2 }));
 
-      // Click before left edge
-      const farLeftClickEvent = new MouseEvent("click", {
-        clientX: 50, // before left edge
-        clientY: 150,
-      });
-      clickHandler(farLeftClickEvent);
-      expect(mockCallbacks.onSeek).toHaveBeenCalledWith(0); // Should be clamped to 0
+      expect(mockCallbacks.onSeek).not.toHaveBeenCalled();
     });
 
     it("should handle errors in click handler", () => {
@@ -213,14 +230,7 @@ describe("EventHandlerManager", () => {
         throw new Error("Canvas error");
       });
 
-      const clickEvent = new MouseEvent("click", {
-        clientX: 300,
-        clientY: 150,
-      });
-
-      const clickHandler = (mockCanvas.addEventListener as any).mock.calls.find((call: any) => call[0] === "click")[1];
-
-      clickHandler(clickEvent);
+      tap(300);
 
       expect(mockCallbacks.onError).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -235,102 +245,389 @@ describe("EventHandlerManager", () => {
       eventHandler = new EventHandlerManager(mockCanvas, mockCallbacks);
     });
 
-    it("should handle touch events and calculate progress", () => {
-      const touchEvent = new TouchEvent("touchstart", {
-        changedTouches: [
-          {
-            clientX: 400, // 400 - 100 = 300px from left
-            clientY: 150,
-          } as Touch,
-        ],
-      });
-
-      const touchHandler = (mockCanvas.addEventListener as any).mock.calls.find(
-        (call: any) => call[0] === "touchstart",
-      )[1];
-
-      touchHandler(touchEvent);
+    it("should seek on tap", () => {
+      tap(400, { pointerType: "touch" });
 
       // Progress should be (400 - 100) / 800 = 0.375
       expect(mockCallbacks.onSeek).toHaveBeenCalledWith(0.375);
     });
 
-    it("should prevent default on touch events", () => {
-      const touchEvent = new TouchEvent("touchstart", {
-        changedTouches: [
-          {
-            clientX: 300,
-            clientY: 150,
-          } as Touch,
-        ],
-      });
-      const preventDefaultSpy = vi.spyOn(touchEvent, "preventDefault");
+    it("should not prevent default, so the page can scroll", () => {
+      const down = { ...pointer(300, { pointerType: "touch" }), preventDefault: vi.fn() };
+
+      getHandler("pointerdown")(down);
 
-      const touchHandler = (mockCanvas.addEventListener as any).mock.calls.find(
-        (call: any) => call[0] === "touchstart",
-      )[1];
+      expect(down.preventDefault).not.toHaveBeenCalled();
+    });
+
+    it("should leave vertical swipes to the page", () => {
+      mockCallbacks.onScrubStart = vi.fn();
 
-      touchHandler(touchEvent);
+      getHandler("pointerdown")(pointer(400, { pointerType: "touch" }));
+      getHandler("pointermove")(pointer(402, { clientY: 170, pointerType: "touch" }));
+      getHandler("pointermove")(pointer(450, { clientY: 170, pointerType: "touch" }));
+      getHandler("pointerup")(pointer(450, { clientY: 170, pointerType: "touch" }));
 
-      expect(preventDefaultSpy).toHaveBeenCalled();
+      expect(mockCallbacks.onScrubStart).not.toHaveBeenCalled();
+      expect(mockCallbacks.onSeek).not.toHaveBeenCalled();
     });
 
-    it("should handle touch events without changedTouches", () => {
-      const touchEvent = new TouchEvent("touchstart", {
-        changedTouches: [] as any,
-      });
+    it("should not seek when the browser cancels the pointer", () => {
+      getHandler("pointerdown")(pointer(400, { pointerType: "touch" }));
+      getHandler("pointercancel")(pointer(0, { pointerType: "touch" }));
+      getHandler("pointerup")(pointer(400, { pointerType: "touch" }));
 
-      const touchHandler = (mockCanvas.addEventListener as any).mock.calls.find(
-        (call: any) => call[0] === "touchstart",
-      )[1];
+      expect(mockCallbacks.onSeek).not.toHaveBeenCalled();
+    });
+  });
 
-      touchHandler(touchEvent);
+  describe("scrubbing", () => {
+    beforeEach(() => {
+      (mockCanvas as any).setPointerCapture = vi.fn();
+      mockCallbacks.onScrubStart = vi.fn();
+      mockCallbacks.onScrub = vi.fn();
+      mockCallbacks.onScrubEnd = vi.fn();
+      mockCallbacks.hitTestPlayhead = vi.fn().mockReturnValue(false);
+      eventHandler = new EventHandlerManager(mockCanvas, mockCallbacks);
+    });
+
+    it("should scrub once a press is dragged sideways past the threshold", () => {
+      getHandler("pointerdown")(pointer(500, { pointerId: 3 }));
+      getHandler("pointermove")(pointer(504, { pointerId: 3 }));
 
-      // Should not call onSeek when no changedTouches
+      expect(mockCallbacks.onScrubStart).not.toHaveBeenCalled();
+
+      getHandler("pointermove")(pointer(506, { clientY: 152, pointerId: 3 }));
+      getHandler("pointermove")(pointer(700, { clientY: 300, pointerId: 3 }));
+      getHandler("pointerup")(pointer(1000, { pointerId: 3 }));
+
+      expect(mockCanvas.setPointerCapture).toHaveBeenCalledWith(3);
+      expect(mockCallbacks.onScrubStart).toHaveBeenCalledWith(expect.objectContaining({ progress: 0.5075 }));
+      expect(mockCallbacks.onScrub).toHaveBeenCalledWith(expect.objectContaining({ progress: 0.75 }));
+      expect(mockCallbacks.onScrubEnd).toHaveBeenCalledWith(expect.objectContaining({ progress: 1 }));
       expect(mockCallbacks.onSeek).not.toHaveBeenCalled();
     });
 
-    it("should handle touch events with null changedTouches", () => {
-      const touchEvent = {
-        preventDefault: vi.fn(),
-        changedTouches: [null] as any,
-      };
+    it("should follow the configured threshold", () => {
+      eventHandler.setInteraction("scrub", 20);
+
+      getHandler("pointerdown")(pointer(500));
+      getHandler("pointermove")(pointer(515));
+      expect(mockCallbacks.onScrubStart).not.toHaveBeenCalled();
+
+      getHandler("pointermove")(pointer(520));
+      expect(mockCallbacks.onScrubStart).toHaveBeenCalledTimes(1);
+    });
+
+    it("should end a cancelled scrub where the pointer was last seen", () => {
+      getHandler("pointerdown")(pointer(500));
+      getHandler("pointermove")(pointer(580));
+      getHandler("pointercancel")(pointer(0));
+
+      expect(mockCallbacks.onScrubEnd).toHaveBeenCalledWith(expect.objectContaining({ progress: 0.6 }));
+    });
+
+    it("should only seek on click in click mode", () => {
+      eventHandler.setInteraction("click", 5);
+
+      getHandler("pointerdown")(pointer(500));
+      getHandler("pointermove")(pointer(580));
+      getHandler("pointerup")(pointer(580));
+
+      expect(mockCallbacks.onScrubStart).not.toHaveBeenCalled();
+      expect(mockCallbacks.onSeek).toHaveBeenCalledWith(0.6);
+    });
+
+    it("should seek where a click mode drag is released outside the canvas", () => {
+      eventHandler.setInteraction("click", 5);
 
-      const touchHandler = (mockCanvas.addEventListener as any).mock.calls.find(
-        (call: any) => call[0] === "touchstart",
-      )[1];
+      getHandler("pointerdown")(pointer(500, { pointerId: 4 }));
+      getHandler("pointermove")(pointer(700, { pointerId: 4 }));
+      getHandler("pointerup")(pointer(1200, { pointerId: 4 }));
 
-      touchHandler(touchEvent);
+      expect(mockCanvas.setPointerCapture).toHaveBeenCalledWith(4);
+      expect(mockCallbacks.onSeek).toHaveBeenCalledWith(1);
+
+      tap(300);
+      expect(mockCallbacks.onSeek).toHaveBeenLastCalledWith(0.25);
+    });
+
+    it("should only drag the playhead in handle mode", () => {
+      eventHandler.setInteraction("handle", 5);
+
+      tap(500);
+      getHandler("pointerdown")(pointer(500));
+      getHandler("pointermove")(pointer(580));
+      getHandler("pointerup")(pointer(580));
 
-      // Should not call onSeek when changedTouches[0] is null
       expect(mockCallbacks.onSeek).not.toHaveBeenCalled();
+      expect(mockCallbacks.onScrubStart).not.toHaveBeenCalled();
+
+      vi.mocked(mockCallbacks.hitTestPlayhead!).mockReturnValue(true);
+      tap(500);
+      getHandler("pointerdown")(pointer(500));
+      getHandler("pointermove")(pointer(580));
+      getHandler("pointerup")(pointer(580));
+
+      expect(mockCallbacks.onSeek).not.toHaveBeenCalled();
+      expect(mockCallbacks.onScrubStart).toHaveBeenCalledTimes(1);
+      expect(mockCallbacks.onScrubEnd).toHaveBeenCalledTimes(1);
     });
+  });
 
-    it("should handle errors in touch handler", () => {
-      mockCanvas.getBoundingClientRect = vi.fn().mockImplementation(() => {
-        throw new Error("Touch error");
+  describe("pointer handling", () => {
+    beforeEach(() => {
+      (mockCanvas as any).setPointerCapture = vi.fn();
+      mockCallbacks.onPointerDown = vi.fn().mockReturnValue(true);
+      mockCallbacks.onPointerMove = vi.fn();
+      mockCallbacks.onPointerUp = vi.fn().mockReturnValue(true);
+      mockCallbacks.onScrubStart = vi.fn();
+      eventHandler = new EventHandlerManager(mockCanvas, mockCallbacks);
+    });
+
+    it("should report pointer positions and capture accepted pointers", () => {
+      getHandler("pointerdown")(pointer(500, { pointerId: 7 }));
+
+      expect(mockCallbacks.onPointerDown).toHaveBeenCalledWith({
+        progress: 0.5,
+        progressPerPixel: 1 / 800,
+        x: 400,
+        y: 100,
       });
+      expect(mockCanvas.setPointerCapture).toHaveBeenCalledWith(7);
+    });
+
+    it("should only follow the captured pointer", () => {
+      getHandler("pointerdown")(pointer(500));
+      getHandler("pointermove")(pointer(600, { pointerId: 2 }));
+      getHandler("pointermove")(pointer(600));
+
+      expect(mockCallbacks.onPointerMove).toHaveBeenCalledTimes(1);
+      expect(mockCallbacks.onScrubStart).not.toHaveBeenCalled();
+    });
+
+    it("should ignore presses that are not accepted or use other buttons", () => {
+      (mockCallbacks.onPointerDown as any).mockReturnValueOnce(false);
+
+      getHandler("pointerdown")(pointer(500));
+      getHandler("pointerup")(pointer(500));
+      getHandler("pointerdown")(pointer(500, { button: 2 }));
+      getHandler("pointermove")(pointer(600));
+
+      expect(mockCallbacks.onPointerDown).toHaveBeenCalledTimes(1);
+      expect(mockCallbacks.onPointerMove).not.toHaveBeenCalled();
+    });
+
+    it("should not seek after a drag", () => {
+      getHandler("pointerdown")(pointer(500));
+      getHandler("pointerup")(pointer(600));
+
+      expect(mockCallbacks.onSeek).not.toHaveBeenCalled();
+    });
 
-      const touchEvent = new TouchEvent("touchstart", {
-        changedTouches: [
-          {
-            clientX: 300,
-            clientY: 150,
-          } as Touch,
-        ],
+    it("should seek when the gesture was not a drag", () => {
+      (mockCallbacks.onPointerUp as any).mockReturnValueOnce(false);
+
+      tap(500);
+
+      expect(mockCallbacks.onSeek).toHaveBeenCalledWith(0.5);
+    });
+
+    it("should end the drag where it was last seen when cancelled", () => {
+      getHandler("pointerdown")(pointer(500));
+      getHandler("pointermove")(pointer(600));
+      getHandler("pointercancel")(pointer(0));
+
+      expect(mockCallbacks.onPointerUp).toHaveBeenCalledWith(expect.objectContaining({ x: 500 }));
+      expect(mockCallbacks.onSeek).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("hover handling", () => {
+    beforeEach(() => {
+      (mockCanvas as any).setPointerCapture = vi.fn();
+      mockCallbacks.onPointerDown = vi.fn().mockReturnValue(true);
+      mockCallbacks.onPointerMove = vi.fn();
+      mockCallbacks.onPointerUp = vi.fn().mockReturnValue(false);
+      mockCallbacks.onHover = vi.fn();
+      mockCallbacks.onHoverEnd = vi.fn();
+      eventHandler = new EventHandlerManager(mockCanvas, mockCallbacks);
+    });
+
+    it("should report mouse and pen moves as hover", () => {
+      getHandler("pointermove")(pointer(500));
+      getHandler("pointermove")(pointer(300, { pointerType: "pen" }));
+
+      expect(mockCallbacks.onHover).toHaveBeenNthCalledWith(1, {
+        progress: 0.5,
+        progressPerPixel: 1 / 800,
+        x: 400,
+        y: 100,
       });
+      expect(mockCallbacks.onHover).toHaveBeenCalledTimes(2);
+    });
 
-      const touchHandler = (mockCanvas.addEventListener as any).mock.calls.find(
-        (call: any) => call[0] === "touchstart",
-      )[1];
+    it("should not hover with touch or while pressed", () => {
+      getHandler("pointermove")(pointer(500, { pointerType: "touch" }));
+      getHandler("pointerdown")(pointer(500));
+      getHandler("pointermove")(pointer(600));
+      getHandler("pointermove")(pointer(600, { pointerId: 2 }));
 
-      touchHandler(touchEvent);
+      expect(mockCallbacks.onHover).not.toHaveBeenCalled();
+      expect(mockCallbacks.onPointerMove).toHaveBeenCalledTimes(1);
 
-      expect(mockCallbacks.onError).toHaveBeenCalledWith(
-        expect.objectContaining({
-          message: "Touch error",
-        }),
-      );
+      getHandler("pointerup")(pointer(600));
+      getHandler("pointermove")(pointer(650));
+
+      expect(mockCallbacks.onHover).toHaveBeenCalledTimes(1);
+    });
+
+    it("should end hovering when the pointer leaves, unless it is dragging", () => {
+      getHandler("pointerdown")(pointer(500));
+      getHandler("pointerleave")(pointer(1000));
+
+      expect(mockCallbacks.onHoverEnd).not.toHaveBeenCalled();
+
+      getHandler("pointerup")(pointer(1000));
+      getHandler("pointerleave")(pointer(1000));
+
+      expect(mockCallbacks.onHoverEnd).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("gestures", () => {
+    // jsdom has no PointerEvent, so synthetic ones are built on MouseEvent
+    class SyntheticPointerEvent extends MouseEvent {
+      readonly pointerId: number;
+      readonly pointerType: string;
+
+      constructor(type: string, init: PointerEventInit = {}) {
+        super(type, init);
+        this.pointerId = init.pointerId ?? 1;
+        this.pointerType = init.pointerType ?? "mouse";
+      }
+    }
+
+    let canvas: HTMLCanvasElement;
+    const touch = (type: string, clientX: number, pointerId = 1) =>
+      canvas.dispatchEvent(new SyntheticPointerEvent(type, { clientX, clientY: 100, pointerId, pointerType: "touch" }));
+    const wheel = (init: WheelEventInit) =>
+      canvas.dispatchEvent(new WheelEvent("wheel", { cancelable: true, clientX: 200, clientY: 100, ...init }));
+
+    beforeEach(() => {
+      canvas = document.createElement("canvas");
+      canvas.getBoundingClientRect = () => ({ height: 200, left: 0, top: 0, width: 800 }) as DOMRect;
+      mockCallbacks.onPan = vi.fn();
+      mockCallbacks.onScrubEnd = vi.fn();
+      mockCallbacks.onScrubStart = vi.fn();
+      mockCallbacks.onZoom = vi.fn();
+      eventHandler = new EventHandlerManager(canvas, mockCallbacks);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should pinch-zoom around the midpoint and pan with it", () => {
+      touch("pointerdown", 300, 1);
+      touch("pointerdown", 500, 2);
+      touch("pointermove", 700, 2);
+
+      // The midpoint moved from 400px to 500px and the fingers spread twice as far apart
+      expect(mockCallbacks.onPan).toHaveBeenCalledWith(-0.125);
+      expect(mockCallbacks.onZoom).toHaveBeenCalledWith(2, expect.objectContaining({ progress: 0.625, x: 500 }));
+
+      touch("pointerup", 700, 2);
+      touch("pointerup", 300, 1);
+      expect(mockCallbacks.onSeek).not.toHaveBeenCalled();
+    });
+
+    it("should end a scrub when a second finger starts a pinch", () => {
+      touch("pointerdown", 300, 1);
+      touch("pointermove", 320, 1);
+      touch("pointerdown", 500, 2);
+
+      expect(mockCallbacks.onScrubStart).toHaveBeenCalledTimes(1);
+      expect(mockCallbacks.onScrubEnd).toHaveBeenCalledWith(expect.objectContaining({ x: 320 }));
+    });
+
+    it("should keep panning with inertia after a pinch", () => {
+      vi.useFakeTimers({ toFake: ["cancelAnimationFrame", "performance", "requestAnimationFrame"] });
+
+      touch("pointerdown", 300, 1);
+      touch("pointerdown", 500, 2);
+      vi.advanceTimersByTime(16);
+      touch("pointermove", 340, 1);
+      touch("pointermove", 540, 2);
+      touch("pointerup", 540, 2);
+      vi.mocked(mockCallbacks.onPan!).mockClear();
+
+      vi.advanceTimersByTime(100);
+      const deltas = vi.mocked(mockCallbacks.onPan!).mock.calls.map(([delta]) => delta);
+
+      expect(deltas.length).toBeGreaterThan(2);
+      expect(deltas.every(delta => delta < 0)).toBe(true);
+      expect(Math.abs(deltas[deltas.length - 1])).toBeLessThan(Math.abs(deltas[0]));
+
+      // A new press stops the motion
+      touch("pointerdown", 400, 3);
+      vi.mocked(mockCallbacks.onPan!).mockClear();
+      vi.advanceTimersByTime(100);
+      expect(mockCallbacks.onPan).not.toHaveBeenCalled();
+    });
+
+    it("should zoom in on double-tap instead of seeking twice", () => {
+      touch("pointerdown", 400);
+      touch("pointerup", 400);
+      touch("pointerdown", 410);
+      touch("pointerup", 410);
+
+      expect(mockCallbacks.onSeek).toHaveBeenCalledTimes(1);
+      expect(mockCallbacks.onZoom).toHaveBeenCalledWith(2, expect.objectContaining({ x: 410 }));
+    });
+
+    it("should not treat slow or mouse double clicks as double-taps", () => {
+      const now = vi.spyOn(performance, "now").mockReturnValue(0);
+      touch("pointerdown", 400);
+      touch("pointerup", 400);
+      now.mockReturnValue(500);
+      touch("pointerdown", 400);
+      touch("pointerup", 400);
+      now.mockRestore();
+
+      canvas.dispatchEvent(new SyntheticPointerEvent("pointerdown", { clientX: 400, pointerType: "mouse" }));
+      canvas.dispatchEvent(new SyntheticPointerEvent("pointerup", { clientX: 400, pointerType: "mouse" }));
+      canvas.dispatchEvent(new SyntheticPointerEvent("pointerdown", { clientX: 400, pointerType: "mouse" }));
+      canvas.dispatchEvent(new SyntheticPointerEvent("pointerup", { clientX: 400, pointerType: "mouse" }));
+
+      expect(mockCallbacks.onSeek).toHaveBeenCalledTimes(4);
+      expect(mockCallbacks.onZoom).not.toHaveBeenCalled();
+    });
+
+    it("should zoom around the pointer with Ctrl+wheel and trackpad pinches", () => {
+      expect(wheel({ ctrlKey: true, deltaY: -50 })).toBe(false);
+      expect(mockCallbacks.onZoom).toHaveBeenCalledWith(2 ** 0.5, expect.objectContaining({ progress: 0.25 }));
+
+      // Large deltas are capped so a wheel notch zooms gently
+      wheel({ ctrlKey: true, deltaY: 400 });
+      expect(mockCallbacks.onZoom).toHaveBeenLastCalledWith(2 ** -0.5, expect.anything());
+    });
+
+    it("should pan with horizontal and Shift+wheel scrolling", () => {
+      expect(wheel({ deltaX: 40, deltaY: 5 })).toBe(false);
+      expect(mockCallbacks.onPan).toHaveBeenCalledWith(0.05);
+
+      wheel({ deltaY: 80, shiftKey: true });
+      expect(mockCallbacks.onPan).toHaveBeenLastCalledWith(0.1);
+
+      wheel({ deltaMode: 1, deltaX: 2 });
+      expect(mockCallbacks.onPan).toHaveBeenLastCalledWith(0.04);
+    });
+
+    it("should leave vertical scrolling to the page", () => {
+      expect(wheel({ deltaY: 80 })).toBe(true);
+      expect(mockCallbacks.onPan).not.toHaveBeenCalled();
+      expect(mockCallbacks.onZoom).not.toHaveBeenCalled();
     });
   });
 
@@ -428,14 +725,7 @@ describe("EventHandlerManager", () => {
         throw "string error";
       });
 
-      const clickEvent = new MouseEvent("click", {
-        clientX: 300,
-        clientY: 150,
-      });
-
-      const clickHandler = (mockCanvas.addEventListener as any).mock.calls.find((call: any) => call[0] === "click")[1];
-
-      clickHandler(clickEvent);
+      tap(300);
 
       expect(mockCallbacks.onError).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -450,14 +740,7 @@ describe("EventHandlerManager", () => {
         throw originalError;
       });
 
-      const clickEvent = new MouseEvent("click", {
-        clientX: 300,
-        clientY: 150,
-      });
-
-      const clickHandler = (mockCanvas.addEventListener as any).mock.calls.find((call: any) => call[0] === "click")[1];
-
-      clickHandler(clickEvent);
+      tap(300);
 
       expect(mockCallbacks.onError).toHaveBeenCalledWith(originalError);
     });
@@ -477,14 +760,8 @@ describe("EventHandlerManager", () => {
         height: 150,
       });
 
-      const clickEvent = new MouseEvent("click", {
-        clientX: 500, // 500 - 200 = 300px from left edge
-        clientY: 150,
-      });
-
-      const clickHandler = (mockCanvas.addEventListener as any).mock.calls.find((call: any) => call[0] === "click")[1];
-
-      clickHandler(clickEvent);
+      // 500 - 200 = 300px from left edge
+      tap(500);
 
       // Progress should be (500 - 200) / 600 = 0.5
       expect(mockCallbacks.onSeek).toHaveBeenCalledWith(0.5);
@@ -498,28 +775,15 @@ describe("EventHandlerManager", () => {
         height: 200,
       });
 
-      const clickEvent = new MouseEvent("click", {
-        clientX: 150,
-        clientY: 150,
-      });
-
-      const clickHandler = (mockCanvas.addEventListener as any).mock.calls.find((call: any) => call[0] === "click")[1];
-
-      clickHandler(clickEvent);
+      tap(150);
 
       // Should handle division by zero gracefully
       expect(mockCallbacks.onSeek).toHaveBeenCalledWith(expect.any(Number));
     });
 
     it("should handle fractional pixel positions", () => {
-      const clickEvent = new MouseEvent("click", {
-        clientX: 350.5, // Fractional position
-        clientY: 150,
-      });
-
-      const clickHandler = (mockCanvas.addEventListener as any).mock.calls.find((call: any) => call[0] === "click")[1];
-
-      clickHandler(clickEvent);
+      // Fractional position
+      tap(350.5);
 
       // Progress should be (350.5 - 100) / 800 = 0.313125
       expect(mockCallbacks.onSeek).toHaveBeenCalledWith(0.313125);
@@ -533,13 +797,14 @@ describe("EventHandlerManager", () => {
       eventHandler.destroy();
       eventHandler.destroy(); // Second call should not throw
 
-      // removeEventListener called 2 times per destroy (click + touchstart) = 4 total
-      expect(mockCanvas.removeEventListener).toHaveBeenCalledTimes(4);
+      // removeEventListener called 6 times per destroy (five pointer events and wheel) = 12 total
+      expect(mockCanvas.removeEventListener).toHaveBeenCalledTimes(12);
       expect(mockDisconnect).toHaveBeenCalledTimes(2);
     });
 
     it("should handle canvas without getBoundingClientRect", () => {
       const brokenCanvas = {
+        style: {},
         addEventListener: vi.fn(),
         removeEventListener: vi.fn(),
         getBoundingClientRect: undefined,
@@ -547,16 +812,7 @@ describe("EventHandlerManager", () => {
 
       eventHandler = new EventHandlerManager(brokenCanvas, mockCallbacks);
 
-      const clickEvent = new MouseEvent("click", {
-        clientX: 300,
-        clientY: 150,
-      });
-
-      const clickHandler = (brokenCanvas.addEventListener as any).mock.calls.find(
-        (call: any) => call[0] === "click",
-      )[1];
-
-      expect(() => clickHandler(clickEvent)).not.toThrow();
+      expect(() => tap(300, {}, brokenCanvas)).not.toThrow();
       expect(mockCallbacks.onError).toHaveBeenCalled();
     });
 
@@ -567,14 +823,7 @@ describe("EventHandlerManager", () => {
 
       eventHandler = new EventHandlerManager(mockCanvas, mockCallbacks);
 
-      const clickEvent = new MouseEvent("click", {
-        clientX: 300,
-        clientY: 150,
-      });
-
-      const clickHandler = (mockCanvas.addEventListener as any).mock.calls.find((call: any) => call[0] === "click")[1];
-
-      expect(() => clickHandler(clickEvent)).not.toThrow();
+      expect(() => tap(300)).not.toThrow();
       expect(mockCallbacks.onError).toHaveBeenCalledWith(
         expect.objectContaining({
           message: "Callback error",
@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { MarkerManager } from "../src/marker-manager";
+import type { MarkerCallbacks, MarkerFlag, PointerPosition } from "../src/types";
+
+// 1000px canvas showing the whole waveform
+const at = (progress: number, y = 100): PointerPosition => ({
+  progress,
+  progressPerPixel: 0.001,
+  x: progress * 1000,
+  y,
+});
+
+describe("MarkerManager", () => {
+  let manager: MarkerManager;
+  let callbacks: MarkerCallbacks;
+  let flags: MarkerFlag[];
+
+  beforeEach(() => {
+    flags = [];
+    callbacks = {
+      getFlags: () => flags,
+      onChange: vi.fn(),
+      onClick: vi.fn(),
+      onMove: vi.fn(),
+    };
+    manager = new MarkerManager(callbacks);
+  });
+
+  describe("marker state", () => {
+    it("should add markers with generated ids", () => {
+      expect(manager.add({ position: 0.25, label: "Cue" })).toEqual({ id: "marker-1", position: 0.25, label: "Cue" });
+      expect(manager.add({ position: 0.5 }).id).toBe("marker-2");
+      expect(callbacks.onChange).toHaveBeenCalledTimes(2);
+    });
+
+    it("should reject duplicate ids and missing markers", () => {
+      manager.add({ id: "a", position: 0.1 });
+
+      expect(() => manager.add({ id: "a", position: 0.2 })).toThrow('A marker with id "a" already exists');
+      expect(() => manager.remove("b")).toThrow("Marker not found: b");
+    });
+
+    it("should return copies of the stored markers", () => {
+      manager.add({ id: "a", position: 0.1, style: { color: "red" } });
+
+      manager.getMarkers()[0].style!.color = "blue";
+
+      expect(manager.getMarkers()[0].style).toEqual({ color: "red" });
+    });
+
+    it("should keep the previous markers when a replacement is invalid", () => {
+      manager.add({ id: "a", position: 0.1 });
+
+      expect(() => manager.set([{ position: 0.2 }, { position: 2 }])).toThrow();
+      expect(manager.getMarkers().map(marker => marker.id)).toEqual(["a"]);
+
+      manager.set([{ position: 0.2 }, { position: 0.3 }]);
+      expect(manager.getMarkers()).toHaveLength(2);
+    });
+  });
+
+  describe("hit testing", () => {
+    it("should find markers near their line", () => {
+      manager.add({ id: "a", position: 0.5 });
+
+      expect(manager.hitTest(at(0.503))?.id).toBe("a");
+      expect(manager.hitTest(at(0.51))).toBeNull();
+    });
+
+    it("should find markers by their flag first", () => {
+      manager.add({ id: "a", position: 0.5 });
+      manager.add({ id: "b", position: 0.52 });
+      flags = [{ id: "a", x: 500, y: 0, width: 60, height: 16 }];
+
+      expect(manager.hitTest(at(0.52, 8))?.id).toBe("a");
+      expect(manager.hitTest(at(0.52, 30))?.id).toBe("b");
+    });
+  });
+
+  describe("pointer gestures", () => {
+    it("should only handle presses on markers", () => {
+      manager.add({ position: 0.5 });
+
+      expect(manager.handlePointerDown(at(0.2))).toBe(false);
+      expect(manager.handlePointerDown(at(0.5))).toBe(true);
+    });
+
+    it("should report clicks without swallowing them", () => {
+      manager.add({ id: "a", position: 0.5, draggable: true });
+
+      manager.handlePointerDown(at(0.5));
+
+      expect(manager.handlePointerUp(at(0.501))).toBe(false);
+      expect(callbacks.onClick).toHaveBeenCalledWith({ id: "a", position: 0.5, draggable: true });
+    });
+
+    it("should move draggable markers", () => {
+      manager.add({ id: "a", position: 0.5, draggable: true });
+
+      manager.handlePointerDown(at(0.502));
+      manager.handlePointerMove(at(0.6));
+      expect(manager.getMarkers()[0].position).toBeCloseTo(0.598);
+
+      expect(manager.handlePointerUp(at(1.2))).toBe(true);
+      expect(callbacks.onMove).toHaveBeenCalledWith({ id: "a", position: 1, draggable: true });
+    });
+
+    it("should not move markers that are not draggable", () => {
+      manager.add({ id: "a", position: 0.5 });
+
+      manager.handlePointerDown(at(0.5));
+
+      expect(manager.handlePointerUp(at(0.7))).toBe(false);
+      expect(manager.getMarkers()[0].position).toBe(0.5);
+      expect(callbacks.onMove).not.toHaveBeenCalled();
+    });
+  });
+});
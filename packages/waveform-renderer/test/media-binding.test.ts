@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { MediaBinding } from "../src/media-binding";
+import type { MediaCallbacks } from "../src/types";
+
+interface FakeMedia extends EventTarget {
+  buffered: TimeRanges;
+  currentTime: number;
+  duration: number;
+  ended: boolean;
+  paused: boolean;
+  playbackRate: number;
+  seeking: boolean;
+}
+
+const timeRanges = (ranges: [number, number][]): TimeRanges => ({
+  end: (index: number) => ranges[index][1],
+  length: ranges.length,
+  start: (index: number) => ranges[index][0],
+});
+
+describe("MediaBinding", () => {
+  let media: FakeMedia;
+  let callbacks: MediaCallbacks;
+  let binding: MediaBinding;
+
+  const fire = (type: string, changes: Partial<FakeMedia> = {}) => {
+    Object.assign(media, changes);
+    media.dispatchEvent(new Event(type));
+  };
+  const bind = () => new MediaBinding(media as unknown as HTMLMediaElement, callbacks);
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["cancelAnimationFrame", "performance", "requestAnimationFrame"] });
+
+    media = Object.assign(new EventTarget(), {
+      buffered: timeRanges([]),
+      currentTime: 0,
+      duration: 100,
+      ended: false,
+      paused: true,
+      playbackRate: 1,
+      seeking: false,
+    });
+    callbacks = {
+      onBufferedChange: vi.fn(),
+      onDurationChange: vi.fn(),
+      onProgress: vi.fn(),
+    };
+    binding = bind();
+  });
+
+  afterEach(() => {
+    binding.destroy();
+    vi.useRealTimers();
+  });
+
+  describe("state", () => {
+    it("should report the media's state when attached", () => {
+      binding.destroy();
+      Object.assign(media, { buffered: timeRanges([[0, 40]]), currentTime: 25 });
+      vi.mocked(callbacks.onProgress).mockClear();
+
+      binding = bind();
+
+      expect(callbacks.onDurationChange).toHaveBeenLastCalledWith(100);
+      expect(callbacks.onBufferedChange).toHaveBeenLastCalledWith(media.buffered);
+      expect(callbacks.onProgress).toHaveBeenCalledWith(0.25);
+    });
+
+    it("should wait for the duration", () => {
+      binding.destroy();
+      vi.mocked(callbacks.onDurationChange).mockClear();
+      vi.mocked(callbacks.onProgress).mockClear();
+      media.duration = NaN;
+
+      binding = bind();
+      expect(callbacks.onDurationChange).not.toHaveBeenCalled();
+      expect(callbacks.onProgress).not.toHaveBeenCalled();
+
+      fire("loadedmetadata", { duration: 50 });
+      expect(callbacks.onDurationChange).toHaveBeenCalledWith(50);
+      expect(callbacks.onProgress).toHaveBeenCalledWith(0);
+    });
+
+    it("should follow timeupdate and buffering progress", () => {
+      fire("timeupdate", { currentTime: 10 });
+      expect(callbacks.onProgress).toHaveBeenLastCalledWith(0.1);
+
+      const buffered = timeRanges([
+        [0, 20],
+        [50, 100],
+      ]);
+      fire("progress", { buffered });
+      expect(callbacks.onBufferedChange).toHaveBeenLastCalledWith(buffered);
+    });
+
+    it("should clear the buffered ranges when the media is emptied", () => {
+      fire("emptied");
+
+      expect(callbacks.onBufferedChange).toHaveBeenLastCalledWith([]);
+    });
+  });
+
+  describe("playback", () => {
+    it("should interpolate the playhead between timeupdate events", () => {
+      fire("playing", { currentTime: 10, paused: false });
+
+      vi.advanceTimersByTime(500);
+      expect(vi.mocked(callbacks.onProgress).mock.lastCall![0]).toBeCloseTo(0.105, 3);
+
+      fire("timeupdate", { currentTime: 10.25 });
+      vi.advanceTimersByTime(250);
+      expect(vi.mocked(callbacks.onProgress).mock.lastCall![0]).toBeCloseTo(0.105, 3);
+    });
+
+    it("should respect the playback rate", () => {
+      fire("playing", { currentTime: 10, paused: false });
+      fire("ratechange", { playbackRate: 2 });
+
+      vi.advanceTimersByTime(1000);
+      expect(vi.mocked(callbacks.onProgress).mock.lastCall![0]).toBeCloseTo(0.12, 3);
+    });
+
+    it("should stop interpolating when playback stops", () => {
+      fire("playing", { currentTime: 10, paused: false });
+      fire("pause", { currentTime: 10.1, paused: true });
+      vi.mocked(callbacks.onProgress).mockClear();
+
+      vi.advanceTimersByTime(1000);
+      expect(callbacks.onProgress).not.toHaveBeenCalled();
+
+      fire("playing", { paused: false });
+      fire("waiting");
+      vi.mocked(callbacks.onProgress).mockClear();
+      vi.advanceTimersByTime(1000);
+      expect(callbacks.onProgress).not.toHaveBeenCalled();
+    });
+
+    it("should never run past the end", () => {
+      fire("playing", { currentTime: 99.9, paused: false });
+
+      vi.advanceTimersByTime(1000);
+      expect(callbacks.onProgress).toHaveBeenLastCalledWith(1);
+    });
+
+    it("should resume after seeking while playing", () => {
+      fire("playing", { paused: false });
+      fire("seeking", { seeking: true });
+      fire("seeked", { currentTime: 60, seeking: false });
+
+      vi.advanceTimersByTime(1000);
+      expect(vi.mocked(callbacks.onProgress).mock.lastCall![0]).toBeCloseTo(0.61, 3);
+    });
+  });
+
+  describe("seeking", () => {
+    it("should write seeks back to the media", () => {
+      binding.seek(0.75);
+
+      expect(media.currentTime).toBe(75);
+      expect(callbacks.onProgress).toHaveBeenLastCalledWith(0.75);
+    });
+
+    it("should ignore seeks until the duration is known", () => {
+      media.duration = Infinity;
+
+      binding.seek(0.75);
+
+      expect(media.currentTime).toBe(0);
+    });
+  });
+
+  it("should remove every listener and stop the frame loop on destroy", () => {
+    const removeEventListener = vi.spyOn(media, "removeEventListener");
+    fire("playing", { paused: false });
+
+    binding.destroy();
+    vi.mocked(callbacks.onProgress).mockClear();
+    fire("timeupdate", { currentTime: 50 });
+    vi.advanceTimersByTime(1000);
+
+    expect(removeEventListener).toHaveBeenCalledTimes(12);
+    expect(callbacks.onProgress).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { PeakPyramid } from "../src/peak-pyramid";
+import type { MinMaxPeaks } from "../src/types";
+
+function createMockAudioBuffer(channels: Float32Array[]): AudioBuffer {
+  return {
+    getChannelData: vi.fn((channel: number) => channels[channel]),
+    length: channels[0].length,
+    numberOfChannels: channels.length,
+    sampleRate: 44100,
+  } as unknown as AudioBuffer;
+}
+
+describe("PeakPyramid", () => {
+  describe("fromAudioBuffer", () => {
+    it("should build base buckets from samplesPerPeak", () => {
+      const buffer = createMockAudioBuffer([new Float32Array([0.5, -0.25, 0.1, -1, 0.2, 0.3, 0, 0])]);
+
+      const pyramid = PeakPyramid.fromAudioBuffer(buffer, { samplesPerPeak: 2 });
+
+      expect(pyramid.length).toBe(4);
+      expect(pyramid.signed).toBe(true);
+      const peaks = pyramid.getPeaks(4) as MinMaxPeaks;
+      expect(peaks.min).toEqual([-0.25, -1, Math.fround(0.2), 0]);
+      expect(peaks.max[0]).toBeCloseTo(0.5);
+      expect(peaks.max[1]).toBeCloseTo(0.1);
+      expect(peaks.max[2]).toBeCloseTo(0.3);
+    });
+
+    it("should keep the offset of a signal on one side of zero", () => {
+      const buffer = createMockAudioBuffer([new Float32Array([0.2, 0.5, 0.3, 0.4, 0.25, 0.45, 0.35, 0.3])]);
+
+      const pyramid = PeakPyramid.fromAudioBuffer(buffer, { samplesPerPeak: 2 });
+      const base = pyramid.getPeaks(4) as MinMaxPeaks;
+      const summary = pyramid.getPeaks(1) as MinMaxPeaks;
+
+      expect(base.min.every(value => value > 0)).toBe(true);
+      expect(summary.min[0]).toBeCloseTo(0.2);
+      expect(summary.max[0]).toBeCloseTo(0.5);
+    });
+
+    it("should create levels down to a single bucket", () => {
+      const buffer = createMockAudioBuffer([new Float32Array(1024).fill(0.5)]);
+
+      const pyramid = PeakPyramid.fromAudioBuffer(buffer, { samplesPerPeak: 16 });
+
+      // 64 base buckets: 64, 32, 16, 8, 4, 2, 1
+      expect(pyramid.levelCount).toBe(7);
+    });
+
+    it("should only read the first channel by default", () => {
+      const buffer = createMockAudioBuffer([new Float32Array([0.5, 0.5]), new Float32Array([1, 1])]);
+
+      const pyramid = PeakPyramid.fromAudioBuffer(buffer, { samplesPerPeak: 1 });
+
+      expect(pyramid.channelCount).toBe(1);
+      expect(buffer.getChannelData).not.toHaveBeenCalledWith(1);
+    });
+
+    it("should keep every channel on a shared scale when requested", () => {
+      const buffer = createMockAudioBuffer([new Float32Array([0.5, 0.5]), new Float32Array([1, 1])]);
+
+      const pyramid = PeakPyramid.fromAudioBuffer(buffer, { allChannels: true, samplesPerPeak: 1 });
+      const [left, right] = pyramid.getPeaks(1) as MinMaxPeaks[];
+
+      expect(pyramid.channelCount).toBe(2);
+      expect(left.max).toEqual([0.5]);
+      expect(right.max).toEqual([1]);
+    });
+  });
+
+  describe("fromPeaks", () => {
+    it("should keep unsigned peaks unsigned", () => {
+      const pyramid = PeakPyramid.fromPeaks([0.25, 0.5, 1, 0.75]);
+
+      expect(pyramid.signed).toBe(false);
+      expect(pyramid.getPeaks(2)).toEqual([0.5, 1]);
+    });
+
+    it("should keep min/max peaks signed", () => {
+      const pyramid = PeakPyramid.fromPeaks({ min: [-0.5, -0.25], max: [0.25, 1] });
+
+      expect(pyramid.getPeaks(1)).toEqual({ min: [-0.5], max: [1] });
+    });
+
+    it("should not mutate the source peaks", () => {
+      const peaks = [2, 4];
+
+      PeakPyramid.fromPeaks(peaks);
+
+      expect(peaks).toEqual([2, 4]);
+    });
+
+    it("should reject empty peaks", () => {
+      expect(() => PeakPyramid.fromPeaks([])).toThrow("Peaks array must not be empty");
+      expect(() => PeakPyramid.fromPeaks({ min: [], max: [] })).toThrow("Peaks array must not be empty");
+      expect(() => PeakPyramid.fromPeaks([[0.5], []])).toThrow("Peaks array must not be empty");
+    });
+
+    it("should assign a unique id to each pyramid", () => {
+      expect(PeakPyramid.fromPeaks([0.5]).id).not.toBe(PeakPyramid.fromPeaks([0.5]).id);
+    });
+  });
+
+  describe("getLevelIndex", () => {
+    const pyramid = PeakPyramid.fromPeaks(Array.from({ length: 1024 }, () => 0.5));
+
+    it("should use the base level when bars outnumber buckets", () => {
+      expect(pyramid.getLevelIndex(2048)).toBe(0);
+      expect(pyramid.getLevelIndex(1024)).toBe(0);
+    });
+
+    it("should pick the coarsest level with at least one bucket per bar", () => {
+      expect(pyramid.getLevelIndex(256)).toBe(2);
+      expect(pyramid.getLevelIndex(200)).toBe(2);
+      expect(pyramid.getLevelIndex(1)).toBe(10);
+    });
+
+    it("should account for the visible range", () => {
+      expect(pyramid.getLevelIndex(256, 0, 0.25)).toBe(0);
+    });
+  });
+
+  describe("getPeaks", () => {
+    it("should keep transients that fall between bars", () => {
+      const peaks = Array.from({ length: 1000 }, () => 0.1);
+      peaks[503] = 1;
+
+      const pyramid = PeakPyramid.fromPeaks(peaks);
+      const bars = pyramid.getPeaks(10) as number[];
+
+      expect(bars[5]).toBe(1);
+      expect(bars.filter(value => value === 1)).toHaveLength(1);
+    });
+
+    it("should summarize a sub-range", () => {
+      const pyramid = PeakPyramid.fromPeaks([0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8]);
+
+      const bars = pyramid.getPeaks(2, 0.5, 1) as number[];
+
+      expect(bars[0]).toBeCloseTo(0.6);
+      expect(bars[1]).toBeCloseTo(0.8);
+    });
+
+    it("should repeat buckets when more bars than buckets are requested", () => {
+      const pyramid = PeakPyramid.fromPeaks([0.25, 1]);
+
+      expect(pyramid.getPeaks(4)).toEqual([0.25, 0.25, 1, 1]);
+    });
+
+    it("should return one entry per channel for multi-channel pyramids", () => {
+      const pyramid = PeakPyramid.fromPeaks([
+        [0.5, 0.5],
+        [1, 1],
+      ]);
+
+      expect(pyramid.getPeaks(1)).toEqual([[0.5], [1]]);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { RegionManager } from "../src/region-manager";
+import type { PointerPosition, RegionCallbacks } from "../src/types";
+
+// 1000px canvas showing the whole waveform
+const at = (progress: number): PointerPosition => ({
+  progress,
+  progressPerPixel: 0.001,
+  x: progress * 1000,
+  y: 50,
+});
+
+describe("RegionManager", () => {
+  let manager: RegionManager;
+  let callbacks: RegionCallbacks;
+
+  beforeEach(() => {
+    callbacks = {
+      onChange: vi.fn(),
+      onClick: vi.fn(),
+      onCreate: vi.fn(),
+      onUpdate: vi.fn(),
+    };
+    manager = new RegionManager(callbacks);
+  });
+
+  describe("region state", () => {
+    it("should add regions with generated ids", () => {
+      const region = manager.add({ start: 0.1, end: 0.2, label: "Intro" });
+
+      expect(region).toEqual({ id: "region-1", start: 0.1, end: 0.2, label: "Intro" });
+      expect(manager.add({ start: 0.3, end: 0.4 }).id).toBe("region-2");
+      expect(callbacks.onChange).toHaveBeenCalledTimes(2);
+    });
+
+    it("should skip generated ids that are already taken", () => {
+      manager.add({ id: "region-1", start: 0, end: 0.1 });
+
+      expect(manager.add({ start: 0.2, end: 0.3 }).id).toBe("region-2");
+    });
+
+    it("should reject duplicate ids and invalid ranges", () => {
+      manager.add({ id: "a", start: 0, end: 0.1 });
+
+      expect(() => manager.add({ id: "a", start: 0, end: 0.1 })).toThrow('A region with id "a" already exists');
+      expect(() => manager.add({ start: 0.5, end: 0.4 })).toThrow("Region end must not be before its start");
+      expect(() => manager.add({ start: -0.1, end: 0.4 })).toThrow("Region start and end must be between 0 and 1");
+    });
+
+    it("should return copies of the stored regions", () => {
+      manager.add({ id: "a", start: 0, end: 0.1 });
+
+      manager.getRegions()[0].start = 0.05;
+
+      expect(manager.getRegions()[0].start).toBe(0);
+    });
+
+    it("should update and remove regions by id", () => {
+      manager.add({ id: "a", start: 0, end: 0.1, color: "red" });
+
+      expect(manager.update("a", { end: 0.5 })).toEqual({ id: "a", start: 0, end: 0.5, color: "red" });
+
+      manager.remove("a");
+      expect(manager.getRegions()).toEqual([]);
+      expect(() => manager.remove("a")).toThrow("Region not found: a");
+      expect(() => manager.update("a", { end: 1 })).toThrow("Region not found: a");
+    });
+
+    it("should keep the previous regions when a replacement is invalid", () => {
+      manager.add({ id: "a", start: 0, end: 0.1 });
+
+      expect(() =>
+        manager.set([
+          { start: 0.2, end: 0.3 },
+          { start: 0.5, end: 0.4 },
+        ]),
+      ).toThrow();
+      expect(manager.getRegions().map(region => region.id)).toEqual(["a"]);
+    });
+  });
+
+  describe("pointer gestures", () => {
+    it("should ignore presses outside regions unless creating on drag", () => {
+      manager.add({ start: 0.4, end: 0.6 });
+
+      expect(manager.handlePointerDown(at(0.1), false)).toBe(false);
+      expect(manager.handlePointerDown(at(0.1), true)).toBe(true);
+    });
+
+    it("should create a region by dragging over empty space", () => {
+      manager.handlePointerDown(at(0.5), true);
+      manager.handlePointerMove(at(0.3));
+
+      expect(manager.getRegions()).toEqual([{ id: "region-1", start: 0.3, end: 0.5 }]);
+      expect(callbacks.onCreate).not.toHaveBeenCalled();
+
+      expect(manager.handlePointerUp(at(0.25))).toBe(true);
+      expect(callbacks.onCreate).toHaveBeenCalledWith({ id: "region-1", start: 0.25, end: 0.5 });
+    });
+
+    it("should not create a region for movements below the drag threshold", () => {
+      manager.handlePointerDown(at(0.5), true);
+
+      expect(manager.handlePointerUp(at(0.502))).toBe(false);
+      expect(manager.getRegions()).toEqual([]);
+    });
+
+    it("should move regions while keeping their length inside the waveform", () => {
+      manager.add({ id: "a", start: 0.4, end: 0.6 });
+
+      manager.handlePointerDown(at(0.5), false);
+      manager.handlePointerMove(at(0.6));
+      expect(manager.getRegions()[0]).toMatchObject({ start: 0.5, end: 0.7 });
+
+      manager.handlePointerUp(at(0.9));
+      expect(manager.getRegions()[0].start).toBeCloseTo(0.8);
+      expect(manager.getRegions()[0].end).toBeCloseTo(1);
+      expect(callbacks.onUpdate).toHaveBeenCalledTimes(1);
+    });
+
+    it("should resize from the nearest edge", () => {
+      manager.add({ id: "a", start: 0.4, end: 0.6 });
+
+      manager.handlePointerDown(at(0.597), false);
+      manager.handlePointerUp(at(0.7));
+
+      expect(manager.getRegions()[0]).toMatchObject({ start: 0.4, end: 0.7 });
+    });
+
+    it("should flip a region when an edge is dragged past the other one", () => {
+      manager.add({ id: "a", start: 0.4, end: 0.6 });
+
+      manager.handlePointerDown(at(0.4), false);
+      manager.handlePointerUp(at(0.8));
+
+      expect(manager.getRegions()[0]).toMatchObject({ start: 0.6, end: 0.8 });
+    });
+
+    it("should respect draggable and resizable flags", () => {
+      manager.add({ id: "a", start: 0.4, end: 0.6, draggable: false, resizable: false });
+
+      manager.handlePointerDown(at(0.4), false);
+      manager.handlePointerUp(at(0.5));
+      manager.handlePointerDown(at(0.5), false);
+      manager.handlePointerUp(at(0.7));
+
+      expect(manager.getRegions()[0]).toMatchObject({ start: 0.4, end: 0.6 });
+      expect(callbacks.onUpdate).not.toHaveBeenCalled();
+    });
+
+    it("should report clicks on regions without swallowing them", () => {
+      manager.add({ id: "a", start: 0.4, end: 0.6 });
+      manager.add({ id: "b", start: 0.45, end: 0.55 });
+
+      manager.handlePointerDown(at(0.5), true);
+
+      expect(manager.handlePointerUp(at(0.5))).toBe(false);
+      expect(callbacks.onClick).toHaveBeenCalledWith({ id: "b", start: 0.45, end: 0.55 });
+    });
+
+    it("should drop the gesture when its region is removed", () => {
+      manager.add({ id: "a", start: 0.4, end: 0.6 });
+      manager.handlePointerDown(at(0.5), false);
+
+      manager.remove("a");
+
+      expect(manager.handlePointerUp(at(0.7))).toBe(false);
+      expect(manager.getRegions()).toEqual([]);
+    });
+  });
+});
@@ -1,7 +1,10 @@
 import { beforeEach, describe, expect, it, vi, afterEach } from "vitest";
 import type { WaveformOptions, ProgressLineOptions } from "../src/types";
 
+import { DEFAULT_OPTIONS } from "../src/constants";
+import { PeakPyramid } from "../src/peak-pyramid";
 import WaveformRenderer from "../src/renderer";
+import { parseAudiowaveformJson } from "../src/utils/audiowaveform";
 
 // Mock canvas and DOM globals
 const mockCanvas = {
@@ -16,6 +19,11 @@ const mockCanvas = {
   })),
   addEventListener: vi.fn(),
   removeEventListener: vi.fn(),
+  getAttribute: vi.fn(() => null),
+  setAttribute: vi.fn(),
+  removeAttribute: vi.fn(),
+  focus: vi.fn(),
+  style: {},
 } as unknown as HTMLCanvasElement;
 
 const mockContext = {
@@ -90,7 +98,7 @@ describe("WaveformRenderer", () => {
     vi.spyOn(console, "log").mockImplementation(() => {});
     vi.spyOn(console, "error").mockImplementation(() => {});
 
-    canvas = { ...mockCanvas };
+    canvas = { ...mockCanvas, style: {} } as unknown as HTMLCanvasElement;
     canvas.getContext = vi.fn().mockReturnValue(mockContext);
 
     peaks = [0.1, 0.5, 0.8, 0.3, 0.9, 0.2, 0.7, 0.4, 0.6, 0.1];
@@ -126,6 +134,18 @@ describe("WaveformRenderer", () => {
       }).toThrow();
     });
 
+    it("should accept min/max peak pairs", () => {
+      renderer = new WaveformRenderer(canvas, { min: [-0.5, -1], max: [0.3, 0.8] });
+
+      expect(renderer["peaks"]).toEqual({ min: [-0.5, -1], max: [0.3, 0.8] });
+    });
+
+    it("should throw error for empty min/max peaks", () => {
+      expect(() => {
+        new WaveformRenderer(canvas, { min: [], max: [] });
+      }).toThrow();
+    });
+
     it("should throw error for invalid peaks", () => {
       expect(() => {
         new WaveformRenderer(canvas, null as any);
@@ -276,6 +296,106 @@ describe("WaveformRenderer", () => {
 
       expect(invalidateSpy).toHaveBeenCalled();
     });
+
+    it("should accept min/max peak pairs", () => {
+      const minMaxPeaks = { min: [-0.2, -1], max: [0.4, 0.1] };
+
+      renderer.setPeaks(minMaxPeaks);
+
+      expect(renderer["peaks"]).toEqual(minMaxPeaks);
+      expect(renderer["peaks"]).not.toBe(minMaxPeaks);
+    });
+
+    it("should accept a peak pyramid as is", () => {
+      const pyramid = PeakPyramid.fromPeaks([0.2, 0.4, 0.6, 0.8]);
+
+      renderer.setPeaks(pyramid);
+
+      expect(renderer["peaks"]).toBe(pyramid);
+    });
+
+    it("should draw a pyramid as built whatever the normalization", () => {
+      const pyramid = PeakPyramid.fromPeaks([0.1, 0.2]);
+      renderer.setOptions({ normalize: "none" });
+
+      renderer.setPeaks(pyramid);
+      renderer.setOptions({ normalize: { type: "fixed", ceiling: 2 } });
+
+      expect(renderer["peaks"]).toBe(pyramid);
+      expect(pyramid.getPeaks(2)).toEqual([Math.fround(0.1), Math.fround(0.2)]);
+    });
+
+    it("should accept one peaks array per channel", () => {
+      const channels = [
+        [0.2, 0.4],
+        [0.1, 1],
+      ];
+
+      renderer.setPeaks(channels);
+
+      expect(renderer["peaks"]).toEqual(channels);
+      expect((renderer["peaks"] as number[][])[0]).not.toBe(channels[0]);
+    });
+
+    it("should normalize channels on a shared scale", () => {
+      renderer.setPeaks([
+        [1, 2],
+        [0.5, 1],
+      ]);
+
+      expect(renderer["peaks"]).toEqual([
+        [0.5, 1],
+        [0.25, 0.5],
+      ]);
+    });
+
+    it("should handle error for channels with different lengths", () => {
+      const errorHandler = vi.fn();
+      (renderer as any).on("error", errorHandler);
+
+      renderer.setPeaks([[0.2, 0.4], [0.1]]);
+
+      expect(errorHandler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: "All channels must have the same number of peaks",
+        }),
+      );
+    });
+
+    it("should copy RMS values along with min/max peaks", () => {
+      const minMaxPeaks = { min: [-1], max: [0.5], rms: [0.25] };
+
+      renderer.setPeaks(minMaxPeaks);
+
+      expect(renderer["peaks"]).toEqual(minMaxPeaks);
+      expect((renderer["peaks"] as any).rms).not.toBe(minMaxPeaks.rms);
+    });
+
+    it("should handle error for RMS arrays with a different length", () => {
+      const errorHandler = vi.fn();
+      (renderer as any).on("error", errorHandler);
+
+      renderer.setPeaks({ min: [-0.5, -0.2], max: [0.5, 0.2], rms: [0.1] });
+
+      expect(errorHandler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: "RMS array must have the same length as the peak arrays",
+        }),
+      );
+    });
+
+    it("should handle error for mismatched min/max lengths", () => {
+      const errorHandler = vi.fn();
+      (renderer as any).on("error", errorHandler);
+
+      renderer.setPeaks({ min: [-0.2], max: [0.4, 0.1] });
+
+      expect(errorHandler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: "Min and max peak arrays must have the same length",
+        }),
+      );
+    });
   });
 
   describe("setProgress", () => {
@@ -321,6 +441,433 @@ describe("WaveformRenderer", () => {
     });
   });
 
+  describe("appendPeaks", () => {
+    beforeEach(() => {
+      renderer = new WaveformRenderer(canvas, [0.1, 1]);
+      renderer["lastRenderTime"] = -Infinity;
+      vi.spyOn(renderer["cacheManager"], "createStaticPath").mockReturnValue(undefined as unknown as Path2D);
+    });
+
+    it("should append peaks to the end of the waveform", () => {
+      renderer.appendPeaks([0.8, 0.3], 8);
+
+      expect(renderer["peaks"]).toEqual([0.1, 1, 0.8, 0.3]);
+      expect(renderer["totalLength"]).toBe(8);
+    });
+
+    it("should append min/max peaks per channel", () => {
+      renderer.setPeaks([
+        { min: [-0.1], max: [0.2] },
+        { min: [-0.3], max: [1] },
+      ]);
+
+      renderer.appendPeaks([
+        { min: [-0.5], max: [0.6] },
+        { min: [-0.7], max: [0.8] },
+      ]);
+
+      expect(renderer["peaks"]).toEqual([
+        { min: [-0.1, -0.5], max: [0.2, 0.6] },
+        { min: [-0.3, -0.7], max: [1, 0.8] },
+      ]);
+    });
+
+    it("should not mutate the appended chunk", () => {
+      const chunk = [0.8, 0.3];
+
+      renderer.appendPeaks(chunk);
+      renderer.appendPeaks([0.2]);
+
+      expect(chunk).toEqual([0.8, 0.3]);
+    });
+
+    it("should extend the cache instead of invalidating it", () => {
+      const extendSpy = vi.spyOn(renderer["cacheManager"], "extend").mockReturnValue({ start: 10, end: 20 });
+      const invalidateSpy = vi.spyOn(renderer["cacheManager"], "invalidate");
+
+      renderer.appendPeaks([0.8], 8);
+
+      expect(extendSpy).toHaveBeenCalledWith(renderer["peaks"], renderer["options"], 8);
+      expect(invalidateSpy).not.toHaveBeenCalled();
+      expect(renderer["dirtyRegion"]).toEqual({ start: 10, end: 20 });
+    });
+
+    it("should merge the regions of appends between two renders", () => {
+      vi.spyOn(renderer["cacheManager"], "extend")
+        .mockReturnValueOnce({ start: 10, end: 20 })
+        .mockReturnValueOnce({ start: 20, end: 30 });
+
+      renderer.appendPeaks([0.8], 8);
+      renderer.appendPeaks([0.6], 8);
+
+      expect(renderer["dirtyRegion"]).toEqual({ start: 10, end: 30 });
+    });
+
+    it("should invalidate the cache when it cannot be extended", () => {
+      vi.spyOn(renderer["cacheManager"], "extend").mockReturnValue(null);
+      const invalidateSpy = vi.spyOn(renderer["cacheManager"], "invalidate");
+
+      renderer.appendPeaks([0.8]);
+
+      expect(invalidateSpy).toHaveBeenCalled();
+      expect(renderer["dirtyFlags"].peaks).toBe(true);
+    });
+
+    it("should re-normalize everything when appended peaks exceed the current scale", () => {
+      const extendSpy = vi.spyOn(renderer["cacheManager"], "extend");
+
+      renderer.appendPeaks([2]);
+
+      expect(renderer["peaks"]).toEqual([0.05, 0.5, 1]);
+      expect(extendSpy).not.toHaveBeenCalled();
+    });
+
+    it("should only repaint the appended region", () => {
+      const renderSpy = vi.spyOn(renderer["renderingEngine"], "render").mockImplementation(() => {});
+      const renderRegionSpy = vi.spyOn(renderer["renderingEngine"], "renderRegion").mockImplementation(() => {});
+      renderer["render"]();
+      renderer["lastRenderTime"] = -Infinity;
+
+      renderer.appendPeaks([0.8, 0.3], 8);
+      renderer["lastRenderTime"] = -Infinity;
+      renderer["render"]();
+      renderer["lastRenderTime"] = -Infinity;
+      renderer.appendPeaks([0.8, 0.3], 8);
+      renderer["render"]();
+
+      expect(renderSpy).toHaveBeenCalledTimes(2); // Initial render and the new layout
+      expect(renderRegionSpy).toHaveBeenCalledTimes(1);
+      expect(renderRegionSpy.mock.calls[0][2].start).toBeGreaterThan(0);
+    });
+
+    it("should repaint everything when other state changed", () => {
+      const renderSpy = vi.spyOn(renderer["renderingEngine"], "render").mockImplementation(() => {});
+      const renderRegionSpy = vi.spyOn(renderer["renderingEngine"], "renderRegion").mockImplementation(() => {});
+      renderer.appendPeaks([0.8], 4);
+      renderer["render"]();
+      renderer["lastRenderTime"] = -Infinity;
+
+      renderer.appendPeaks([0.3], 4);
+      renderer.setProgress(0.5);
+      renderer["render"]();
+
+      expect(renderSpy).toHaveBeenCalledTimes(2);
+      expect(renderRegionSpy).not.toHaveBeenCalled();
+    });
+
+    it("should reset the total length on setPeaks", () => {
+      renderer.appendPeaks([0.8], 8);
+
+      renderer.setPeaks([0.2, 0.4]);
+
+      expect(renderer["totalLength"]).toBeUndefined();
+    });
+
+    it("should handle errors for invalid chunks", () => {
+      const errorHandler = vi.fn();
+      renderer.on("error", errorHandler);
+
+      renderer.appendPeaks({ min: [-0.1], max: [0.2] });
+      renderer.appendPeaks([[0.1], [0.2]]);
+      renderer.appendPeaks([0.1], -1);
+      renderer.setPeaks(PeakPyramid.fromPeaks([0.2, 0.4]));
+      renderer.appendPeaks([0.1]);
+
+      expect(errorHandler.mock.calls.map(([error]) => error.message)).toEqual([
+        "Appended peaks must have the same shape as the current peaks",
+        "Appended peaks must have the same number of channels",
+        "Total length must be a non-negative number",
+        "Cannot append peaks to a peak pyramid",
+      ]);
+    });
+  });
+
+  describe("normalization", () => {
+    it("should not mutate the caller's peaks", () => {
+      const input = [0.5, 2, 1];
+
+      renderer = new WaveformRenderer(canvas, input);
+      renderer.setPeaks(input);
+
+      expect(input).toEqual([0.5, 2, 1]);
+      expect(renderer["peaks"]).toEqual([0.25, 1, 0.5]);
+    });
+
+    it("should scale quiet peaks up by default", () => {
+      renderer = new WaveformRenderer(canvas, [0.1, 0.25]);
+
+      expect(renderer["peaks"]).toEqual([0.4, 1]);
+    });
+
+    it("should draw several waveforms on the same absolute scale", () => {
+      renderer = new WaveformRenderer(canvas, [0.1, 0.25], { normalize: { type: "fixed", ceiling: 0.5 } });
+
+      expect(renderer["peaks"]).toEqual([0.2, 0.5]);
+    });
+
+    it("should re-normalize the original peaks when the option changes", () => {
+      renderer = new WaveformRenderer(canvas, [0.1, 0.25]);
+
+      renderer.setOptions({ normalize: "none" });
+
+      expect(renderer["peaks"]).toEqual([0.1, 0.25]);
+      expect(renderer["dirtyFlags"].peaks).toBe(true);
+    });
+
+    it("should rebuild the bars at the new scale when the edges are unchanged", () => {
+      renderer = new WaveformRenderer(canvas, [0, 0.5, 0.25, 0], { barWidth: 200, gap: 0 });
+      const getHeights = () =>
+        renderer["cacheManager"]
+          .getCache(canvas, 1, renderer["peaks"], renderer["options"])
+          .bars.map(bar => bar.height);
+
+      const peakHeights = getHeights();
+      renderer.setOptions({ normalize: "none" });
+
+      expect(getHeights()).toEqual(peakHeights.map(height => height / 2));
+      expect(getHeights()[1]).toBeGreaterThan(0);
+    });
+
+    it("should keep the previous setting when the new one is invalid", () => {
+      renderer = new WaveformRenderer(canvas, [0.1, 0.25]);
+      const errorHandler = vi.fn();
+      renderer.on("error", errorHandler);
+
+      renderer.setOptions({ normalize: { type: "fixed", ceiling: -1 } });
+
+      expect(renderer["options"].normalize).toBe("peak");
+      expect(errorHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "Normalization ceiling must be a positive number" }),
+      );
+    });
+
+    it("should normalize appended peaks with the current scale", () => {
+      renderer = new WaveformRenderer(canvas, [0.1, 0.25], { normalize: { type: "fixed", ceiling: 0.5 } });
+      const extendSpy = vi.spyOn(renderer["cacheManager"], "extend").mockReturnValue({ start: 0, end: 10 });
+
+      renderer.appendPeaks([0.4, 1]);
+
+      expect(renderer["peaks"]).toEqual([0.2, 0.5, 0.8, 1]);
+      expect(extendSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe("getBarAtPoint", () => {
+    it("should delegate hit-testing to the cache", () => {
+      renderer = new WaveformRenderer(canvas, peaks);
+      const bar = { x: 0, y: 0, width: 2, height: 10, peakValue: 0.5 };
+      const getBarAtSpy = vi.spyOn(renderer["cacheManager"], "getBarAt").mockReturnValue(bar);
+
+      expect(renderer.getBarAtPoint(1, 5)).toBe(bar);
+      expect(getBarAtSpy).toHaveBeenCalledWith(1, 5);
+    });
+
+    it("should return null when destroyed", () => {
+      renderer = new WaveformRenderer(canvas, peaks);
+      renderer.destroy();
+
+      expect(renderer.getBarAtPoint(1, 5)).toBeNull();
+    });
+
+    it("should invalidate the cache when the scale changes", () => {
+      renderer = new WaveformRenderer(canvas, peaks);
+      const invalidateSpy = vi.spyOn(renderer["cacheManager"], "invalidate");
+
+      renderer.setOptions({ scale: { type: "db", floor: -48 } });
+
+      expect(invalidateSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe("exportPeaks", () => {
+    it("should export the current peaks as audiowaveform JSON", () => {
+      renderer = new WaveformRenderer(canvas, { min: [-0.5], max: [0.25] }, { normalize: "none" });
+
+      expect(renderer.exportPeaks("json", { bits: 8 })).toMatchObject({ bits: 8, length: 1, data: [-64, 32] });
+    });
+
+    it("should export the current peaks as an audiowaveform .dat buffer", () => {
+      renderer = new WaveformRenderer(canvas, [0.5, 0.25]);
+
+      const dat = renderer.exportPeaks("dat", { bits: 8 });
+
+      expect(dat).toBeInstanceOf(ArrayBuffer);
+      expect(dat!.byteLength).toBe(24 + 4);
+    });
+
+    it("should export the imported amplitudes rather than the normalized ones", () => {
+      const json = {
+        version: 1,
+        sample_rate: 44100,
+        samples_per_pixel: 256,
+        bits: 8,
+        length: 3,
+        data: [-8, 10, -4, 6, 0, 2],
+      };
+      renderer = new WaveformRenderer(canvas, parseAudiowaveformJson(json).peaks);
+
+      expect(renderer.exportPeaks("json", { bits: 8 })?.data).toEqual(json.data);
+    });
+
+    it("should export pyramids at their highest resolution", () => {
+      renderer = new WaveformRenderer(
+        canvas,
+        PeakPyramid.fromPeaks({ min: [-1, -0.5, 0, -0.25], max: [1, 0.5, 0, 0.25] }),
+      );
+
+      expect(renderer.exportPeaks("json")?.length).toBe(4);
+    });
+
+    it("should handle export errors", () => {
+      renderer = new WaveformRenderer(canvas, [[0.5], [0.25]]);
+      const errorHandler = vi.fn();
+      renderer.on("error", errorHandler);
+
+      expect(renderer.exportPeaks("dat", { version: 1 })).toBeNull();
+      expect(errorHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "Audiowaveform version 1 only supports a single channel" }),
+      );
+    });
+  });
+
+  describe("viewport", () => {
+    beforeEach(() => {
+      renderer = new WaveformRenderer(canvas, peaks);
+    });
+
+    it("should start with the full range visible", () => {
+      expect(renderer.getViewport()).toEqual({ start: 0, end: 1 });
+      expect(renderer.getZoom()).toBe(1);
+    });
+
+    it("should set the viewport and emit viewportChange", () => {
+      const viewportHandler = vi.fn();
+      renderer.on("viewportChange", viewportHandler);
+
+      renderer.setViewport(0.25, 0.5);
+
+      expect(renderer.getViewport()).toEqual({ start: 0.25, end: 0.5 });
+      expect(viewportHandler).toHaveBeenCalledWith({ start: 0.25, end: 0.5 });
+    });
+
+    it("should forward the viewport to the event handler", () => {
+      const setViewportSpy = vi.spyOn(renderer["eventHandler"], "setViewport");
+
+      renderer.setViewport(0.25, 0.5);
+
+      expect(setViewportSpy).toHaveBeenCalledWith({ start: 0.25, end: 0.5 });
+    });
+
+    it("should not emit when the viewport does not change", () => {
+      const viewportHandler = vi.fn();
+      renderer.on("viewportChange", viewportHandler);
+
+      renderer.setViewport(0, 1);
+
+      expect(viewportHandler).not.toHaveBeenCalled();
+    });
+
+    it("should handle error for an inverted viewport", () => {
+      const errorHandler = vi.fn();
+      renderer.on("error", errorHandler);
+
+      renderer.setViewport(0.5, 0.25);
+
+      expect(errorHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "Viewport end must be greater than start" }),
+      );
+    });
+
+    it("should zoom around the viewport center by default", () => {
+      renderer.zoomTo(4);
+
+      expect(renderer.getViewport()).toEqual({ start: 0.375, end: 0.625 });
+      expect(renderer.getZoom()).toBe(4);
+    });
+
+    it("should keep the anchor in place when zooming", () => {
+      renderer.zoomTo(2, 0.25);
+
+      // The anchor was a quarter of the way across the view and stays there
+      expect(renderer.getViewport()).toEqual({ start: 0.125, end: 0.625 });
+    });
+
+    it("should clamp zooming near the edges", () => {
+      renderer.zoomTo(2, 0);
+
+      expect(renderer.getViewport()).toEqual({ start: 0, end: 0.5 });
+    });
+
+    it("should keep zooming within minZoom and maxZoom", () => {
+      renderer.setOptions({ maxZoom: 8, minZoom: 2 });
+
+      renderer.zoomTo(20);
+      expect(renderer.getZoom()).toBe(8);
+
+      renderer.zoomTo(1);
+      expect(renderer.getZoom()).toBe(2);
+    });
+
+    it("should emit zoom and pan events for gestures", () => {
+      const zoomHandler = vi.fn();
+      const panHandler = vi.fn();
+      renderer.on("zoom", zoomHandler);
+      renderer.on("pan", panHandler);
+      const callbacks = renderer["eventHandler"]["callbacks"];
+
+      callbacks.onZoom!(4, { progress: 0.5, progressPerPixel: 1 / 800, x: 400, y: 100 });
+      callbacks.onPan!(0.125);
+
+      expect(zoomHandler).toHaveBeenCalledWith(4);
+      expect(panHandler).toHaveBeenCalledWith({ start: 0.5, end: 0.75 });
+
+      // Nothing changes at the limits, so nothing is emitted
+      callbacks.onZoom!(100, { progress: 0.5, progressPerPixel: 1 / 800, x: 400, y: 100 });
+      callbacks.onZoom!(2, { progress: 0.5, progressPerPixel: 1 / 800, x: 400, y: 100 });
+      callbacks.onPan!(1);
+      callbacks.onPan!(1);
+
+      expect(zoomHandler).toHaveBeenCalledTimes(2);
+      expect(panHandler).toHaveBeenCalledTimes(2);
+    });
+
+    it("should handle error for invalid zoom factors", () => {
+      const errorHandler = vi.fn();
+      renderer.on("error", errorHandler);
+
+      renderer.zoomTo(0);
+
+      expect(errorHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "Zoom factor must be a positive number" }),
+      );
+    });
+
+    it("should scroll while keeping the span", () => {
+      renderer.setViewport(0.25, 0.5);
+
+      renderer.scrollBy(0.25);
+      expect(renderer.getViewport()).toEqual({ start: 0.5, end: 0.75 });
+
+      renderer.scrollBy(1);
+      expect(renderer.getViewport()).toEqual({ start: 0.75, end: 1 });
+    });
+
+    it("should reject scroll deltas that are not finite", () => {
+      const errorHandler = vi.fn();
+      renderer.on("error", errorHandler);
+      renderer.setViewport(0.25, 0.5);
+
+      renderer.scrollBy(NaN);
+      renderer.scrollBy(Infinity);
+
+      expect(renderer.getViewport()).toEqual({ start: 0.25, end: 0.5 });
+      expect(errorHandler).toHaveBeenCalledTimes(2);
+      expect(errorHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "Scroll delta must be a finite number" }),
+      );
+    });
+  });
+
   describe("setProgressLineOptions", () => {
     beforeEach(() => {
       renderer = new WaveformRenderer(canvas, peaks);
@@ -354,6 +901,755 @@ describe("WaveformRenderer", () => {
     });
   });
 
+  describe("regions", () => {
+    beforeEach(() => {
+      renderer = new WaveformRenderer(canvas, peaks);
+    });
+
+    it("should add, update and remove regions", () => {
+      const region = renderer.addRegion({ start: 0.1, end: 0.3, label: "Intro" });
+
+      expect(region).toEqual({ id: "region-1", start: 0.1, end: 0.3, label: "Intro" });
+      expect(renderer.updateRegion("region-1", { end: 0.4 })?.end).toBe(0.4);
+      expect(renderer["renderingEngine"]["regions"]).toEqual([
+        { id: "region-1", start: 0.1, end: 0.4, label: "Intro" },
+      ]);
+
+      renderer.removeRegion("region-1");
+      expect(renderer.getRegions()).toEqual([]);
+    });
+
+    it("should schedule a full render when regions change", () => {
+      renderer["dirtyFlags"].options = false;
+
+      renderer.addRegion({ start: 0.1, end: 0.3 });
+
+      expect(renderer["dirtyFlags"].options).toBe(true);
+    });
+
+    it("should emit errors for invalid regions", () => {
+      const errorHandler = vi.fn();
+      renderer.on("error", errorHandler);
+
+      expect(renderer.addRegion({ start: 0.5, end: 0.2 })).toBeNull();
+      renderer.removeRegion("missing");
+
+      expect(errorHandler).toHaveBeenCalledTimes(2);
+    });
+
+    it("should round-trip regions through export and import", () => {
+      renderer.addRegion({ start: 0.1, end: 0.3, color: "red" });
+      renderer.addRegion({ id: "outro", start: 0.8, end: 1, draggable: false });
+      const json = renderer.exportRegions();
+
+      renderer.clearRegions();
+      expect(renderer.getRegions()).toEqual([]);
+
+      renderer.importRegions(json);
+      expect(renderer.exportRegions()).toBe(json);
+    });
+
+    it("should keep regions when an import fails", () => {
+      const errorHandler = vi.fn();
+      renderer.on("error", errorHandler);
+      renderer.addRegion({ start: 0.1, end: 0.3 });
+
+      renderer.importRegions("not json");
+
+      expect(errorHandler).toHaveBeenCalled();
+      expect(renderer.getRegions()).toHaveLength(1);
+    });
+
+    it("should emit region events from pointer gestures", () => {
+      const created = vi.fn();
+      const updated = vi.fn();
+      const clicked = vi.fn();
+      renderer.on("regionCreated", created);
+      renderer.on("regionUpdated", updated);
+      renderer.on("regionClick", clicked);
+      renderer.setOptions({ createRegionsOnDrag: true });
+      const { onPointerDown, onPointerMove, onPointerUp } = renderer["eventHandler"]["callbacks"];
+      const at = (x: number) => ({ progress: x / 800, progressPerPixel: 1 / 800, x, y: 100 });
+
+      expect(onPointerDown!(at(100))).toBe(true);
+      onPointerMove!(at(300));
+      expect(onPointerUp!(at(400))).toBe(true);
+      expect(created).toHaveBeenCalledWith({ id: "region-1", start: 0.125, end: 0.5 });
+
+      onPointerDown!(at(200));
+      onPointerUp!(at(250));
+      expect(updated).toHaveBeenCalledWith({ id: "region-1", start: 0.1875, end: 0.5625 });
+
+      onPointerDown!(at(300));
+      expect(onPointerUp!(at(300))).toBe(false);
+      expect(clicked).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not start gestures on empty space by default", () => {
+      const { onPointerDown } = renderer["eventHandler"]["callbacks"];
+
+      expect(onPointerDown!({ progress: 0.5, progressPerPixel: 1 / 800, x: 400, y: 100 })).toBe(false);
+    });
+  });
+
+  describe("time ruler", () => {
+    beforeEach(() => {
+      renderer = new WaveformRenderer(canvas, peaks);
+    });
+
+    it("should merge ruler options with the defaults", () => {
+      renderer.setOptions({ duration: 30, timeRuler: { format: "smpte", fps: 25 } });
+      renderer.setOptions({ timeRuler: { position: "bottom" } });
+
+      expect(renderer["options"].timeRuler).toMatchObject({ format: "smpte", fps: 25, position: "bottom", height: 20 });
+
+      renderer.setOptions({ timeRuler: null });
+      expect(renderer["options"].timeRuler).toBeNull();
+    });
+
+    it("should invalidate the layout when the ruler or duration changes", () => {
+      const invalidate = vi.spyOn(renderer["cacheManager"], "invalidate");
+
+      renderer.setOptions({ timeRuler: {} });
+      renderer.setOptions({ duration: 120 });
+
+      expect(invalidate).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("hover", () => {
+    const position = { progress: 0.5, progressPerPixel: 0.001, x: 400, y: 50 };
+    const callbacks = () => renderer["eventHandler"]["callbacks"];
+
+    beforeEach(() => {
+      renderer = new WaveformRenderer(canvas, peaks, { duration: 60, hover: { shadeColor: null } });
+    });
+
+    it("should merge hover options with the defaults", () => {
+      expect(renderer["options"].hover).toMatchObject({ shadeColor: null, tooltip: true, width: 1 });
+
+      renderer.setOptions({ hover: null });
+      expect(renderer["options"].hover).toBeNull();
+    });
+
+    it("should emit hover info with the time and bar under the pointer", () => {
+      const bar = { height: 40, peakValue: 0.8, width: 2, x: 399, y: 80 };
+      const hoverHandler = vi.fn();
+      vi.spyOn(renderer["cacheManager"], "getBarInColumn").mockReturnValue(bar);
+      renderer.on("hover", hoverHandler);
+
+      callbacks().onHover!(position);
+
+      const info = { bar, progress: 0.5, time: 30, x: 400, y: 50 };
+      expect(hoverHandler).toHaveBeenCalledWith(info);
+      expect(renderer["renderingEngine"]["hover"]).toEqual(info);
+    });
+
+    it("should repaint without invalidating the cache", () => {
+      const invalidate = vi.spyOn(renderer["cacheManager"], "invalidate");
+      renderer["dirtyFlags"].progress = false;
+
+      callbacks().onHover!(position);
+
+      expect(invalidate).not.toHaveBeenCalled();
+      expect(renderer["dirtyFlags"].progress).toBe(true);
+    });
+
+    it("should emit hoverEnd once when the pointer leaves", () => {
+      const hoverEndHandler = vi.fn();
+      renderer.on("hoverEnd", hoverEndHandler);
+
+      callbacks().onHoverEnd!();
+      callbacks().onHover!(position);
+      callbacks().onHoverEnd!();
+      callbacks().onHoverEnd!();
+
+      expect(hoverEndHandler).toHaveBeenCalledTimes(1);
+      expect(renderer["renderingEngine"]["hover"]).toBeNull();
+    });
+
+    it("should emit hover events without drawing when the layer is off", () => {
+      const hoverHandler = vi.fn();
+      renderer.setOptions({ duration: null, hover: null });
+      renderer.on("hover", hoverHandler);
+      renderer["dirtyFlags"].progress = false;
+
+      callbacks().onHover!(position);
+
+      expect(hoverHandler).toHaveBeenCalledWith(expect.objectContaining({ progress: 0.5, time: null }));
+      expect(renderer["dirtyFlags"].progress).toBe(false);
+    });
+  });
+
+  describe("media binding", () => {
+    let media: HTMLMediaElement;
+    const callbacks = () => renderer["mediaBinding"]!["callbacks"];
+    const scrub = () => renderer["eventHandler"]["callbacks"];
+    const position = (progress: number) => ({ progress, progressPerPixel: 1 / 800, x: progress * 800, y: 50 });
+
+    beforeEach(() => {
+      media = Object.assign(new EventTarget(), {
+        buffered: { end: () => 30, length: 1, start: () => 0 },
+        currentTime: 15,
+        duration: 60,
+        ended: false,
+        paused: true,
+        playbackRate: 1,
+        seeking: false,
+      }) as unknown as HTMLMediaElement;
+      renderer = new WaveformRenderer(canvas, peaks);
+    });
+
+    it("should take the progress, duration and buffered ranges of the media", () => {
+      renderer.attachMedia(media);
+
+      expect(renderer["options"].duration).toBe(60);
+      expect(renderer["options"].progress).toBe(0.25);
+      expect(renderer["renderingEngine"]["bufferedRanges"]).toEqual([{ end: 0.5, start: 0 }]);
+    });
+
+    it("should write seeks back to the media", () => {
+      renderer.attachMedia(media);
+
+      scrub().onSeek(0.5);
+
+      expect(media.currentTime).toBe(30);
+    });
+
+    it("should keep the playhead on the pointer while scrubbing", () => {
+      renderer.attachMedia(media);
+
+      scrub().onScrubStart!(position(0.5));
+      callbacks().onProgress(0.3);
+      expect(renderer["options"].progress).toBe(0.5);
+
+      scrub().onScrubEnd!(position(0.75));
+      expect(media.currentTime).toBe(45);
+
+      callbacks().onProgress(0.8);
+      expect(renderer["options"].progress).toBe(0.8);
+    });
+
+    it("should detach from the media", () => {
+      renderer.attachMedia(media);
+      const removeEventListener = vi.spyOn(media, "removeEventListener");
+
+      renderer.detachMedia();
+      media.dispatchEvent(new Event("timeupdate"));
+
+      expect(removeEventListener).toHaveBeenCalledTimes(12);
+      expect(renderer["mediaBinding"]).toBeUndefined();
+      expect(renderer["renderingEngine"]["bufferedRanges"]).toEqual([]);
+    });
+
+    it("should replace the attached media and detach on destroy", () => {
+      const other = Object.assign(new EventTarget(), { ...media }) as unknown as HTMLMediaElement;
+      const removeEventListener = vi.spyOn(media, "removeEventListener");
+
+      renderer.attachMedia(media);
+      renderer.attachMedia(other);
+      expect(removeEventListener).toHaveBeenCalledTimes(12);
+
+      const removeOther = vi.spyOn(other, "removeEventListener");
+      renderer.destroy();
+      expect(removeOther).toHaveBeenCalledTimes(12);
+    });
+
+    it("should report a missing media element", () => {
+      const errorHandler = vi.fn();
+      renderer.on("error", errorHandler);
+
+      renderer.attachMedia(null as unknown as HTMLMediaElement);
+
+      expect(errorHandler).toHaveBeenCalledWith(new Error("Media element is required"));
+    });
+  });
+
+  describe("buffered ranges", () => {
+    beforeEach(() => {
+      renderer = new WaveformRenderer(canvas, peaks, { duration: 100 });
+    });
+
+    it("should show buffered ranges given in seconds", () => {
+      renderer["dirtyFlags"].progress = false;
+
+      renderer.setBufferedRanges([
+        [50, 100],
+        [0, 25],
+      ]);
+
+      const ranges = [
+        { end: 0.25, start: 0 },
+        { end: 1, start: 0.5 },
+      ];
+      expect(renderer.getBufferedRanges()).toEqual(ranges);
+      expect(renderer["renderingEngine"]["bufferedRanges"]).toEqual(ranges);
+      expect(renderer["dirtyFlags"].progress).toBe(true);
+    });
+
+    it("should repaint and drop cached paints when the buffered color changes", () => {
+      const invalidateSpy = vi.spyOn(renderer["cacheManager"], "invalidate");
+      renderer["dirtyFlags"].options = false;
+
+      renderer.setOptions({ bufferedColor: "#6B7280" });
+
+      expect(renderer["dirtyFlags"].options).toBe(true);
+      expect(invalidateSpy).toHaveBeenCalled();
+    });
+
+    it("should accept TimeRanges", () => {
+      renderer.setBufferedRanges({ end: () => 40, length: 1, start: () => 20 });
+
+      expect(renderer.getBufferedRanges()).toEqual([{ end: 0.4, start: 0.2 }]);
+    });
+
+    it("should follow duration changes", () => {
+      renderer.setOptions({ duration: null });
+      renderer.setBufferedRanges([[0, 30]]);
+      expect(renderer["renderingEngine"]["bufferedRanges"]).toEqual([]);
+
+      renderer.setOptions({ duration: 60 });
+      expect(renderer["renderingEngine"]["bufferedRanges"]).toEqual([{ end: 0.5, start: 0 }]);
+    });
+
+    it("should keep the ranges when given invalid ones", () => {
+      const errorHandler = vi.fn();
+      renderer.on("error", errorHandler);
+      renderer.setBufferedRanges([[0, 30]]);
+
+      renderer.setBufferedRanges([[30, 10]]);
+
+      expect(errorHandler).toHaveBeenCalledWith(new Error("Buffered ranges must be [start, end] pairs in seconds"));
+      expect(renderer.getBufferedRanges()).toEqual([{ end: 0.3, start: 0 }]);
+    });
+  });
+
+  describe("accessibility", () => {
+    const callbacks = () => renderer["accessibilityManager"]["callbacks"];
+
+    beforeEach(() => {
+      canvas = document.createElement("canvas");
+      canvas.getContext = vi.fn().mockReturnValue(mockContext);
+      renderer = new WaveformRenderer(canvas, peaks, { accessibility: {}, duration: 120 });
+    });
+
+    it("should leave the canvas alone unless enabled", () => {
+      const plain = document.createElement("canvas");
+      plain.getContext = vi.fn().mockReturnValue(mockContext);
+      const other = new WaveformRenderer(plain, peaks);
+
+      plain.dispatchEvent(new KeyboardEvent("keydown", { key: "End" }));
+
+      expect(plain.hasAttribute("role")).toBe(false);
+      expect(plain.hasAttribute("tabindex")).toBe(false);
+      expect(other["options"].progress).toBe(0);
+      other.destroy();
+    });
+
+    it("should expose the progress as an ARIA slider", () => {
+      renderer.setProgress(0.5);
+
+      expect(canvas.getAttribute("role")).toBe("slider");
+      expect(canvas.getAttribute("aria-valuenow")).toBe("50");
+      expect(canvas.getAttribute("aria-valuetext")).toBe("1:00 of 2:00");
+
+      renderer.setOptions({ duration: 60 });
+      expect(canvas.getAttribute("aria-valuetext")).toBe("0:30 of 1:00");
+    });
+
+    it("should seek with the keyboard", () => {
+      const seekHandler = vi.fn();
+      renderer.on("seek", seekHandler);
+
+      canvas.dispatchEvent(new KeyboardEvent("keydown", { key: "End" }));
+
+      expect(seekHandler).toHaveBeenCalledWith(1);
+      expect(renderer["options"].progress).toBe(1);
+      expect(canvas.getAttribute("aria-valuenow")).toBe("100");
+    });
+
+    it("should merge options and remove the slider when disabled", () => {
+      renderer.setOptions({ accessibility: { label: "Track" } });
+      expect(renderer["options"].accessibility).toMatchObject({ label: "Track", step: 5 });
+      expect(canvas.getAttribute("aria-label")).toBe("Track");
+
+      renderer.setOptions({ accessibility: null });
+      expect(canvas.hasAttribute("role")).toBe(false);
+      expect(canvas.hasAttribute("tabindex")).toBe(false);
+    });
+
+    it("should move focus to the canvas", () => {
+      const focus = vi.spyOn(canvas, "focus");
+
+      renderer.focus();
+      expect(focus).toHaveBeenCalledTimes(1);
+
+      renderer.setOptions({ accessibility: null });
+      renderer.focus();
+      expect(focus).toHaveBeenCalledTimes(1);
+    });
+
+    it("should repaint the focus ring without invalidating the cache", () => {
+      const invalidate = vi.spyOn(renderer["cacheManager"], "invalidate");
+      renderer["dirtyFlags"].progress = false;
+
+      callbacks().onFocusChange(true);
+
+      expect(renderer["renderingEngine"]["focused"]).toBe(true);
+      expect(renderer["dirtyFlags"].progress).toBe(true);
+      expect(invalidate).not.toHaveBeenCalled();
+    });
+
+    it("should render with system colors in forced colors mode", () => {
+      const invalidate = vi.spyOn(renderer["cacheManager"], "invalidate");
+      const render = vi.spyOn(renderer["renderingEngine"], "render").mockImplementation(() => {});
+      vi.spyOn(renderer["cacheManager"], "createStaticPath").mockReturnValue(undefined);
+
+      callbacks().onForcedColorsChange(true);
+      renderer["lastRenderTime"] = -Infinity;
+      renderer["render"]();
+
+      expect(invalidate).toHaveBeenCalled();
+      expect(renderer["renderingEngine"]["forcedColors"]).toBe(true);
+      expect(render.mock.calls[0][1]).toMatchObject({ backgroundColor: "CanvasText", color: "Highlight" });
+      expect(renderer["options"].color).toBe(DEFAULT_OPTIONS.color);
+    });
+
+    it("should restore the canvas on destroy", () => {
+      renderer.destroy();
+
+      expect(canvas.hasAttribute("role")).toBe(false);
+      expect(canvas.hasAttribute("aria-valuenow")).toBe(false);
+    });
+  });
+
+  describe("scrubbing", () => {
+    const position = (progress: number) => ({ progress, progressPerPixel: 1 / 800, x: progress * 800, y: 50 });
+    const callbacks = () => renderer["eventHandler"]["callbacks"];
+
+    beforeEach(() => {
+      renderer = new WaveformRenderer(canvas, peaks, { progress: 0.5 });
+    });
+
+    it("should pass the interaction options to the event handler", () => {
+      expect(renderer["eventHandler"]["interaction"]).toBe("scrub");
+      expect(renderer["eventHandler"]["dragThreshold"]).toBe(5);
+
+      renderer.setOptions({ interaction: "handle", dragThreshold: 12 });
+
+      expect(renderer["eventHandler"]["interaction"]).toBe("handle");
+      expect(renderer["eventHandler"]["dragThreshold"]).toBe(12);
+    });
+
+    it("should move the playhead and emit scrub events", () => {
+      const events: [string, number][] = [];
+      (["scrubStart", "scrub", "scrubEnd"] as const).forEach(event =>
+        renderer.on(event, progress => events.push([event, progress])),
+      );
+
+      callbacks().onScrubStart!(position(0.3));
+      callbacks().onScrub!(position(0.4));
+      callbacks().onScrubEnd!(position(0.45));
+
+      expect(events).toEqual([
+        ["scrubStart", 0.3],
+        ["scrub", 0.4],
+        ["scrubEnd", 0.45],
+      ]);
+      expect(renderer["options"].progress).toBe(0.45);
+    });
+
+    it("should end hovering when scrubbing starts", () => {
+      const hoverEndHandler = vi.fn();
+      renderer.on("hoverEnd", hoverEndHandler);
+
+      callbacks().onHover!(position(0.3));
+      callbacks().onScrubStart!(position(0.3));
+
+      expect(hoverEndHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it("should hit-test the playhead within a few pixels", () => {
+      expect(callbacks().hitTestPlayhead!(position(0.505))).toBe(true);
+      expect(callbacks().hitTestPlayhead!(position(0.52))).toBe(false);
+    });
+  });
+
+  describe("playback clock", () => {
+    const frame = (now: number) => renderer["handleClockFrame"](now);
+
+    beforeEach(() => {
+      renderer = new WaveformRenderer(canvas, peaks, { duration: 100 });
+    });
+
+    it("should advance the progress every frame at the playback rate", () => {
+      renderer.play(0.1, undefined, 2);
+
+      expect(renderer.isPlaying()).toBe(true);
+      expect(renderer["options"].progress).toBe(0.1);
+
+      frame(1000);
+      expect(renderer["options"].progress).toBeCloseTo(0.12);
+
+      frame(2500);
+      expect(renderer["options"].progress).toBeCloseTo(0.15);
+    });
+
+    it("should take the duration passed to play over the option", () => {
+      renderer.play(0, 10);
+
+      frame(1000);
+
+      expect(renderer["options"].progress).toBeCloseTo(0.1);
+    });
+
+    it("should move the playhead by less than a pixel", () => {
+      renderer.play(0);
+      const progressHandler = vi.fn();
+      renderer.on("progressChange", progressHandler);
+
+      // 50 ms of a 100 s file is 0.4 px on an 800 px canvas
+      frame(50);
+
+      expect(progressHandler).toHaveBeenCalledWith(0.0005);
+    });
+
+    it("should stop at the end and emit ended", () => {
+      const endedHandler = vi.fn();
+      renderer.on("ended", endedHandler);
+      renderer.play(0.99);
+
+      frame(5000);
+
+      expect(renderer["options"].progress).toBe(1);
+      expect(renderer.isPlaying()).toBe(false);
+      expect(endedHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it("should keep the playhead where it is when paused", () => {
+      renderer.play(0.2);
+      frame(1000);
+
+      renderer.pause();
+      frame(2000);
+
+      expect(renderer.isPlaying()).toBe(false);
+      expect(renderer["options"].progress).toBeCloseTo(0.21);
+      expect(cancelAnimationFrame).toHaveBeenCalled();
+    });
+
+    it("should play on from where the playhead is moved", () => {
+      renderer.play(0.2);
+
+      vi.mocked(performance.now).mockReturnValue(1000);
+      renderer.setProgress(0.6);
+      frame(2000);
+      expect(renderer["options"].progress).toBeCloseTo(0.61);
+
+      vi.mocked(performance.now).mockReturnValue(2000);
+      renderer["eventHandler"]["callbacks"].onSeek(0.3);
+      frame(3000);
+      expect(renderer["options"].progress).toBeCloseTo(0.31);
+    });
+
+    it("should hold the playhead while scrubbing", () => {
+      const callbacks = renderer["eventHandler"]["callbacks"];
+      const position = (progress: number) => ({ progress, progressPerPixel: 1 / 800, x: progress * 800, y: 50 });
+      renderer.play(0.2);
+
+      callbacks.onScrubStart!(position(0.5));
+      frame(1000);
+      expect(renderer["options"].progress).toBe(0.5);
+
+      vi.mocked(performance.now).mockReturnValue(1000);
+      callbacks.onScrubEnd!(position(0.5));
+      frame(2000);
+      expect(renderer["options"].progress).toBeCloseTo(0.51);
+    });
+
+    it("should report a missing duration or an invalid rate", () => {
+      const errorHandler = vi.fn();
+      renderer.on("error", errorHandler);
+      renderer.setOptions({ duration: null });
+
+      renderer.play(0);
+      renderer.play(0, 10, 0);
+
+      expect(errorHandler).toHaveBeenNthCalledWith(1, new Error("Playback needs a duration in seconds"));
+      expect(errorHandler).toHaveBeenNthCalledWith(2, new Error("Playback rate must be a positive number"));
+      expect(renderer.isPlaying()).toBe(false);
+    });
+
+    it("should stop the clock on destroy", () => {
+      renderer.play(0);
+
+      renderer.destroy();
+
+      expect(renderer.isPlaying()).toBe(false);
+    });
+  });
+
+  describe("progress precision", () => {
+    beforeEach(() => {
+      renderer = new WaveformRenderer(canvas, peaks, { progress: 0.5 });
+    });
+
+    it("should skip changes below the precision in pixels", () => {
+      const progressHandler = vi.fn();
+      renderer.on("progressChange", progressHandler);
+
+      renderer.setOptions({ progressPrecision: 1 });
+      renderer.setProgress(0.5005); // 0.4 px
+      expect(progressHandler).not.toHaveBeenCalled();
+
+      renderer.setProgress(0.5015); // 1.2 px
+      expect(progressHandler).toHaveBeenCalledWith(0.5015);
+    });
+
+    it("should scale the precision with the zoom", () => {
+      const progressHandler = vi.fn();
+      renderer.on("progressChange", progressHandler);
+      renderer.setOptions({ progressPrecision: 1 });
+
+      renderer.setViewport(0.4, 0.6);
+      renderer.setProgress(0.5005); // 2 px at 5x zoom
+
+      expect(progressHandler).toHaveBeenCalledWith(0.5005);
+    });
+
+    it("should always let the playhead reach either end", () => {
+      renderer.setOptions({ progressPrecision: 10 });
+
+      renderer.setProgress(0.999);
+      renderer.setProgress(1);
+
+      expect(renderer["options"].progress).toBe(1);
+    });
+  });
+
+  describe("seek easing", () => {
+    beforeEach(() => {
+      renderer = new WaveformRenderer(canvas, peaks, { seekEasing: { duration: 100, easing: t => t } });
+    });
+
+    it("should fill in the easing defaults", () => {
+      renderer.setOptions({ seekEasing: { duration: 300 } });
+      expect(renderer["options"].seekEasing).toMatchObject({ duration: 300 });
+      expect(renderer["options"].seekEasing!.easing!(0.5)).toBe(0.5);
+
+      renderer.setOptions({ seekEasing: null });
+      renderer.setOptions({ seekEasing: {} });
+      expect(renderer["options"].seekEasing!.easing!(0.5)).toBe(0.875);
+    });
+
+    it("should ease the drawn playhead towards a seek", () => {
+      renderer["eventHandler"]["callbacks"].onSeek(0.8);
+      renderer.setProgress(0.8);
+
+      expect(renderer["getDisplayedProgress"](0)).toBe(0);
+      expect(renderer["getDisplayedProgress"](50)).toBeCloseTo(0.4);
+      expect(renderer["getDisplayedProgress"](100)).toBe(0.8);
+      expect(renderer["seekTransition"]).toBeUndefined();
+    });
+
+    it("should keep rendering until the seek has eased", () => {
+      const render = vi.spyOn(renderer["renderingEngine"], "render").mockImplementation(() => {});
+      vi.spyOn(renderer["cacheManager"], "createStaticPath").mockReturnValue(undefined);
+      renderer["eventHandler"]["callbacks"].onSeek(0.8);
+      renderer.setProgress(0.8);
+      renderer["lastRenderTime"] = -Infinity;
+
+      vi.mocked(performance.now).mockReturnValue(50);
+      renderer["render"]();
+
+      expect(render.mock.calls[0][1].progress).toBeCloseTo(0.4);
+      expect(renderer["options"].progress).toBe(0.8);
+      expect(renderer["dirtyFlags"].progress).toBe(true);
+    });
+
+    it("should jump without easing", () => {
+      renderer.setOptions({ seekEasing: null });
+
+      renderer["eventHandler"]["callbacks"].onSeek(0.8);
+      renderer.setProgress(0.8);
+
+      expect(renderer["getDisplayedProgress"](0)).toBe(0.8);
+    });
+  });
+
+  describe("markers", () => {
+    beforeEach(() => {
+      renderer = new WaveformRenderer(canvas, peaks);
+    });
+
+    it("should add, replace and remove markers", () => {
+      expect(renderer.addMarker({ position: 0.5, label: "Drop" })).toEqual({
+        id: "marker-1",
+        position: 0.5,
+        label: "Drop",
+      });
+
+      renderer.setMarkers([{ id: "intro", position: 0 }, { position: 0.75 }]);
+      expect(renderer.getMarkers().map(marker => marker.id)).toEqual(["intro", "marker-2"]);
+
+      renderer.removeMarker("intro");
+      expect(renderer["renderingEngine"]["markers"]).toEqual([{ id: "marker-2", position: 0.75 }]);
+      expect(renderer["dirtyFlags"].options).toBe(true);
+    });
+
+    it("should emit errors for invalid markers", () => {
+      const errorHandler = vi.fn();
+      renderer.on("error", errorHandler);
+
+      expect(renderer.addMarker({ position: 2 })).toBeNull();
+      renderer.removeMarker("missing");
+      renderer.setMarkers([{ position: -1 }]);
+
+      expect(errorHandler).toHaveBeenCalledTimes(3);
+    });
+
+    it("should merge marker style options with the defaults", () => {
+      renderer.setOptions({ markerStyle: { color: "#00ff00" } });
+
+      expect(renderer["options"].markerStyle).toMatchObject({ color: "#00ff00", width: 1, style: "solid" });
+    });
+
+    it("should hit-test markers at canvas points", () => {
+      renderer.addMarker({ id: "a", position: 0.5 });
+
+      expect(renderer.getMarkerAtPoint(402, 100)?.id).toBe("a");
+      expect(renderer.getMarkerAtPoint(420, 100)).toBeNull();
+
+      renderer.setViewport(0.25, 0.75);
+      expect(renderer.getMarkerAtPoint(400, 100)?.id).toBe("a");
+    });
+
+    it("should emit marker events before regions get the pointer", () => {
+      const clicked = vi.fn();
+      const moved = vi.fn();
+      const regionClick = vi.fn();
+      renderer.on("markerClick", clicked);
+      renderer.on("markerMoved", moved);
+      renderer.on("regionClick", regionClick);
+      renderer.addRegion({ start: 0.25, end: 0.75 });
+      renderer.addMarker({ id: "a", position: 0.5, draggable: true });
+      const { onPointerDown, onPointerMove, onPointerUp } = renderer["eventHandler"]["callbacks"];
+      const at = (x: number) => ({ progress: x / 800, progressPerPixel: 1 / 800, x, y: 100 });
+
+      onPointerDown!(at(400));
+      expect(onPointerUp!(at(400))).toBe(false);
+      expect(clicked).toHaveBeenCalledWith({ id: "a", position: 0.5, draggable: true });
+
+      onPointerDown!(at(400));
+      onPointerMove!(at(480));
+      expect(onPointerUp!(at(480))).toBe(true);
+      expect(moved).toHaveBeenCalledTimes(1);
+      expect(moved.mock.calls[0][0].position).toBeCloseTo(0.6);
+      expect(regionClick).not.toHaveBeenCalled();
+      expect(renderer.getRegions()[0]).toMatchObject({ start: 0.25, end: 0.75 });
+    });
+  });
+
   describe("Debug API", () => {
     beforeEach(() => {
       renderer = new WaveformRenderer(canvas, peaks);
@@ -6,11 +6,13 @@ import {
   type RenderHook,
   type RenderingCallbacks,
 } from "../src/rendering-engine";
-import type { RenderCache, WaveformOptions, CachedBarData } from "../src/types";
+import { DEFAULT_ACCESSIBILITY_OPTIONS, DEFAULT_HOVER_OPTIONS, DEFAULT_TIME_RULER_OPTIONS } from "../src/constants";
+import type { RenderCache, WaveformOptions, CachedBarData, HoverInfo } from "../src/types";
 
 import { drawProgressLine as mockDrawProgressLine } from "../src/utils";
 
-vi.mock("../src/utils", () => ({
+vi.mock("../src/utils", async importOriginal => ({
+  ...(await importOriginal<typeof import("../src/utils")>()),
   drawProgressLine: vi.fn(),
 }));
 
@@ -73,18 +75,40 @@ describe("RenderingEngine", () => {
 
     // Mock options
     mockOptions = {
+      accessibility: null,
       amplitude: 1,
       backgroundColor: "#f0f0f0",
+      barColor: null,
       barWidth: 4,
       borderColor: "#000",
       borderRadius: 2,
       borderWidth: 1,
+      bufferedColor: "#999999",
+      channelColors: [],
+      channelLayout: "stacked" as const,
       color: "#3b82f6",
+      createRegionsOnDrag: false,
       debug: false,
+      dragThreshold: 5,
+      duration: null,
       gap: 2,
+      hover: null,
+      interaction: "scrub" as const,
+      markerStyle: {
+        color: "#f59e0b",
+        heightPercent: 1,
+        labelColor: "#fff",
+        position: "center" as const,
+        style: "solid" as const,
+        width: 1,
+      },
+      maxZoom: 100,
       minPixelRatio: 1,
+      minZoom: 1,
+      normalize: "peak",
       position: "center" as const,
       progress: 0.5,
+      progressPrecision: 0.1,
       progressLine: {
         color: "#ff0000",
         heightPercent: 0.8,
@@ -92,7 +116,16 @@ describe("RenderingEngine", () => {
         style: "solid" as const,
         width: 2,
       },
+      regionColor: "rgba(0, 0, 255, 0.2)",
+      regionLabelColor: "#000",
+      resampling: { downsample: "max", upsample: "linear" },
+      rmsColor: null,
+      rmsProgressColor: null,
+      scale: "linear",
+      seekEasing: null,
       smoothing: true,
+      style: "bars",
+      timeRuler: null,
     };
 
     // Mock Path2D
@@ -370,6 +403,836 @@ describe("RenderingEngine", () => {
     });
   });
 
+  describe("viewport", () => {
+    beforeEach(() => {
+      (Path2D.prototype as any).roundRect = vi.fn();
+    });
+
+    it("should map progress into the visible range", () => {
+      const zoomedCache = { ...mockCache, viewport: { start: 0.25, end: 0.75 } };
+
+      renderingEngine.render(zoomedCache, { ...mockOptions, progress: 0.5 }, mockPath);
+
+      expect(mockCtx.rect).toHaveBeenCalledWith(0, 0, 400, 800);
+      expect(mockDrawProgressLine).toHaveBeenCalledWith(mockCtx, 400, 200, mockOptions.progressLine);
+    });
+
+    it("should not draw progress when the playhead is before the viewport", () => {
+      const zoomedCache = { ...mockCache, viewport: { start: 0.5, end: 1 } };
+
+      renderingEngine.render(zoomedCache, { ...mockOptions, progress: 0.25 }, mockPath);
+
+      expect(mockCtx.clip).not.toHaveBeenCalled();
+      expect(mockDrawProgressLine).not.toHaveBeenCalled();
+    });
+
+    it("should fill the whole view but hide the line when the playhead is past the viewport", () => {
+      const zoomedCache = { ...mockCache, viewport: { start: 0, end: 0.5 } };
+
+      renderingEngine.render(zoomedCache, { ...mockOptions, progress: 0.75 }, mockPath);
+
+      expect(mockCtx.rect).toHaveBeenCalledWith(0, 0, 800, 800);
+      expect(mockDrawProgressLine).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("renderRegion", () => {
+    it("should clip rendering to the region", () => {
+      renderingEngine.renderRegion(mockCache, mockOptions, { start: 100, end: 140 }, mockPath);
+
+      expect(mockCtx.save).toHaveBeenCalled();
+      expect(mockCtx.rect).toHaveBeenCalledWith(100, 0, 40, 200);
+      expect(mockCtx.clip).toHaveBeenCalled();
+      expect(mockCtx.fill).toHaveBeenCalledWith(mockPath);
+      expect(mockCtx.restore).toHaveBeenCalled();
+    });
+
+    it("should render everything when hooks are set", () => {
+      renderingEngine.setHooks({ afterComplete: vi.fn() });
+
+      renderingEngine.renderRegion(mockCache, mockOptions, { start: 100, end: 140 }, mockPath);
+
+      expect(mockCtx.rect).not.toHaveBeenCalledWith(100, 0, 40, 200);
+      expect(mockCtx.fill).toHaveBeenCalledWith(mockPath);
+    });
+  });
+
+  describe("RMS body", () => {
+    let rmsCache: RenderCache;
+    let rmsPath: Path2D;
+
+    beforeEach(() => {
+      rmsPath = {} as Path2D;
+      rmsCache = {
+        ...mockCache,
+        bars: [{ x: 0, y: 20, width: 4, height: 160, peakValue: 0.8, rmsValue: 0.4, rmsY: 60, rmsHeight: 80 }],
+        rmsPath,
+      };
+    });
+
+    it("should fill the RMS path in the RMS color", () => {
+      const fillStyles: string[] = [];
+      vi.mocked(mockCtx.fill).mockImplementation(() => fillStyles.push(mockCtx.fillStyle as string));
+
+      renderingEngine.render(rmsCache, { ...mockOptions, borderRadius: 0, progress: 0, rmsColor: "#333" }, mockPath);
+
+      expect(mockCtx.fill).toHaveBeenNthCalledWith(1, mockPath);
+      expect(mockCtx.fill).toHaveBeenNthCalledWith(2, rmsPath);
+      expect(fillStyles).toEqual(["#f0f0f0", "#333"]);
+    });
+
+    it("should use the RMS progress color inside the progress clip", () => {
+      renderingEngine.render(
+        rmsCache,
+        { ...mockOptions, borderRadius: 0, rmsColor: "#333", rmsProgressColor: "#1e40af" },
+        mockPath,
+      );
+
+      expect(mockCtx.fill).toHaveBeenLastCalledWith(rmsPath);
+      expect(mockCtx.fillStyle).toBe("#1e40af");
+    });
+
+    it("should not draw the RMS body when no RMS color is set", () => {
+      renderingEngine.render(rmsCache, { ...mockOptions, borderRadius: 0, progress: 0 }, mockPath);
+
+      expect(mockCtx.fill).not.toHaveBeenCalledWith(rmsPath);
+    });
+
+    it("should draw RMS rectangles with the fallback renderer", () => {
+      delete (Path2D.prototype as any).roundRect;
+      delete (mockCtx as any).roundRect;
+
+      renderingEngine.render(rmsCache, { ...mockOptions, progress: 0, rmsColor: "#333" });
+
+      expect(mockCtx.rect).toHaveBeenCalledWith(0, 20, 4, 160);
+      expect(mockCtx.rect).toHaveBeenCalledWith(0, 60, 4, 80);
+      expect(mockCtx.fillStyle).toBe("#333");
+    });
+  });
+
+  describe("styles", () => {
+    it("should stroke the line style instead of filling it", () => {
+      const options = { ...mockOptions, borderWidth: 0, progress: 0, style: "line" as const };
+
+      renderingEngine.render(mockCache, options, mockPath);
+
+      expect(mockCtx.fill).not.toHaveBeenCalled();
+      expect(mockCtx.stroke).toHaveBeenCalledWith(mockPath);
+      expect(mockCtx.strokeStyle).toBe("#f0f0f0");
+      expect(mockCtx.lineWidth).toBe(4); // barWidth
+    });
+
+    it("should use the line width of the style", () => {
+      renderingEngine.render(
+        mockCache,
+        { ...mockOptions, borderWidth: 0, progress: 0, style: { type: "line", lineWidth: 1.5 } },
+        mockPath,
+      );
+
+      expect(mockCtx.lineWidth).toBe(1.5);
+    });
+
+    it("should draw the border of a line as a wider stroke underneath", () => {
+      const strokes: [string, number][] = [];
+      vi.mocked(mockCtx.stroke).mockImplementation(() =>
+        strokes.push([mockCtx.strokeStyle as string, mockCtx.lineWidth]),
+      );
+
+      renderingEngine.render(mockCache, { ...mockOptions, borderWidth: 1, progress: 0, style: "line" }, mockPath);
+
+      expect(strokes).toEqual([
+        ["#000", 6],
+        ["#f0f0f0", 4],
+      ]);
+    });
+
+    it("should clip the progress of the line style", () => {
+      renderingEngine.render(mockCache, { ...mockOptions, borderWidth: 0, style: "line" }, mockPath);
+
+      expect(mockCtx.clip).toHaveBeenCalled();
+      expect(mockCtx.strokeStyle).toBe("#3b82f6");
+      expect(mockCtx.stroke).toHaveBeenCalledTimes(2);
+    });
+
+    it("should fill area styles with their border", () => {
+      renderingEngine.render(mockCache, { ...mockOptions, progress: 0, style: "mirroredArea" }, mockPath);
+
+      expect(mockCtx.fill).toHaveBeenCalledWith(mockPath);
+      expect(mockCtx.stroke).toHaveBeenCalledWith(mockPath);
+    });
+
+    it("should not fall back to rounded bars for other styles", () => {
+      (Path2D.prototype as any).roundRect = undefined;
+
+      renderingEngine.render(mockCache, { ...mockOptions, borderRadius: 4, progress: 0, style: "area" }, mockPath);
+
+      expect(mockCtx.roundRect).not.toHaveBeenCalled();
+      expect(mockCtx.fill).toHaveBeenCalledWith(mockPath);
+    });
+
+    it("should stroke the RMS body of the line style", () => {
+      const rmsPath = {} as Path2D;
+
+      renderingEngine.render(
+        { ...mockCache, rmsPath },
+        { ...mockOptions, borderWidth: 0, progress: 0, rmsColor: "#123456", style: "line" },
+        mockPath,
+      );
+
+      expect(mockCtx.stroke).toHaveBeenCalledWith(rmsPath);
+      expect(mockCtx.fill).not.toHaveBeenCalled();
+    });
+
+    it("should keep running hooks", () => {
+      const afterBackground = vi.fn();
+      renderingEngine.setHooks({ afterBackground });
+
+      renderingEngine.render(mockCache, { ...mockOptions, style: "dots" }, mockPath);
+
+      expect(afterBackground).toHaveBeenCalled();
+    });
+  });
+
+  describe("channel colors", () => {
+    let channelCache: RenderCache;
+
+    beforeEach(() => {
+      channelCache = {
+        ...mockCache,
+        channelCount: 2,
+        bars: [
+          { x: 0, y: 25, width: 4, height: 50, peakValue: 0.5, channel: 0 },
+          { x: 0, y: 125, width: 4, height: 50, peakValue: 0.5, channel: 1 },
+        ],
+      };
+    });
+
+    it("should fill each channel path with its own color", () => {
+      const leftPath = {} as Path2D;
+      const rightPath = {} as Path2D;
+      const fillStyles: string[] = [];
+      vi.mocked(mockCtx.fill).mockImplementation(() => fillStyles.push(mockCtx.fillStyle as string));
+      channelCache.channelPaths = [leftPath, rightPath];
+
+      renderingEngine.render(
+        channelCache,
+        { ...mockOptions, borderRadius: 0, progress: 0, channelColors: ["#ff0000", "#00ff00"] },
+        mockPath,
+      );
+
+      expect(mockCtx.fill).toHaveBeenCalledWith(leftPath);
+      expect(mockCtx.fill).toHaveBeenCalledWith(rightPath);
+      expect(mockCtx.fill).not.toHaveBeenCalledWith(mockPath);
+      expect(fillStyles).toEqual(["#ff0000", "#00ff00"]);
+    });
+
+    it("should fall back to the background color for channels without a color", () => {
+      const fillStyles: string[] = [];
+      vi.mocked(mockCtx.fill).mockImplementation(() => fillStyles.push(mockCtx.fillStyle as string));
+      channelCache.channelPaths = [{} as Path2D, {} as Path2D];
+
+      renderingEngine.render(
+        channelCache,
+        { ...mockOptions, borderRadius: 0, progress: 0, channelColors: ["#ff0000"] },
+        mockPath,
+      );
+
+      expect(fillStyles).toEqual(["#ff0000", "#f0f0f0"]);
+    });
+
+    it("should share a single progress overlay across channels", () => {
+      channelCache.channelPaths = [{} as Path2D, {} as Path2D];
+
+      renderingEngine.render(channelCache, { ...mockOptions, borderRadius: 0, channelColors: ["#ff0000"] }, mockPath);
+
+      expect(mockCtx.clip).toHaveBeenCalledTimes(1);
+      expect(mockCtx.fillStyle).toBe("#3b82f6");
+      expect(mockCtx.fill).toHaveBeenLastCalledWith(mockPath);
+    });
+
+    it("should batch fallback bars by channel", () => {
+      delete (Path2D.prototype as any).roundRect;
+      delete (mockCtx as any).roundRect;
+
+      renderingEngine.render(channelCache, { ...mockOptions, progress: 0, channelColors: ["#ff0000", "#00ff00"] });
+
+      expect(mockCtx.beginPath).toHaveBeenCalledTimes(2);
+      expect(mockCtx.fill).toHaveBeenCalledTimes(2);
+      expect(mockCtx.fillStyle).toBe("#00ff00");
+    });
+  });
+
+  describe("paints", () => {
+    const gradientPaint = {
+      type: "linearGradient" as const,
+      stops: [
+        { offset: 0, color: "#ff0000" },
+        { offset: 1, color: "#0000ff" },
+      ],
+    };
+
+    beforeEach(() => {
+      (mockCtx as any).createLinearGradient = vi.fn(() => ({ addColorStop: vi.fn() }));
+      (mockCtx as any).createPattern = vi.fn(() => ({}));
+    });
+
+    it("should fill with a gradient sized to the canvas", () => {
+      renderingEngine.render(
+        mockCache,
+        { ...mockOptions, backgroundColor: gradientPaint, borderRadius: 0, progress: 0 },
+        mockPath,
+      );
+
+      expect(mockCtx.createLinearGradient).toHaveBeenCalledWith(0, 0, 0, 200);
+      expect(mockCtx.fillStyle).toBe(vi.mocked(mockCtx.createLinearGradient).mock.results[0].value);
+      expect(mockCtx.fill).toHaveBeenCalledWith(mockPath);
+    });
+
+    it("should reuse resolved paints until the cache is rebuilt", () => {
+      const options = { ...mockOptions, backgroundColor: gradientPaint, progress: 0 };
+
+      renderingEngine.render(mockCache, options, mockPath);
+      renderingEngine.render(mockCache, options, mockPath);
+      expect(mockCtx.createLinearGradient).toHaveBeenCalledTimes(1);
+
+      // A resize builds a new cache, so the gradient is sized again
+      renderingEngine.render({ ...mockCache, canvasHeight: 100, paints: undefined }, options, mockPath);
+      expect(mockCtx.createLinearGradient).toHaveBeenCalledTimes(2);
+      expect(mockCtx.createLinearGradient).toHaveBeenLastCalledWith(0, 0, 0, 100);
+    });
+
+    it("should fill each bar with a gradient in bar units", () => {
+      renderingEngine.render(
+        mockCache,
+        {
+          ...mockOptions,
+          backgroundColor: { ...gradientPaint, units: "bar" },
+          borderRadius: 0,
+          borderWidth: 0,
+          progress: 0,
+        },
+        mockPath,
+      );
+
+      expect(mockCtx.createLinearGradient).toHaveBeenCalledTimes(3);
+      expect(mockCtx.createLinearGradient).toHaveBeenCalledWith(8, 80, 8, 150);
+      expect(mockCtx.rect).toHaveBeenCalledWith(8, 80, 4, 70);
+      expect(mockCtx.fill).toHaveBeenCalledTimes(3);
+      expect(mockCtx.fill).not.toHaveBeenCalledWith(mockPath);
+    });
+
+    it("should fill each bar with a bar gradient in fallback mode", () => {
+      delete (Path2D.prototype as any).roundRect;
+
+      renderingEngine.render(mockCache, {
+        ...mockOptions,
+        backgroundColor: { ...gradientPaint, units: "bar" },
+        progress: 0,
+      });
+
+      expect(mockCtx.createLinearGradient).toHaveBeenCalledTimes(3);
+      expect(mockCtx.fill).toHaveBeenCalledTimes(3);
+      expect(mockCtx.stroke).toHaveBeenCalledTimes(1);
+    });
+
+    it("should apply paints to the progress fill and borders", () => {
+      const border = vi.fn(() => "#123456");
+
+      renderingEngine.render(
+        mockCache,
+        { ...mockOptions, borderColor: border, color: { type: "pattern", source: {} as CanvasImageSource } },
+        mockPath,
+      );
+
+      expect(border).toHaveBeenCalledWith(mockCtx, { x: 0, y: 0, width: 800, height: 200 });
+      expect(border).toHaveBeenCalledTimes(1);
+      expect(mockCtx.strokeStyle).toBe("#123456");
+      expect(mockCtx.createPattern).toHaveBeenCalledTimes(1);
+      expect(mockCtx.fillStyle).toBe(vi.mocked(mockCtx.createPattern).mock.results[0].value);
+    });
+
+    it("should stroke line styles with paints", () => {
+      renderingEngine.render(
+        mockCache,
+        { ...mockOptions, backgroundColor: gradientPaint, borderWidth: 0, progress: 0, style: "line" },
+        mockPath,
+      );
+
+      expect(mockCtx.strokeStyle).toBe(vi.mocked(mockCtx.createLinearGradient).mock.results[0].value);
+    });
+  });
+
+  describe("bar colors", () => {
+    const loudBars = (bar: CachedBarData) => (bar.peakValue > 0.4 ? "#ff0000" : null);
+
+    it("should batch bars by color into one fill each", () => {
+      const fillStyles: string[] = [];
+      vi.mocked(mockCtx.fill).mockImplementation(() => fillStyles.push(mockCtx.fillStyle as string));
+
+      renderingEngine.render(mockCache, { ...mockOptions, barColor: loudBars, borderRadius: 0, progress: 0 }, mockPath);
+
+      expect(fillStyles).toEqual(["#ff0000", "#f0f0f0"]);
+      expect(mockCtx.fill).not.toHaveBeenCalledWith(mockPath);
+      expect(mockCache.barColorGroups?.unplayed?.map(group => group.bars.length)).toEqual([2, 1]);
+      expect(mockCtx.stroke).toHaveBeenCalledWith(mockPath);
+    });
+
+    it("should pass the progress state and fall back to the progress color", () => {
+      const barColor = vi.fn((bar: CachedBarData, _index: number, state: string) =>
+        state === "played" && bar.peakValue > 0.6 ? "#00ff00" : undefined,
+      );
+      const fillStyles: string[] = [];
+      vi.mocked(mockCtx.fill).mockImplementation(() => fillStyles.push(mockCtx.fillStyle as string));
+
+      renderingEngine.render(mockCache, { ...mockOptions, barColor, borderRadius: 0 }, mockPath);
+
+      expect(barColor).toHaveBeenCalledWith(mockCache.bars[1], 1, "played");
+      expect(barColor).toHaveBeenCalledWith(mockCache.bars[1], 1, "unplayed");
+      expect(fillStyles).toEqual(["#f0f0f0", "#3b82f6", "#00ff00"]);
+      expect(mockCtx.clip).toHaveBeenCalledTimes(1);
+    });
+
+    it("should group bars once per cache", () => {
+      const barColor = vi.fn(() => "#ff0000");
+      const options = { ...mockOptions, barColor, borderRadius: 0 };
+
+      renderingEngine.render(mockCache, options, mockPath);
+      renderingEngine.render(mockCache, options, mockPath);
+
+      expect(barColor).toHaveBeenCalledTimes(6);
+    });
+
+    it("should count indexes per channel", () => {
+      const barColor = vi.fn(() => null);
+      const channelCache: RenderCache = {
+        ...mockCache,
+        channelCount: 2,
+        bars: [
+          { x: 0, y: 25, width: 4, height: 50, peakValue: 0.5, channel: 0 },
+          { x: 8, y: 25, width: 4, height: 50, peakValue: 0.5, channel: 0 },
+          { x: 0, y: 125, width: 4, height: 50, peakValue: 0.5, channel: 1 },
+        ],
+      };
+
+      renderingEngine.render(channelCache, { ...mockOptions, barColor, borderRadius: 0, progress: 0 }, mockPath);
+
+      expect(barColor.mock.calls.map(call => call[1])).toEqual([0, 1, 0]);
+    });
+
+    it("should sample colormaps", () => {
+      renderingEngine.render(mockCache, { ...mockOptions, barColor: "viridis", borderRadius: 0 }, mockPath);
+
+      expect(mockCache.barColorGroups?.played).toHaveLength(3);
+      expect(mockCache.barColorGroups?.unplayed?.[0].paint).toMatch(/^rgba\(.*, 0\.5\)$/);
+    });
+
+    it("should batch bars by color in fallback mode", () => {
+      delete (Path2D.prototype as any).roundRect;
+
+      renderingEngine.render(mockCache, { ...mockOptions, barColor: loudBars, borderWidth: 0, progress: 0 });
+
+      expect(mockCtx.beginPath).toHaveBeenCalledTimes(2);
+      expect(mockCtx.fill).toHaveBeenCalledTimes(2);
+      expect(mockCtx.roundRect).toHaveBeenCalledTimes(3);
+    });
+
+    it("should be ignored by connected styles", () => {
+      const barColor = vi.fn(() => "#ff0000");
+
+      renderingEngine.render(mockCache, { ...mockOptions, barColor, style: "area", progress: 0 }, mockPath);
+
+      expect(barColor).not.toHaveBeenCalled();
+      expect(mockCtx.fill).toHaveBeenCalledWith(mockPath);
+    });
+  });
+
+  describe("regions", () => {
+    beforeEach(() => {
+      (mockCtx as any).fillRect = vi.fn();
+      (mockCtx as any).fillText = vi.fn();
+    });
+
+    it("should shade regions before the progress layer", () => {
+      const calls: string[] = [];
+      vi.mocked(mockCtx.fillRect).mockImplementation(() => calls.push(`rect ${mockCtx.fillStyle}`));
+      vi.mocked(mockCtx.fill).mockImplementation(() => calls.push(`fill ${mockCtx.fillStyle}`));
+      renderingEngine.setRegions([
+        { id: "a", start: 0.25, end: 0.5 },
+        { id: "b", start: 0.75, end: 1, color: "rgba(255, 0, 0, 0.3)" },
+      ]);
+
+      renderingEngine.render(mockCache, { ...mockOptions, borderRadius: 0 }, mockPath);
+
+      expect(mockCtx.fillRect).toHaveBeenCalledWith(200, 0, 200, 200);
+      expect(mockCtx.fillRect).toHaveBeenCalledWith(600, 0, 200, 200);
+      expect(calls).toEqual(["fill #f0f0f0", "rect rgba(0, 0, 255, 0.2)", "rect rgba(255, 0, 0, 0.3)", "fill #3b82f6"]);
+    });
+
+    it("should draw labels inside their region", () => {
+      renderingEngine.setRegions([{ id: "a", start: 0.25, end: 0.5, label: "Chorus" }]);
+
+      renderingEngine.render(mockCache, mockOptions, mockPath);
+
+      expect(mockCtx.fillText).toHaveBeenCalledWith("Chorus", 204, 4, 192);
+    });
+
+    it("should clip regions to the viewport", () => {
+      renderingEngine.setRegions([
+        { id: "a", start: 0, end: 0.6 },
+        { id: "b", start: 0.8, end: 0.9 },
+      ]);
+
+      renderingEngine.render({ ...mockCache, viewport: { start: 0.5, end: 0.75 } }, mockOptions, mockPath);
+
+      expect(mockCtx.fillRect).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(mockCtx.fillRect).mock.calls[0][0]).toBe(0);
+      expect(vi.mocked(mockCtx.fillRect).mock.calls[0][2]).toBeCloseTo(320);
+    });
+  });
+
+  describe("markers", () => {
+    beforeEach(() => {
+      (mockCtx as any).fillRect = vi.fn();
+      (mockCtx as any).fillText = vi.fn();
+      (mockCtx as any).measureText = vi.fn((text: string) => ({ width: text.length * 6 }));
+    });
+
+    it("should draw marker lines with the merged style", () => {
+      renderingEngine.setMarkers([
+        { id: "a", position: 0.25 },
+        { id: "b", position: 0.5, style: { color: "#00ff00", style: "dashed" } },
+      ]);
+
+      renderingEngine.render(mockCache, mockOptions, mockPath);
+
+      expect(mockDrawProgressLine).toHaveBeenCalledWith(mockCtx, 200, 200, mockOptions.markerStyle);
+      expect(mockDrawProgressLine).toHaveBeenCalledWith(mockCtx, 400, 200, {
+        ...mockOptions.markerStyle,
+        color: "#00ff00",
+        style: "dashed",
+      });
+    });
+
+    it("should draw labelled flags and record them for hit testing", () => {
+      renderingEngine.setMarkers([{ id: "a", position: 0.25, label: "Drop" }]);
+
+      renderingEngine.render(mockCache, mockOptions, mockPath);
+
+      expect(mockCtx.fillRect).toHaveBeenCalledWith(200, 0, 32, 16);
+      expect(mockCtx.fillText).toHaveBeenCalledWith("Drop", 204, 8);
+      expect(renderingEngine.getMarkerFlags()).toEqual([{ id: "a", x: 200, y: 0, width: 32, height: 16 }]);
+    });
+
+    it("should stack colliding labels below each other", () => {
+      renderingEngine.setMarkers([
+        { id: "a", position: 0.25, label: "Verse" },
+        { id: "b", position: 0.26, label: "Chorus" },
+      ]);
+
+      renderingEngine.render(mockCache, mockOptions, mockPath);
+
+      expect(renderingEngine.getMarkerFlags().map(flag => flag.y)).toEqual([0, 16]);
+    });
+
+    it("should skip markers outside the viewport", () => {
+      renderingEngine.setMarkers([
+        { id: "a", position: 0.1 },
+        { id: "b", position: 0.6 },
+      ]);
+
+      renderingEngine.render({ ...mockCache, viewport: { start: 0.5, end: 0.75 } }, mockOptions, mockPath);
+
+      expect(mockDrawProgressLine).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(mockDrawProgressLine).mock.calls[0][1]).toBeCloseTo(320);
+      expect(renderingEngine.getMarkerFlags().map(flag => flag.id)).toEqual(["b"]);
+    });
+
+    it("should clear the flags once markers are removed", () => {
+      renderingEngine.setMarkers([{ id: "a", position: 0.25 }]);
+      renderingEngine.render(mockCache, mockOptions, mockPath);
+
+      renderingEngine.setMarkers([]);
+      renderingEngine.render(mockCache, mockOptions, mockPath);
+
+      expect(renderingEngine.getMarkerFlags()).toEqual([]);
+    });
+  });
+
+  describe("time ruler", () => {
+    let rulerOptions: Required<WaveformOptions>;
+
+    beforeEach(() => {
+      Object.assign(mockCtx, { fillText: vi.fn(), lineTo: vi.fn(), moveTo: vi.fn() });
+      rulerOptions = { ...mockOptions, duration: 8, timeRuler: { ...DEFAULT_TIME_RULER_OPTIONS, height: 20 } };
+    });
+
+    it("should label major ticks with the formatted time", () => {
+      renderingEngine.render(mockCache, rulerOptions, mockPath);
+
+      // 100px per second: labels every second, minor ticks every tenth
+      const labels = vi.mocked(mockCtx.fillText).mock.calls.map(([text, x, y]) => [text, x, y]);
+      expect(labels[0]).toEqual(["0:00", 3, 10]);
+      expect(labels[1]).toEqual(["0:01", 103, 10]);
+      expect(labels).toHaveLength(9);
+      expect(mockCtx.moveTo).toHaveBeenCalledTimes(82); // Baseline and 81 ticks
+    });
+
+    it("should grow ticks from the edge facing the waveform", () => {
+      renderingEngine.render(mockCache, rulerOptions, mockPath);
+      expect(mockCtx.lineTo).toHaveBeenCalledWith(100, 10);
+      expect(mockCtx.lineTo).toHaveBeenCalledWith(20, 15);
+
+      vi.mocked(mockCtx.lineTo).mockClear();
+      renderingEngine.render(
+        mockCache,
+        { ...rulerOptions, timeRuler: { ...rulerOptions.timeRuler, position: "bottom" } },
+        mockPath,
+      );
+      expect(mockCtx.lineTo).toHaveBeenCalledWith(100, 190);
+    });
+
+    it("should follow the viewport", () => {
+      renderingEngine.render({ ...mockCache, viewport: { start: 0.5, end: 0.75 } }, rulerOptions, mockPath);
+
+      // 2 seconds across 800px, starting at 4 seconds
+      expect(mockCtx.fillText).toHaveBeenCalledWith("0:04.0", 3, 10);
+      expect(mockCtx.fillText).toHaveBeenCalledWith("0:04.2", expect.closeTo(83), 10);
+    });
+
+    it("should use custom formatters", () => {
+      const format = vi.fn((seconds: number) => `${seconds}s`);
+
+      renderingEngine.render(
+        mockCache,
+        { ...rulerOptions, timeRuler: { ...rulerOptions.timeRuler, format, locale: "fr-FR" } },
+        mockPath,
+      );
+
+      expect(format).toHaveBeenCalledWith(1, expect.objectContaining({ interval: 1, locale: "fr-FR" }));
+      expect(mockCtx.fillText).toHaveBeenCalledWith("1s", 103, 10);
+    });
+
+    it("should not draw without a duration", () => {
+      renderingEngine.render(mockCache, { ...rulerOptions, duration: null }, mockPath);
+
+      expect(mockCtx.fillText).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("hover", () => {
+    let hoverOptions: Required<WaveformOptions>;
+    const hover = (x: number, info: Partial<HoverInfo> = {}): HoverInfo => ({
+      bar: null,
+      progress: x / 800,
+      time: null,
+      x,
+      y: 50,
+      ...info,
+    });
+
+    beforeEach(() => {
+      Object.assign(mockCtx, {
+        fillRect: vi.fn(),
+        fillText: vi.fn(),
+        lineTo: vi.fn(),
+        measureText: vi.fn().mockReturnValue({ width: 40 }),
+        moveTo: vi.fn(),
+      });
+      hoverOptions = { ...mockOptions, hover: { ...DEFAULT_HOVER_OPTIONS } };
+    });
+
+    it("should shade the waveform between the playhead and the pointer", () => {
+      renderingEngine.setHover(hover(600));
+      renderingEngine.render(mockCache, hoverOptions, mockPath);
+      expect(mockCtx.rect).toHaveBeenCalledWith(400, 0, 200, 200);
+
+      vi.mocked(mockCtx.rect).mockClear();
+      renderingEngine.setHover(hover(100));
+      renderingEngine.render(mockCache, hoverOptions, mockPath);
+      expect(mockCtx.rect).toHaveBeenCalledWith(100, 0, 300, 200);
+    });
+
+    it("should not shade without a shade color", () => {
+      renderingEngine.setHover(hover(600));
+      renderingEngine.render(
+        mockCache,
+        { ...hoverOptions, hover: { ...DEFAULT_HOVER_OPTIONS, shadeColor: null } },
+        mockPath,
+      );
+
+      expect(mockCtx.rect).not.toHaveBeenCalledWith(400, 0, 200, 200);
+    });
+
+    it("should draw the cursor and a tooltip beside it", () => {
+      renderingEngine.setHover(hover(600));
+      renderingEngine.render(mockCache, hoverOptions, mockPath);
+
+      expect(mockDrawProgressLine).toHaveBeenCalledWith(
+        mockCtx,
+        600,
+        200,
+        expect.objectContaining({ color: DEFAULT_HOVER_OPTIONS.color, heightPercent: 1, width: 1 }),
+      );
+      expect(mockCtx.fillRect).toHaveBeenCalledWith(604, 2, 48, 16);
+      expect(mockCtx.fillText).toHaveBeenCalledWith("75.0%", 608, 10);
+    });
+
+    it("should flip the tooltip at the right edge and keep it below a top ruler", () => {
+      renderingEngine.setHover(hover(790));
+      renderingEngine.render(
+        mockCache,
+        { ...hoverOptions, duration: 8, timeRuler: { ...DEFAULT_TIME_RULER_OPTIONS, height: 20 } },
+        mockPath,
+      );
+
+      expect(mockCtx.fillRect).toHaveBeenCalledWith(738, 22, 48, 16);
+    });
+
+    it("should use custom tooltips or hide them", () => {
+      const tooltip = vi.fn(() => "custom");
+
+      renderingEngine.setHover(hover(600));
+      renderingEngine.render(mockCache, { ...hoverOptions, hover: { ...DEFAULT_HOVER_OPTIONS, tooltip } }, mockPath);
+      expect(tooltip).toHaveBeenCalledWith(hover(600));
+      expect(mockCtx.fillText).toHaveBeenCalledWith("custom", 608, 10);
+
+      vi.mocked(mockCtx.fillText).mockClear();
+      renderingEngine.render(
+        mockCache,
+        { ...hoverOptions, hover: { ...DEFAULT_HOVER_OPTIONS, tooltip: false } },
+        mockPath,
+      );
+      expect(mockCtx.fillText).not.toHaveBeenCalled();
+    });
+
+    it("should draw nothing once the pointer leaves or without hover options", () => {
+      renderingEngine.setHover(hover(600));
+      renderingEngine.render(mockCache, mockOptions, mockPath);
+
+      renderingEngine.setHover(null);
+      renderingEngine.render(mockCache, hoverOptions, mockPath);
+
+      // Only the playhead
+      expect(mockDrawProgressLine).toHaveBeenCalledTimes(2);
+      expect(mockCtx.fillText).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("buffered ranges", () => {
+    it("should paint buffered ranges past the playhead between background and progress", () => {
+      const calls: string[] = [];
+      vi.mocked(mockCtx.rect).mockImplementation((x, y, w) => calls.push(`rect ${x} ${w}`));
+      vi.mocked(mockCtx.fill).mockImplementation(() => calls.push(`fill ${mockCtx.fillStyle}`));
+      renderingEngine.setBufferedRanges([
+        { start: 0, end: 0.75 },
+        { start: 0.875, end: 1 },
+      ]);
+
+      renderingEngine.render(mockCache, mockOptions, mockPath);
+
+      expect(calls).toEqual([
+        "fill #f0f0f0",
+        "rect 400 200",
+        "rect 700 100",
+        "fill #999999",
+        "rect 0 400",
+        "fill #3b82f6",
+      ]);
+    });
+
+    it("should keep the RMS body on top of buffered ranges", () => {
+      const fillStyles: string[] = [];
+      vi.mocked(mockCtx.fill).mockImplementation(() => fillStyles.push(mockCtx.fillStyle as string));
+      renderingEngine.setBufferedRanges([{ start: 0, end: 1 }]);
+
+      renderingEngine.render(
+        { ...mockCache, rmsPath: {} as Path2D },
+        { ...mockOptions, borderRadius: 0, progress: 0, rmsColor: "#333" },
+        mockPath,
+      );
+
+      expect(fillStyles).toEqual(["#f0f0f0", "#999999", "#333"]);
+    });
+
+    it("should follow the viewport and skip hidden ranges", () => {
+      renderingEngine.setBufferedRanges([
+        { start: 0, end: 0.6 },
+        { start: 0.9, end: 1 },
+      ]);
+
+      renderingEngine.render(
+        { ...mockCache, viewport: { start: 0.5, end: 0.75 } },
+        { ...mockOptions, progress: 0 },
+        mockPath,
+      );
+
+      expect(mockCtx.rect).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(mockCtx.rect).mock.calls[0][2]).toBeCloseTo(320);
+    });
+
+    it("should draw nothing without a buffered color or past the buffered end", () => {
+      renderingEngine.setBufferedRanges([{ start: 0, end: 0.25 }]);
+
+      renderingEngine.render(mockCache, { ...mockOptions, progress: 0.5 }, mockPath);
+      renderingEngine.render(mockCache, { ...mockOptions, bufferedColor: null, progress: 0 }, mockPath);
+
+      expect(mockCtx.clip).toHaveBeenCalledTimes(1); // The progress layer only
+    });
+
+    it("should paint buffered bars on the fallback path", () => {
+      delete (Path2D.prototype as any).roundRect;
+      delete (mockCtx as any).roundRect;
+      renderingEngine.setBufferedRanges([{ start: 0, end: 1 }]);
+
+      renderingEngine.render(mockCache, { ...mockOptions, progress: 0 });
+
+      expect(mockCtx.rect).toHaveBeenCalledWith(0, 0, 800, 200);
+      expect(mockCtx.rect).toHaveBeenCalledTimes(7); // Clip and three bars, twice
+    });
+  });
+
+  describe("accessibility", () => {
+    beforeEach(() => {
+      Object.assign(mockCtx, { fillRect: vi.fn(), fillText: vi.fn(), strokeRect: vi.fn() });
+    });
+
+    it("should draw the focus ring inside the canvas while focused", () => {
+      const options = { ...mockOptions, accessibility: { ...DEFAULT_ACCESSIBILITY_OPTIONS, focusRingWidth: 4 } };
+
+      renderingEngine.render(mockCache, options, mockPath);
+      expect(mockCtx.strokeRect).not.toHaveBeenCalled();
+
+      renderingEngine.setFocused(true);
+      renderingEngine.render(mockCache, options, mockPath);
+      expect(mockCtx.strokeRect).toHaveBeenCalledWith(2, 2, 796, 196);
+      expect(mockCtx.strokeStyle).toBe("#2563EB");
+    });
+
+    it("should not draw the focus ring without accessibility options", () => {
+      renderingEngine.setFocused(true);
+      renderingEngine.render(mockCache, mockOptions, mockPath);
+
+      expect(mockCtx.strokeRect).not.toHaveBeenCalled();
+    });
+
+    it("should outline regions and ignore item colors in forced colors mode", () => {
+      renderingEngine.setForcedColors(true);
+      renderingEngine.setRegions([{ id: "a", start: 0.25, end: 0.5, color: "rgba(255, 0, 0, 0.3)" }]);
+      renderingEngine.setMarkers([{ id: "m", position: 0.75, style: { color: "#00ff00", width: 3 } }]);
+
+      renderingEngine.render(mockCache, { ...mockOptions, regionColor: "Highlight" }, mockPath);
+
+      expect(mockCtx.fillRect).not.toHaveBeenCalledWith(200, 0, 200, 200);
+      expect(mockCtx.strokeRect).toHaveBeenCalledWith(201, 1, 198, 198);
+      expect(mockDrawProgressLine).toHaveBeenCalledWith(
+        mockCtx,
+        600,
+        200,
+        expect.objectContaining({ color: mockOptions.markerStyle.color, width: 3 }),
+      );
+    });
+  });
+
   describe("fallback rendering", () => {
     it("should render bars with fallback method", () => {
       // Force fallback by removing roundRect from both contexts
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  DEFAULT_ACCESSIBILITY_OPTIONS,
+  DEFAULT_HOVER_OPTIONS,
+  DEFAULT_OPTIONS,
+  DEFAULT_TIME_RULER_OPTIONS,
+} from "../../src/constants";
+import {
+  applyForcedColors,
+  findAdjacentPosition,
+  formatValueText,
+  getKeyName,
+  resolveKeyBindings,
+} from "../../src/utils/accessibility";
+
+const key = (name: string, modifiers: Partial<KeyboardEvent> = {}) => ({
+  altKey: false,
+  ctrlKey: false,
+  key: name,
+  metaKey: false,
+  shiftKey: false,
+  ...modifiers,
+});
+
+describe("accessibility utilities", () => {
+  describe("getKeyName", () => {
+    it("should name keys with their modifiers", () => {
+      expect(getKeyName(key("ArrowLeft"))).toBe("ArrowLeft");
+      expect(getKeyName(key("ArrowLeft", { altKey: true, ctrlKey: true }))).toBe("Ctrl+Alt+ArrowLeft");
+      expect(getKeyName(key("Home", { metaKey: true, shiftKey: true }))).toBe("Shift+Meta+Home");
+    });
+
+    it("should follow Shift rather than Caps Lock for letters", () => {
+      expect(getKeyName(key("m"))).toBe("m");
+      expect(getKeyName(key("M"))).toBe("m");
+      expect(getKeyName(key("M", { shiftKey: true }))).toBe("Shift+M");
+    });
+  });
+
+  describe("resolveKeyBindings", () => {
+    it("should map the default keys", () => {
+      const bindings = resolveKeyBindings();
+
+      expect(bindings.get("ArrowRight")).toBe("stepForward");
+      expect(bindings.get("ArrowDown")).toBe("stepBackward");
+      expect(bindings.get("PageUp")).toBe("largeStepForward");
+      expect(bindings.get("Shift+R")).toBe("previousRegion");
+    });
+
+    it("should replace the keys of rebound actions", () => {
+      const bindings = resolveKeyBindings({ nextMarker: ["n", "Ctrl+ArrowRight"], home: [] });
+
+      expect(bindings.get("n")).toBe("nextMarker");
+      expect(bindings.get("Ctrl+ArrowRight")).toBe("nextMarker");
+      expect(bindings.has("m")).toBe(false);
+      expect(bindings.has("Home")).toBe(false);
+      expect(bindings.get("End")).toBe("end");
+    });
+  });
+
+  describe("findAdjacentPosition", () => {
+    const positions = [0.6, 0.2, 0.4];
+
+    it("should find the nearest position in either direction", () => {
+      expect(findAdjacentPosition(positions, 0.3, 1)).toBe(0.4);
+      expect(findAdjacentPosition(positions, 0.3, -1)).toBe(0.2);
+    });
+
+    it("should skip the position the playhead is on", () => {
+      expect(findAdjacentPosition(positions, 0.4, 1)).toBe(0.6);
+      expect(findAdjacentPosition(positions, 0.4, -1)).toBe(0.2);
+    });
+
+    it("should return null past the last position", () => {
+      expect(findAdjacentPosition(positions, 0.6, 1)).toBeNull();
+      expect(findAdjacentPosition([], 0.5, -1)).toBeNull();
+    });
+  });
+
+  describe("formatValueText", () => {
+    it("should read the time out of the duration", () => {
+      expect(formatValueText(0.5, { ...DEFAULT_OPTIONS, duration: 130 })).toBe("1:05 of 2:10");
+    });
+
+    it("should use the ruler's format", () => {
+      const options = {
+        ...DEFAULT_OPTIONS,
+        duration: 3600,
+        timeRuler: { ...DEFAULT_TIME_RULER_OPTIONS, format: "hh:mm:ss.ms" as const },
+      };
+
+      expect(formatValueText(0.25, options)).toBe("00:15:00.000 of 01:00:00.000");
+    });
+
+    it("should fall back to a percentage without a duration", () => {
+      expect(formatValueText(0.256, DEFAULT_OPTIONS)).toBe("26%");
+    });
+  });
+
+  describe("applyForcedColors", () => {
+    it("should replace colors with system colors", () => {
+      const options = applyForcedColors({
+        ...DEFAULT_OPTIONS,
+        accessibility: DEFAULT_ACCESSIBILITY_OPTIONS,
+        barColor: "heat",
+        hover: { ...DEFAULT_HOVER_OPTIONS },
+        rmsColor: "rgba(0, 0, 0, 0.5)",
+      });
+
+      expect(options).toMatchObject({
+        backgroundColor: "CanvasText",
+        barColor: null,
+        color: "Highlight",
+        hover: { color: "CanvasText", shadeColor: null },
+        progressLine: { color: "CanvasText" },
+        rmsColor: null,
+      });
+      expect(options.accessibility!.focusRingColor).toBe("Highlight");
+    });
+
+    it("should keep disabled layers disabled", () => {
+      const options = applyForcedColors({ ...DEFAULT_OPTIONS, progressLine: null });
+
+      expect(options.hover).toBeNull();
+      expect(options.progressLine).toBeNull();
+      expect(options.timeRuler).toBeNull();
+    });
+  });
+});
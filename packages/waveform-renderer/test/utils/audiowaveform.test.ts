@@ -0,0 +1,214 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  parseAudiowaveformDat,
+  parseAudiowaveformJson,
+  toAudiowaveformDat,
+  toAudiowaveformJson,
+} from "../../src/utils/audiowaveform";
+
+function createDat(header: number[], values: number[], bits: 8 | 16): ArrayBuffer {
+  const bytesPerValue = bits / 8;
+  const buffer = new ArrayBuffer(header.length * 4 + values.length * bytesPerValue);
+  const view = new DataView(buffer);
+
+  header.forEach((value, i) => view.setInt32(i * 4, value, true));
+  values.forEach((value, i) => {
+    const offset = header.length * 4 + i * bytesPerValue;
+    if (bits === 8) {
+      view.setInt8(offset, value);
+    } else {
+      view.setInt16(offset, value, true);
+    }
+  });
+
+  return buffer;
+}
+
+describe("audiowaveform utilities", () => {
+  describe("parseAudiowaveformDat", () => {
+    it("should parse a version 1 16-bit file", () => {
+      const dat = createDat([1, 0, 44100, 256, 2], [-16384, 16384, -32768, 8192], 16);
+
+      const data = parseAudiowaveformDat(dat);
+
+      expect(data).toEqual({
+        bits: 16,
+        channels: 1,
+        length: 2,
+        peaks: { min: [-0.5, -1], max: [0.5, 0.25] },
+        sampleRate: 44100,
+        samplesPerPixel: 256,
+        version: 1,
+      });
+    });
+
+    it("should parse a version 1 8-bit file", () => {
+      const dat = createDat([1, 1, 48000, 512, 1], [-64, 32], 8);
+
+      const data = parseAudiowaveformDat(dat);
+
+      expect(data.bits).toBe(8);
+      expect(data.peaks).toEqual({ min: [-0.5], max: [0.25] });
+    });
+
+    it("should parse multi-channel version 2 files", () => {
+      // Pixel 0: left, right; pixel 1: left, right
+      const dat = createDat([2, 1, 44100, 256, 2, 2], [-64, 64, -32, 32, -16, 16, -128, 96], 8);
+
+      const data = parseAudiowaveformDat(dat);
+
+      expect(data.channels).toBe(2);
+      expect(data.peaks).toEqual([
+        { min: [-0.5, -0.125], max: [0.5, 0.125] },
+        { min: [-0.25, -1], max: [0.25, 0.75] },
+      ]);
+    });
+
+    it("should accept typed array views", () => {
+      const dat = createDat([1, 1, 44100, 256, 1], [-64, 64], 8);
+      const padded = new Uint8Array(dat.byteLength + 4);
+      padded.set(new Uint8Array(dat), 4);
+
+      const data = parseAudiowaveformDat(padded.subarray(4));
+
+      expect(data.peaks).toEqual({ min: [-0.5], max: [0.5] });
+    });
+
+    it("should reject malformed headers", () => {
+      expect(() => parseAudiowaveformDat(new ArrayBuffer(8))).toThrow(
+        "Audiowaveform data is too short to contain a header",
+      );
+      expect(() => parseAudiowaveformDat(createDat([3, 0, 44100, 256, 0], [], 16))).toThrow(
+        "Unsupported audiowaveform version: 3",
+      );
+      expect(() => parseAudiowaveformDat(createDat([1, 4, 44100, 256, 0], [], 16))).toThrow(
+        "Invalid audiowaveform flags: 4",
+      );
+      expect(() => parseAudiowaveformDat(createDat([1, 0, 0, 256, 0], [], 16))).toThrow(
+        "Invalid audiowaveform sample rate: 0",
+      );
+      expect(() => parseAudiowaveformDat(createDat([2, 0, 44100, 256, 0, 0], [], 16))).toThrow(
+        "Invalid audiowaveform channel count: 0",
+      );
+    });
+
+    it("should reject data shorter than the header length", () => {
+      expect(() => parseAudiowaveformDat(createDat([1, 0, 44100, 256, 4], [0, 0], 16))).toThrow(
+        "Audiowaveform data is shorter than the length in its header",
+      );
+    });
+  });
+
+  describe("parseAudiowaveformJson", () => {
+    const json = {
+      version: 2 as const,
+      channels: 1,
+      sample_rate: 44100,
+      samples_per_pixel: 256,
+      bits: 8 as const,
+      length: 2,
+      data: [-64, 64, -32, 96],
+    };
+
+    it("should parse a JSON document", () => {
+      const data = parseAudiowaveformJson(json);
+
+      expect(data.peaks).toEqual({ min: [-0.5, -0.25], max: [0.5, 0.75] });
+      expect(data.sampleRate).toBe(44100);
+      expect(data.samplesPerPixel).toBe(256);
+    });
+
+    it("should parse JSON strings", () => {
+      expect(parseAudiowaveformJson(JSON.stringify(json))).toEqual(parseAudiowaveformJson(json));
+    });
+
+    it("should treat documents without version and channels as single-channel version 1", () => {
+      const { channels: _channels, version: _version, ...v1 } = json;
+
+      const data = parseAudiowaveformJson(v1);
+
+      expect(data.version).toBe(1);
+      expect(data.channels).toBe(1);
+    });
+
+    it("should reject malformed documents", () => {
+      expect(() => parseAudiowaveformJson({ ...json, bits: 12 as 8 })).toThrow(
+        "Unsupported audiowaveform bit depth: 12",
+      );
+      expect(() => parseAudiowaveformJson({ ...json, data: undefined as unknown as number[] })).toThrow(
+        "Audiowaveform JSON must contain a data array",
+      );
+      expect(() => parseAudiowaveformJson({ ...json, length: 3 })).toThrow(
+        "Audiowaveform data length does not match its header",
+      );
+      expect(() => parseAudiowaveformJson("null")).toThrow("Audiowaveform JSON must be an object");
+    });
+  });
+
+  describe("toAudiowaveformDat", () => {
+    it("should round-trip min/max peaks", () => {
+      const peaks = { min: [-0.5, -0.25], max: [0.5, 0.75] };
+
+      const data = parseAudiowaveformDat(toAudiowaveformDat(peaks, { bits: 8, sampleRate: 48000 }));
+
+      expect(data.peaks).toEqual(peaks);
+      expect(data.version).toBe(2);
+      expect(data.sampleRate).toBe(48000);
+    });
+
+    it("should write absolute peaks as symmetric pairs", () => {
+      const data = parseAudiowaveformDat(toAudiowaveformDat([0.5, 0.25], { version: 1 }));
+
+      expect(data.peaks).toEqual({ min: [-0.5, -0.25], max: [0.5, 0.25] });
+    });
+
+    it("should clamp values to the bit depth", () => {
+      const data = parseAudiowaveformDat(toAudiowaveformDat({ min: [-2], max: [2] }, { bits: 8 }));
+
+      expect(data.peaks).toEqual({ min: [-1], max: [127 / 128] });
+    });
+
+    it("should round-trip multi-channel peaks", () => {
+      const peaks = [
+        { min: [-0.5], max: [0.5] },
+        { min: [-0.25], max: [0.25] },
+      ];
+
+      expect(parseAudiowaveformDat(toAudiowaveformDat(peaks)).peaks).toEqual(peaks);
+    });
+
+    it("should reject multiple channels for version 1", () => {
+      expect(() => toAudiowaveformDat([[0.5], [0.25]], { version: 1 })).toThrow(
+        "Audiowaveform version 1 only supports a single channel",
+      );
+    });
+  });
+
+  describe("toAudiowaveformJson", () => {
+    it("should serialize peaks in the audiowaveform layout", () => {
+      expect(toAudiowaveformJson({ min: [-0.5], max: [0.25] }, { bits: 8 })).toEqual({
+        version: 2,
+        channels: 1,
+        sample_rate: 44100,
+        samples_per_pixel: 256,
+        bits: 8,
+        length: 1,
+        data: [-64, 32],
+      });
+    });
+
+    it("should omit the channel count for version 1", () => {
+      expect(toAudiowaveformJson([0.5], { version: 1 })).not.toHaveProperty("channels");
+    });
+
+    it("should round-trip through the parser", () => {
+      const peaks = [
+        { min: [-0.5, -1], max: [0.5, 0.25] },
+        { min: [-0.25, 0], max: [0.75, 0.5] },
+      ];
+
+      expect(parseAudiowaveformJson(toAudiowaveformJson(peaks)).peaks).toEqual(peaks);
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import {
+  applyAmplitudeScale,
   calculateBarDimensions,
   calculateLineDimensions,
   drawProgressLine,
@@ -35,6 +36,73 @@ describe("canvas utilities", () => {
       const result = calculateBarDimensions(0, 100, 1, "center");
       expect(result).toEqual({ height: 0, y: 50 });
     });
+
+    it("should span from min to max around the centerline for signed peaks", () => {
+      const result = calculateBarDimensions(0.5, 100, 1, "center", -0.2);
+      expect(result).toEqual({ height: 35, y: 25 });
+    });
+
+    it("should draw bars fully above the centerline for positive-only signed peaks", () => {
+      const result = calculateBarDimensions(0.6, 100, 1, "center", 0.2);
+      expect(result).toEqual({ height: 20, y: 20 });
+    });
+
+    it("should apply amplitude to signed peaks", () => {
+      const result = calculateBarDimensions(0.5, 100, 0.5, "center", -0.5);
+      expect(result).toEqual({ height: 25, y: 37.5 });
+    });
+
+    it("should use the signed magnitude for non-center render modes", () => {
+      expect(calculateBarDimensions(0.3, 100, 1, "bottom", -0.6)).toEqual({ height: 60, y: 40 });
+      expect(calculateBarDimensions(0.3, 100, 1, "top", -0.6)).toEqual({ height: 60, y: 0 });
+    });
+
+    it("should apply the amplitude scale before the amplitude", () => {
+      expect(calculateBarDimensions(0.25, 100, 1, "bottom", undefined, "sqrt")).toEqual({ height: 50, y: 50 });
+      expect(calculateBarDimensions(0.25, 100, 0.5, "bottom", undefined, "sqrt")).toEqual({ height: 25, y: 75 });
+    });
+
+    it("should scale signed min/max values around the centerline", () => {
+      const result = calculateBarDimensions(0.25, 100, 1, "center", -0.04, "sqrt");
+
+      expect(result.y).toBeCloseTo(25);
+      expect(result.height).toBeCloseTo(35);
+    });
+  });
+
+  describe("applyAmplitudeScale", () => {
+    it("should leave values unchanged on the linear scale", () => {
+      expect(applyAmplitudeScale(0.3)).toBe(0.3);
+      expect(applyAmplitudeScale(-0.3, "linear")).toBe(-0.3);
+    });
+
+    it("should map decibels between the floor and 0 dB", () => {
+      expect(applyAmplitudeScale(1, "db")).toBe(1);
+      expect(applyAmplitudeScale(0.001, "db")).toBeCloseTo(0); // -60 dB
+      expect(applyAmplitudeScale(0.01, "db")).toBeCloseTo(1 / 3); // -40 dB
+      expect(applyAmplitudeScale(0, "db")).toBe(0);
+    });
+
+    it("should use a configurable decibel floor", () => {
+      expect(applyAmplitudeScale(0.1, { type: "db", floor: -40 })).toBeCloseTo(0.5);
+      expect(applyAmplitudeScale(0.001, { type: "db", floor: -40 })).toBe(0);
+    });
+
+    it("should support square root and power curves", () => {
+      expect(applyAmplitudeScale(0.25, "sqrt")).toBe(0.5);
+      expect(applyAmplitudeScale(0.25, "power")).toBe(0.5);
+      expect(applyAmplitudeScale(0.125, { type: "power", exponent: 1 / 3 })).toBeCloseTo(0.5);
+    });
+
+    it("should keep the sign of negative values", () => {
+      expect(applyAmplitudeScale(-0.25, "sqrt")).toBe(-0.5);
+      expect(applyAmplitudeScale(-1, "db")).toBe(-1);
+    });
+
+    it("should lift quiet values above linear", () => {
+      expect(applyAmplitudeScale(0.05, "db")).toBeGreaterThan(0.05);
+      expect(applyAmplitudeScale(0.05, "sqrt")).toBeGreaterThan(0.05);
+    });
   });
 
   describe("calculateLineDimensions", () => {
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+
+import type { CachedBarData } from "../../src/types";
+import { resolveBarColor, sampleColormap } from "../../src/utils/colormap";
+
+const bar = (peakValue: number, x = 0): CachedBarData => ({ x, y: 0, width: 10, height: 10, peakValue });
+
+describe("colormap utilities", () => {
+  describe("sampleColormap", () => {
+    it("should return the end colors of built-in colormaps", () => {
+      expect(sampleColormap("viridis", 0)).toBe("rgb(68, 1, 84)");
+      expect(sampleColormap("viridis", 1)).toBe("rgb(253, 231, 37)");
+      expect(sampleColormap("heat", 1)).toBe("rgb(255, 255, 255)");
+    });
+
+    it("should blend neighbouring stops", () => {
+      const stops = [
+        { offset: 0, color: "#000000" },
+        { offset: 1, color: "#ffffff" },
+      ];
+
+      expect(sampleColormap(stops, 0.5)).toBe("rgb(128, 128, 128)");
+    });
+
+    it("should sort custom stops and clamp values", () => {
+      const stops = [
+        { offset: 1, color: "rgb(0, 0, 255)" },
+        { offset: 0, color: "#f00" },
+      ];
+
+      expect(sampleColormap(stops, -1)).toBe("rgb(255, 0, 0)");
+      expect(sampleColormap(stops, 2)).toBe("rgb(0, 0, 255)");
+      expect(sampleColormap(stops, 0.25)).toBe("rgb(191, 0, 64)");
+    });
+
+    it("should apply opacity and stop alpha", () => {
+      expect(sampleColormap([{ offset: 0, color: "#ff000080" }], 0)).toBe("rgba(255, 0, 0, 0.502)");
+      expect(sampleColormap([{ offset: 0, color: "rgba(0, 255, 0, 0.5)" }], 0, 0.5)).toBe("rgba(0, 255, 0, 0.25)");
+    });
+
+    it("should reject colors it cannot blend", () => {
+      expect(() => sampleColormap([{ offset: 0, color: "red" }], 0)).toThrow(
+        "Colormap colors must be hex or rgb() values: red",
+      );
+      expect(() => sampleColormap([], 0)).toThrow("Colormaps need at least one stop");
+      expect(() => sampleColormap("jet" as "heat", 0)).toThrow("Unknown colormap: jet");
+    });
+  });
+
+  describe("resolveBarColor", () => {
+    it("should return callbacks unchanged", () => {
+      const callback = () => "#000";
+
+      expect(resolveBarColor(callback, 100)).toBe(callback);
+    });
+
+    it("should map amplitude by default and dim unplayed bars", () => {
+      const getColor = resolveBarColor("viridis", 100);
+
+      expect(getColor(bar(1), 0, "played")).toBe("rgb(253, 231, 37)");
+      expect(getColor(bar(1), 0, "unplayed")).toBe("rgba(253, 231, 37, 0.5)");
+    });
+
+    it("should map the position across the canvas", () => {
+      const getColor = resolveBarColor(
+        {
+          colormap: [
+            { offset: 0, color: "#000000" },
+            { offset: 1, color: "#ffffff" },
+          ],
+          value: "position",
+          unplayedOpacity: 1,
+        },
+        100,
+      );
+
+      expect(getColor(bar(0.2, 95), 0, "unplayed")).toBe("rgb(255, 255, 255)");
+      expect(getColor(bar(0.2, -5), 0, "unplayed")).toBe("rgb(0, 0, 0)");
+    });
+
+    it("should map external values by bar index", () => {
+      const getColor = resolveBarColor({ colormap: "heat", value: [0, 1] }, 100);
+
+      expect(getColor(bar(0.5), 1, "played")).toBe("rgb(255, 255, 255)");
+      expect(getColor(bar(0.5), 5, "played")).toBe("rgb(11, 0, 0)");
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+
+import { DEFAULT_OPTIONS, DEFAULT_TIME_RULER_OPTIONS } from "../../src/constants";
+import type { HoverInfo } from "../../src/types";
+import { formatHoverTooltip } from "../../src/utils/hover";
+
+const info = (options: Partial<HoverInfo> = {}): HoverInfo => ({
+  bar: null,
+  progress: 0.25,
+  time: null,
+  x: 200,
+  y: 50,
+  ...options,
+});
+const bar = { height: 40, peakValue: 0.734, width: 2, x: 200, y: 80 };
+
+describe("hover utilities", () => {
+  describe("formatHoverTooltip", () => {
+    it("should show the progress as a percentage without a time", () => {
+      expect(formatHoverTooltip(info(), DEFAULT_OPTIONS)).toBe("25.0%");
+    });
+
+    it("should show the time in hundredths and the peak of the bar", () => {
+      expect(formatHoverTooltip(info({ bar, time: 75.456 }), DEFAULT_OPTIONS)).toBe("1:15.46 · 0.73");
+    });
+
+    it("should use the time ruler's format", () => {
+      const timeRuler = { ...DEFAULT_TIME_RULER_OPTIONS, format: "smpte" as const, fps: 25 };
+      expect(formatHoverTooltip(info({ time: 2.48 }), { ...DEFAULT_OPTIONS, timeRuler })).toBe("00:00:02:12");
+
+      const format = (seconds: number) => `${seconds}s`;
+      expect(formatHoverTooltip(info({ time: 3 }), { ...DEFAULT_OPTIONS, timeRuler: { format } })).toBe("3s");
+    });
+  });
+});
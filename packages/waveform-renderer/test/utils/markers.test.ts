@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+
+import { createMarker, layoutMarkerLabels } from "../../src/utils/markers";
+
+describe("marker utilities", () => {
+  describe("createMarker", () => {
+    it("should copy the known fields and the style", () => {
+      const style = { color: "red" };
+      const marker = createMarker({ position: 0.5, label: "Drop", style, extra: 1 } as never, "a");
+
+      expect(marker).toEqual({ id: "a", position: 0.5, label: "Drop", style: { color: "red" } });
+      expect(marker.style).not.toBe(style);
+    });
+
+    it("should reject positions outside the waveform", () => {
+      expect(() => createMarker({ position: 1.2 }, "a")).toThrow("Marker position must be between 0 and 1");
+      expect(() => createMarker({ position: NaN }, "a")).toThrow("Marker position must be between 0 and 1");
+    });
+  });
+
+  describe("layoutMarkerLabels", () => {
+    it("should keep separate labels in the first row", () => {
+      expect(
+        layoutMarkerLabels(
+          [
+            { x: 10, width: 40 },
+            { x: 100, width: 40 },
+          ],
+          800,
+          3,
+        ),
+      ).toEqual([
+        { row: 0, x: 10 },
+        { row: 0, x: 100 },
+      ]);
+    });
+
+    it("should stack colliding labels in order of position", () => {
+      const placements = layoutMarkerLabels(
+        [
+          { x: 30, width: 40 },
+          { x: 10, width: 40 },
+          { x: 80, width: 40 },
+        ],
+        800,
+        3,
+      );
+
+      expect(placements).toEqual([
+        { row: 1, x: 30 },
+        { row: 0, x: 10 },
+        { row: 0, x: 80 },
+      ]);
+    });
+
+    it("should elide labels once every row is taken", () => {
+      const placements = layoutMarkerLabels(
+        [
+          { x: 10, width: 40 },
+          { x: 20, width: 40 },
+          { x: 30, width: 40 },
+        ],
+        800,
+        2,
+      );
+
+      expect(placements[2]).toBeNull();
+    });
+
+    it("should flip labels that would run past the right edge", () => {
+      expect(layoutMarkerLabels([{ x: 790, width: 40 }], 800, 1)).toEqual([{ row: 0, x: 750 }]);
+      expect(layoutMarkerLabels([{ x: 20, width: 40 }], 50, 1)).toEqual([{ row: 0, x: 0 }]);
+    });
+  });
+});
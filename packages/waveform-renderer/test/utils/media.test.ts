@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+
+import { readTimeRanges, toBufferedRanges } from "../../src/utils/media";
+
+const timeRanges = (ranges: [number, number][]): TimeRanges => ({
+  end: (index: number) => ranges[index][1],
+  length: ranges.length,
+  start: (index: number) => ranges[index][0],
+});
+
+describe("media utilities", () => {
+  describe("readTimeRanges", () => {
+    it("should copy TimeRanges and pairs", () => {
+      const pairs: [number, number][] = [[0, 10]];
+
+      expect(readTimeRanges(timeRanges([[5, 8]]))).toEqual([[5, 8]]);
+      expect(readTimeRanges(pairs)).toEqual([[0, 10]]);
+      expect(readTimeRanges(pairs)[0]).not.toBe(pairs[0]);
+    });
+
+    it("should sort ranges and merge overlapping ones", () => {
+      expect(
+        readTimeRanges([
+          [40, 50],
+          [0, 10],
+          [5, 20],
+          [20, 25],
+        ]),
+      ).toEqual([
+        [0, 25],
+        [40, 50],
+      ]);
+    });
+
+    it("should reject invalid ranges", () => {
+      expect(() => readTimeRanges([[10, 5]])).toThrow("Buffered ranges must be [start, end] pairs in seconds");
+      expect(() => readTimeRanges([[NaN, 5]])).toThrow("Buffered ranges must be [start, end] pairs in seconds");
+    });
+  });
+
+  describe("toBufferedRanges", () => {
+    it("should convert seconds to absolute positions", () => {
+      expect(
+        toBufferedRanges(
+          timeRanges([
+            [0, 30],
+            [90, 120],
+          ]),
+          120,
+        ),
+      ).toEqual([
+        { end: 0.25, start: 0 },
+        { end: 1, start: 0.75 },
+      ]);
+    });
+
+    it("should clamp ranges and drop empty ones", () => {
+      expect(
+        toBufferedRanges(
+          [
+            [10, 10],
+            [50, Infinity],
+          ],
+          100,
+        ),
+      ).toEqual([{ end: 1, start: 0.5 }]);
+    });
+
+    it("should return nothing without a duration", () => {
+      expect(toBufferedRanges([[0, 10]], null)).toEqual([]);
+      expect(toBufferedRanges(timeRanges([[0, 10]]), NaN)).toEqual([]);
+      expect(toBufferedRanges(timeRanges([[0, 10]]), Infinity)).toEqual([]);
+    });
+  });
+});
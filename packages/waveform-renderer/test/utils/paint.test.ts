@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from "vitest";
+
+import type { PaintArea } from "../../src/types";
+import { isBarPaint, resolvePaint } from "../../src/utils/paint";
+
+function createContext() {
+  const gradient = { addColorStop: vi.fn() };
+  const ctx = {
+    createLinearGradient: vi.fn(() => gradient),
+    createRadialGradient: vi.fn(() => gradient),
+    createPattern: vi.fn(() => ({ setTransform: vi.fn() })),
+  } as unknown as CanvasRenderingContext2D;
+
+  return { ctx, gradient };
+}
+
+const area: PaintArea = { x: 10, y: 20, width: 100, height: 50 };
+
+describe("paint utilities", () => {
+  describe("resolvePaint", () => {
+    it("should return color strings unchanged", () => {
+      const { ctx } = createContext();
+
+      expect(resolvePaint(ctx, "#ff0000", area)).toBe("#ff0000");
+      expect(ctx.createLinearGradient).not.toHaveBeenCalled();
+    });
+
+    it("should build a top to bottom linear gradient by default", () => {
+      const { ctx, gradient } = createContext();
+
+      const style = resolvePaint(
+        ctx,
+        {
+          type: "linearGradient",
+          stops: [
+            { offset: 0, color: "#ff0000" },
+            { offset: 1, color: "#0000ff" },
+          ],
+        },
+        area,
+      );
+
+      expect(style).toBe(gradient);
+      expect(ctx.createLinearGradient).toHaveBeenCalledWith(10, 20, 10, 70);
+      expect(gradient.addColorStop).toHaveBeenNthCalledWith(1, 0, "#ff0000");
+      expect(gradient.addColorStop).toHaveBeenNthCalledWith(2, 1, "#0000ff");
+    });
+
+    it("should scale gradient coordinates to the area", () => {
+      const { ctx } = createContext();
+
+      resolvePaint(
+        ctx,
+        { type: "linearGradient", from: [0, 0.5], to: [1, 0.5], stops: [{ offset: 0, color: "red" }] },
+        area,
+      );
+
+      expect(ctx.createLinearGradient).toHaveBeenCalledWith(10, 45, 110, 45);
+    });
+
+    it("should clamp stop offsets", () => {
+      const { ctx, gradient } = createContext();
+
+      resolvePaint(ctx, { type: "linearGradient", stops: [{ offset: 1.5, color: "red" }] }, area);
+
+      expect(gradient.addColorStop).toHaveBeenCalledWith(1, "red");
+    });
+
+    it("should build radial gradients around the center of the area", () => {
+      const { ctx } = createContext();
+
+      resolvePaint(ctx, { type: "radialGradient", stops: [{ offset: 0, color: "red" }] }, area);
+
+      expect(ctx.createRadialGradient).toHaveBeenCalledWith(60, 45, 0, 60, 45, 50);
+    });
+
+    it("should create repeating patterns", () => {
+      const { ctx } = createContext();
+      const source = {} as CanvasImageSource;
+
+      resolvePaint(ctx, { type: "pattern", source }, area);
+      resolvePaint(ctx, { type: "pattern", source, repetition: "repeat-x" }, area);
+
+      expect(ctx.createPattern).toHaveBeenNthCalledWith(1, source, "repeat");
+      expect(ctx.createPattern).toHaveBeenNthCalledWith(2, source, "repeat-x");
+    });
+
+    it("should fall back to transparent when a pattern cannot be created", () => {
+      const { ctx } = createContext();
+      vi.mocked(ctx.createPattern).mockReturnValue(null);
+
+      expect(resolvePaint(ctx, { type: "pattern", source: {} as CanvasImageSource }, area)).toBe("transparent");
+    });
+
+    it("should call paint callbacks with the context and area", () => {
+      const { ctx } = createContext();
+      const callback = vi.fn(() => "#00ff00");
+
+      expect(resolvePaint(ctx, callback, area)).toBe("#00ff00");
+      expect(callback).toHaveBeenCalledWith(ctx, area);
+    });
+
+    it("should reject gradients without stops", () => {
+      const { ctx } = createContext();
+
+      expect(() => resolvePaint(ctx, { type: "linearGradient", stops: [] }, area)).toThrow(
+        "Gradient paints require at least one color stop",
+      );
+    });
+  });
+
+  describe("isBarPaint", () => {
+    it("should only be true for gradients in bar units", () => {
+      expect(isBarPaint({ type: "linearGradient", stops: [], units: "bar" })).toBe(true);
+      expect(isBarPaint({ type: "radialGradient", stops: [], units: "bar" })).toBe(true);
+      expect(isBarPaint({ type: "linearGradient", stops: [] })).toBe(false);
+      expect(isBarPaint({ type: "pattern", source: {} as CanvasImageSource })).toBe(false);
+      expect(isBarPaint("#000")).toBe(false);
+      expect(isBarPaint(() => "#000")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,264 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { extractPeaks } from "../../src/utils/peak-worker";
+import { getMinMaxPeaksFromAudioBuffer, getPeaksFromAudioBuffer } from "../../src/utils/peaks";
+
+function createMockAudioBuffer(channelData: Float32Array): AudioBuffer {
+  return {
+    getChannelData: vi.fn().mockReturnValue(channelData),
+    length: channelData.length,
+    numberOfChannels: 1,
+    sampleRate: 44100,
+  } as unknown as AudioBuffer;
+}
+
+describe("extractPeaks", () => {
+  const samples = [0.1, -0.8, 0.3, 0.6, -0.2, 0.9, 0.4, -0.7];
+
+  describe("main thread fallback", () => {
+    it("should match the synchronous peak helpers", async () => {
+      const channelData = new Float32Array(samples);
+      const expected = getPeaksFromAudioBuffer(createMockAudioBuffer(channelData), 4);
+
+      const peaks = await extractPeaks(channelData, 4);
+
+      expect(peaks).toHaveLength(4);
+      (peaks as number[]).forEach((peak, i) => expect(peak).toBeCloseTo(expected[i]));
+    });
+
+    it("should support the aggregation modes", async () => {
+      const peaks = (await extractPeaks(new Float32Array([0.5, -0.5, 1, -1]), 2, {
+        aggregation: "meanAbsolute",
+      })) as number[];
+
+      expect(peaks[0]).toBeCloseTo(0.5);
+      expect(peaks[1]).toBeCloseTo(1);
+    });
+
+    it("should return signed min/max pairs", async () => {
+      const channelData = new Float32Array(samples);
+      const expected = getMinMaxPeaksFromAudioBuffer(createMockAudioBuffer(channelData), 4);
+
+      const peaks = await extractPeaks(channelData, 4, { format: "minMax" });
+
+      expect(peaks).toEqual({ max: expect.any(Array), min: expect.any(Array) });
+      expected.max.forEach((value, i) => expect((peaks as any).max[i]).toBeCloseTo(value));
+      expected.min.forEach((value, i) => expect((peaks as any).min[i]).toBeCloseTo(value));
+    });
+
+    it("should include RMS levels for the peakRms format", async () => {
+      const peaks = (await extractPeaks(new Float32Array([0.5, -0.5, 1, -1]), 2, { format: "peakRms" })) as any;
+
+      expect(peaks.rms[0]).toBeCloseTo(0.5);
+      expect(peaks.rms[1]).toBeCloseTo(1);
+    });
+
+    it("should return one normalized entry per channel for channel arrays", async () => {
+      const peaks = await extractPeaks([new Float32Array([0.5, 0.25]), new Float32Array([2, 1])], 2);
+
+      expect(peaks).toHaveLength(2);
+      expect(peaks[0]).toEqual([0.25, 0.125]);
+      expect(peaks[1]).toEqual([1, 0.5]);
+    });
+
+    it("should report progress in chunks", async () => {
+      const onProgress = vi.fn();
+
+      await extractPeaks(new Float32Array(1 << 21), 1024, { onProgress });
+
+      expect(onProgress.mock.calls.length).toBeGreaterThan(1);
+      expect(onProgress).toHaveBeenLastCalledWith(1);
+    });
+
+    it("should stop when the signal is aborted", async () => {
+      const controller = new AbortController();
+      const onProgress = vi.fn(() => controller.abort());
+
+      await expect(
+        extractPeaks(new Float32Array(1 << 21), 1024, { onProgress, signal: controller.signal }),
+      ).rejects.toThrow();
+      expect(onProgress).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reject immediately for an already aborted signal", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(extractPeaks(new Float32Array(samples), 4, { signal: controller.signal })).rejects.toThrow();
+    });
+
+    it("should validate its arguments", async () => {
+      await expect(extractPeaks([], 4)).rejects.toThrow("Channel data must not be empty");
+      await expect(extractPeaks(new Float32Array(samples), 0)).rejects.toThrow(
+        "Number of peaks must be a positive integer",
+      );
+    });
+  });
+
+  describe("worker", () => {
+    let workers: FakeWorker[];
+
+    // Runs the generated worker source against a fake global scope
+    class FakeWorker {
+      public onmessage: ((event: { data: unknown }) => void) | null = null;
+      public onerror: ((event: ErrorEvent) => void) | null = null;
+      public terminate = vi.fn();
+      public postMessage = vi.fn((data: unknown, transfer: Transferable[] = []) => {
+        if (new Set(transfer).size !== transfer.length) {
+          throw new DOMException("ArrayBuffer is listed twice", "DataCloneError");
+        }
+        this.ready.then(() => this.scope.onmessage?.({ data }));
+      });
+
+      private scope: { onmessage?: (event: { data: unknown }) => void; postMessage: (data: unknown) => void } = {
+        postMessage: data => this.onmessage?.({ data }),
+      };
+      private ready: Promise<void>;
+
+      constructor(url: string) {
+        workers.push(this);
+        this.ready = readBlob(blobs.get(url)!).then(source => {
+          new Function("self", source)(this.scope);
+        });
+      }
+    }
+
+    const blobs = new Map<string, Blob>();
+
+    function readBlob(blob: Blob): Promise<string> {
+      return new Promise(resolve => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.readAsText(blob);
+      });
+    }
+
+    beforeEach(() => {
+      workers = [];
+      blobs.clear();
+      vi.stubGlobal("Worker", FakeWorker);
+      // jsdom does not implement object URLs
+      URL.createObjectURL = vi.fn((blob: Blob) => {
+        const url = `blob:peaks-${blobs.size}`;
+        blobs.set(url, blob);
+        return url;
+      });
+      URL.revokeObjectURL = vi.fn();
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      delete (URL as any).createObjectURL;
+      delete (URL as any).revokeObjectURL;
+    });
+
+    it("should extract peaks on a worker", async () => {
+      const onProgress = vi.fn();
+
+      const peaks = await extractPeaks(new Float32Array(samples), 4, { format: "minMax", onProgress });
+
+      expect(workers).toHaveLength(1);
+      expect((peaks as any).max[2]).toBeCloseTo(0.9);
+      expect((peaks as any).min[0]).toBeCloseTo(-0.8);
+      expect(onProgress).toHaveBeenLastCalledWith(1);
+      expect(workers[0].terminate).toHaveBeenCalled();
+    });
+
+    it("should keep the offset of buckets on one side of zero", async () => {
+      const channelData = new Float32Array([0.2, 0.5, -0.6, 0.1, -0.3, -0.1, 0.4, 0.3]);
+
+      const peaks = (await extractPeaks(channelData, 4, { format: "peakRms" })) as any;
+
+      expect(workers).toHaveLength(1);
+      expect(peaks.min[0]).toBeCloseTo(0.2);
+      expect(peaks.max[2]).toBeCloseTo(-0.1);
+      expect(peaks.min[3]).toBeCloseTo(0.3);
+      expect(peaks.max[3]).toBeCloseTo(0.4);
+    });
+
+    it("should transfer channel buffers by default", async () => {
+      const channelData = new Float32Array(samples);
+
+      await extractPeaks(channelData, 4);
+
+      expect(workers[0].postMessage).toHaveBeenCalledWith(expect.any(Object), [channelData.buffer]);
+    });
+
+    it("should transfer a buffer shared by several channels once", async () => {
+      const interleaved = new Float32Array(samples.length * 2);
+      const left = interleaved.subarray(0, samples.length);
+      const right = interleaved.subarray(samples.length);
+      left.set(samples);
+      right.set(samples);
+
+      const peaks = await extractPeaks([left, right], 4);
+
+      expect(peaks).toHaveLength(2);
+      expect(workers[0].postMessage).toHaveBeenCalledWith(expect.any(Object), [interleaved.buffer]);
+    });
+
+    it("should terminate the worker when the request cannot be posted", async () => {
+      vi.stubGlobal(
+        "Worker",
+        class extends FakeWorker {
+          public postMessage = vi.fn(() => {
+            throw new DOMException("An ArrayBuffer is detached", "DataCloneError");
+          });
+        },
+      );
+      const controller = new AbortController();
+      const removeEventListener = vi.spyOn(controller.signal, "removeEventListener");
+
+      const promise = extractPeaks(new Float32Array(samples), 4, { signal: controller.signal });
+
+      await expect(promise).rejects.toThrow("An ArrayBuffer is detached");
+      expect(workers[0].terminate).toHaveBeenCalled();
+      expect(removeEventListener).toHaveBeenCalledWith("abort", expect.any(Function));
+    });
+
+    it("should not transfer buffers when transfer is disabled", async () => {
+      await extractPeaks(new Float32Array(samples), 4, { transfer: false });
+
+      expect(workers[0].postMessage).toHaveBeenCalledWith(expect.any(Object), []);
+    });
+
+    it("should terminate the worker when aborted", async () => {
+      const controller = new AbortController();
+      const promise = extractPeaks(new Float32Array(samples), 4, { signal: controller.signal });
+
+      controller.abort();
+
+      await expect(promise).rejects.toThrow();
+      expect(workers[0].terminate).toHaveBeenCalled();
+    });
+
+    it("should reject with worker errors", async () => {
+      const promise = extractPeaks(new Float32Array(samples), 4);
+
+      workers[0].onmessage?.({ data: { type: "error", message: "Out of memory" } });
+
+      await expect(promise).rejects.toThrow("Out of memory");
+    });
+
+    it("should fall back to the main thread when the worker cannot be created", async () => {
+      vi.stubGlobal(
+        "Worker",
+        class {
+          constructor() {
+            throw new Error("Blocked by CSP");
+          }
+        },
+      );
+
+      const peaks = await extractPeaks(new Float32Array(samples), 4);
+
+      expect(peaks).toHaveLength(4);
+    });
+
+    it("should skip the worker when useWorker is false", async () => {
+      await extractPeaks(new Float32Array(samples), 4, { useWorker: false });
+
+      expect(workers).toHaveLength(0);
+    });
+  });
+});
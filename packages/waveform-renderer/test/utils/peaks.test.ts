@@ -1,6 +1,23 @@
 import { describe, expect, it, vi } from "vitest";
 
-import { getPeaksFromAudioBuffer, normalizePeaks, normalizeProgress } from "../../src/utils/peaks";
+import {
+  getChannelPeaksFromAudioBuffer,
+  getMidSidePeaksFromAudioBuffer,
+  getMinMaxPeaksFromAudioBuffer,
+  getNormalizationDivisor,
+  getPeakChannels,
+  getPeakCount,
+  getPeakRmsFromAudioBuffer,
+  getPeaksFromAudioBuffer,
+  isMinMaxPeaks,
+  isMultiChannelPeaks,
+  normalizeChannelPeaks,
+  normalizeMinMaxPeaks,
+  normalizePeaks,
+  normalizeProgress,
+  normalizeWaveformPeaks,
+  splitInterleavedPeaks,
+} from "../../src/utils/peaks";
 
 describe("peaks utilities", () => {
   describe("getPeaksFromAudioBuffer", () => {
@@ -74,6 +91,231 @@ describe("peaks utilities", () => {
     });
   });
 
+  describe("aggregation modes", () => {
+    function createMockAudioBuffer(channelData: Float32Array): AudioBuffer {
+      return {
+        getChannelData: vi.fn().mockReturnValue(channelData),
+        length: channelData.length,
+        numberOfChannels: 1,
+      } as unknown as AudioBuffer;
+    }
+
+    it("should use peak aggregation by default", () => {
+      const channelData = new Float32Array([0.5, -0.1, 0.1, -0.1]);
+
+      expect(getPeaksFromAudioBuffer(createMockAudioBuffer(channelData), 1)).toEqual([0.5]);
+    });
+
+    it("should compute RMS per segment", () => {
+      const channelData = new Float32Array([0.5, -0.5, 0.5, -0.5, 0.5, 0, -0.5, 0]);
+
+      const peaks = getPeaksFromAudioBuffer(createMockAudioBuffer(channelData), 2, "rms");
+
+      expect(peaks[0]).toBeCloseTo(0.5);
+      expect(peaks[1]).toBeCloseTo(Math.sqrt(0.125));
+    });
+
+    it("should compute mean absolute value per segment", () => {
+      const channelData = new Float32Array([0.5, -0.25, 0, -0.25]);
+
+      const peaks = getPeaksFromAudioBuffer(createMockAudioBuffer(channelData), 1, "meanAbsolute");
+
+      expect(peaks[0]).toBeCloseTo(0.25);
+    });
+
+    it("should return zeros for buckets without samples", () => {
+      const channelData = new Float32Array([0.5]);
+
+      expect(getPeaksFromAudioBuffer(createMockAudioBuffer(channelData), 2, "rms")).toEqual([0, 0]);
+    });
+
+    it("should combine min/max peaks with RMS on a shared scale", () => {
+      const channelData = new Float32Array([2, -2, 1, -1]);
+
+      const peaks = getPeakRmsFromAudioBuffer(createMockAudioBuffer(channelData), 2);
+
+      expect(peaks.min).toEqual([-1, -0.5]);
+      expect(peaks.max).toEqual([1, 0.5]);
+      expect(peaks.rms).toEqual([1, 0.5]);
+    });
+
+    it("should omit RMS from plain min/max extraction", () => {
+      const channelData = new Float32Array([0.2, -0.2]);
+
+      expect(getMinMaxPeaksFromAudioBuffer(createMockAudioBuffer(channelData), 1).rms).toBeUndefined();
+    });
+  });
+
+  describe("getMinMaxPeaksFromAudioBuffer", () => {
+    function createMockAudioBuffer(channelData: Float32Array): AudioBuffer {
+      return {
+        getChannelData: vi.fn().mockReturnValue(channelData),
+        length: channelData.length,
+        numberOfChannels: 1,
+        sampleRate: 44100,
+        duration: channelData.length / 44100,
+      } as unknown as AudioBuffer;
+    }
+
+    it("should extract signed min and max values per segment", () => {
+      const channelData = new Float32Array([0.1, -0.4, 0.5, -0.2, -0.6, -0.1, 0.2, 0.3]);
+      const peaks = getMinMaxPeaksFromAudioBuffer(createMockAudioBuffer(channelData), 2);
+
+      expect(peaks.min).toHaveLength(2);
+      expect(peaks.max).toHaveLength(2);
+      expect(peaks.min[0]).toBeCloseTo(-0.4);
+      expect(peaks.max[0]).toBeCloseTo(0.5);
+      expect(peaks.min[1]).toBeCloseTo(-0.6);
+      expect(peaks.max[1]).toBeCloseTo(0.3);
+    });
+
+    it("should keep the offset of segments on one side of zero", () => {
+      const channelData = new Float32Array([0.2, 0.5, 0.3, 0.4, -0.1, -0.4, -0.2, -0.3]);
+      const peaks = getMinMaxPeaksFromAudioBuffer(createMockAudioBuffer(channelData), 2);
+
+      expect(peaks.min[0]).toBeCloseTo(0.2);
+      expect(peaks.max[0]).toBeCloseTo(0.5);
+      expect(peaks.min[1]).toBeCloseTo(-0.4);
+      expect(peaks.max[1]).toBeCloseTo(-0.1);
+    });
+
+    it("should normalize using the largest magnitude of either side", () => {
+      const channelData = new Float32Array([-2, 1, 0.5, -1]);
+      const peaks = getMinMaxPeaksFromAudioBuffer(createMockAudioBuffer(channelData), 2);
+
+      expect(peaks.min).toEqual([-1, -0.5]);
+      expect(peaks.max).toEqual([0.5, 0.25]);
+    });
+  });
+
+  describe("multi-channel extraction", () => {
+    function createStereoBuffer(left: Float32Array, right: Float32Array): AudioBuffer {
+      return {
+        getChannelData: vi.fn((channel: number) => (channel === 0 ? left : right)),
+        length: left.length,
+        numberOfChannels: 2,
+        sampleRate: 44100,
+        duration: left.length / 44100,
+      } as unknown as AudioBuffer;
+    }
+
+    it("should extract peaks for every channel", () => {
+      const buffer = createStereoBuffer(
+        new Float32Array([0.2, -0.4, 0.1, 0.3]),
+        new Float32Array([0.1, 0.1, -0.2, 0.1]),
+      );
+
+      const channels = getChannelPeaksFromAudioBuffer(buffer, 2);
+
+      expect(channels).toHaveLength(2);
+      expect(channels[0][0]).toBeCloseTo(0.4);
+      expect(channels[1][1]).toBeCloseTo(0.2);
+      expect(buffer.getChannelData).toHaveBeenCalledWith(1);
+    });
+
+    it("should keep channel imbalance when normalizing", () => {
+      const buffer = createStereoBuffer(new Float32Array([2, 2]), new Float32Array([1, 1]));
+
+      const channels = getChannelPeaksFromAudioBuffer(buffer, 1);
+
+      expect(channels).toEqual([[1], [0.5]]);
+    });
+
+    it("should derive mid and side peaks", () => {
+      const buffer = createStereoBuffer(new Float32Array([0.5, 0.5]), new Float32Array([0.5, -0.5]));
+
+      const { mid, side } = getMidSidePeaksFromAudioBuffer(buffer, 2);
+
+      expect(mid).toEqual([0.5, 0]);
+      expect(side).toEqual([0, 0.5]);
+    });
+
+    it("should produce a silent side channel for mono buffers", () => {
+      const buffer = {
+        getChannelData: vi.fn().mockReturnValue(new Float32Array([0.3, -0.6])),
+        length: 2,
+        numberOfChannels: 1,
+      } as unknown as AudioBuffer;
+
+      const { mid, side } = getMidSidePeaksFromAudioBuffer(buffer, 1);
+
+      expect(mid[0]).toBeCloseTo(0.6);
+      expect(side).toEqual([0]);
+    });
+  });
+
+  describe("channel helpers", () => {
+    it("should detect multi-channel peaks", () => {
+      expect(isMultiChannelPeaks([[0.1], [0.2]])).toBe(true);
+      expect(isMultiChannelPeaks([{ min: [-0.1], max: [0.1] }])).toBe(true);
+      expect(isMultiChannelPeaks([0.1, 0.2])).toBe(false);
+      expect(isMultiChannelPeaks([])).toBe(false);
+    });
+
+    it("should wrap single-channel peaks", () => {
+      const peaks = [0.1, 0.2];
+      expect(getPeakChannels(peaks)).toEqual([peaks]);
+      expect(
+        getPeakCount([
+          [0.1, 0.2, 0.3],
+          [0.1, 0.2, 0.3],
+        ]),
+      ).toBe(3);
+    });
+
+    it("should normalize channels with a shared scale", () => {
+      const channels = normalizeChannelPeaks([[4, 2], { min: [-1], max: [2] }]);
+
+      expect(channels).toEqual([[1, 0.5], { min: [-0.25], max: [0.5] }]);
+    });
+  });
+
+  describe("splitInterleavedPeaks", () => {
+    it("should split interleaved min/max values", () => {
+      expect(splitInterleavedPeaks([-0.5, 0.4, -0.1, 0.9])).toEqual({ min: [-0.5, -0.1], max: [0.4, 0.9] });
+    });
+
+    it("should accept typed arrays and ignore a trailing odd value", () => {
+      const peaks = splitInterleavedPeaks(new Int16Array([-3, 4, -5]));
+
+      expect(peaks).toEqual({ min: [-3], max: [4] });
+    });
+  });
+
+  describe("isMinMaxPeaks", () => {
+    it("should detect min/max peak pairs", () => {
+      expect(isMinMaxPeaks({ min: [-0.1], max: [0.1] })).toBe(true);
+      expect(isMinMaxPeaks([0.1, 0.2])).toBe(false);
+    });
+  });
+
+  describe("getPeakCount", () => {
+    it("should count buckets for both representations", () => {
+      expect(getPeakCount([0.1, 0.2, 0.3])).toBe(3);
+      expect(getPeakCount({ min: [-0.1, -0.2], max: [0.1, 0.2] })).toBe(2);
+    });
+  });
+
+  describe("normalizeMinMaxPeaks", () => {
+    it("should scale both arrays by the same factor", () => {
+      const peaks = normalizeMinMaxPeaks({ min: [-4, -1], max: [2, 1] });
+
+      expect(peaks).toEqual({ min: [-1, -0.25], max: [0.5, 0.25] });
+    });
+
+    it("should scale RMS values with the peaks", () => {
+      const peaks = normalizeMinMaxPeaks({ min: [-2], max: [1], rms: [0.5] });
+
+      expect(peaks.rms).toEqual([0.25]);
+    });
+
+    it("should leave peaks within range untouched", () => {
+      const peaks = normalizeMinMaxPeaks({ min: [-0.5, -0.1], max: [0.3, 0.2] });
+
+      expect(peaks).toEqual({ min: [-0.5, -0.1], max: [0.3, 0.2] });
+    });
+  });
+
   describe("normalizePeaks", () => {
     it("should normalize peaks to range 0-1", () => {
       const peaks = [0.5, 1.0, 0.25, 0.75];
@@ -161,6 +403,74 @@ describe("peaks utilities", () => {
     });
   });
 
+  describe("normalization strategies", () => {
+    it("should not mutate the input", () => {
+      const peaks = [2, 1];
+      const minMax = { min: [-4], max: [2], rms: [1] };
+
+      normalizePeaks(peaks);
+      normalizeMinMaxPeaks(minMax);
+      normalizeWaveformPeaks(peaks, "peak");
+
+      expect(peaks).toEqual([2, 1]);
+      expect(minMax).toEqual({ min: [-4], max: [2], rms: [1] });
+    });
+
+    it("should scale quiet peaks up in peak mode", () => {
+      expect(normalizeWaveformPeaks([0.25, -0.5], "peak")).toEqual([0.5, -1]);
+    });
+
+    it("should keep the absolute level in none mode", () => {
+      expect(normalizeWaveformPeaks([0.25, -0.5], "none")).toEqual([0.25, -0.5]);
+    });
+
+    it("should divide by the ceiling and clamp in fixed mode", () => {
+      expect(normalizeWaveformPeaks([0.25, -0.5, 1], { type: "fixed", ceiling: 0.5 })).toEqual([0.5, -1, 1]);
+    });
+
+    it("should ignore outliers above the percentile", () => {
+      const peaks = [...Array.from({ length: 99 }, (_, i) => (i + 1) / 200), 10];
+
+      expect(getNormalizationDivisor(peaks, { type: "percentile", percentile: 99 })).toBe(0.495);
+      expect(normalizeWaveformPeaks(peaks, { type: "percentile", percentile: 99 })).toContain(1);
+    });
+
+    it("should use the larger side of min/max pairs for percentiles", () => {
+      expect(
+        getNormalizationDivisor({ min: [-0.8, -0.1], max: [0.2, 0.4] }, { type: "percentile", percentile: 50 }),
+      ).toBe(0.4);
+    });
+
+    it("should share the scale across channels and RMS levels", () => {
+      const normalized = normalizeWaveformPeaks(
+        [
+          { min: [-0.25], max: [0.5], rms: [0.125] },
+          { min: [-0.1], max: [0.2], rms: [0.05] },
+        ],
+        "peak",
+      );
+
+      expect(normalized).toEqual([
+        { min: [-0.5], max: [1], rms: [0.25] },
+        { min: [-0.2], max: [0.4], rms: [0.1] },
+      ]);
+    });
+
+    it("should fall back to a divisor of 1 for silence", () => {
+      expect(getNormalizationDivisor([0, 0], "peak")).toBe(1);
+      expect(getNormalizationDivisor([0, 0], "percentile")).toBe(1);
+    });
+
+    it("should reject invalid settings", () => {
+      expect(() => getNormalizationDivisor([1], { type: "fixed", ceiling: 0 })).toThrow(
+        "Normalization ceiling must be a positive number",
+      );
+      expect(() => getNormalizationDivisor([1], { type: "percentile", percentile: 120 })).toThrow(
+        "Normalization percentile must be between 0 and 100",
+      );
+    });
+  });
+
   describe("normalizeProgress", () => {
     it("should clamp progress to 0-1 range", () => {
       expect(normalizeProgress(0.5)).toBe(0.5);
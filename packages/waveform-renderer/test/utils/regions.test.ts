@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+
+import { createRegion, parseRegions, serializeRegions } from "../../src/utils/regions";
+
+describe("region utilities", () => {
+  describe("createRegion", () => {
+    it("should copy only the known fields", () => {
+      const region = createRegion({ start: 0.1, end: 0.2, color: "red", extra: true } as never, "a");
+
+      expect(region).toEqual({ id: "a", start: 0.1, end: 0.2, color: "red" });
+    });
+
+    it("should allow empty regions", () => {
+      expect(createRegion({ start: 0.5, end: 0.5 }, "a")).toEqual({ id: "a", start: 0.5, end: 0.5 });
+    });
+
+    it("should reject invalid ranges", () => {
+      expect(() => createRegion({ start: NaN, end: 0.5 }, "a")).toThrow("Region start and end must be between 0 and 1");
+      expect(() => createRegion({ start: 0, end: 1.5 }, "a")).toThrow("Region start and end must be between 0 and 1");
+      expect(() => createRegion({ start: 0.6, end: 0.5 }, "a")).toThrow("Region end must not be before its start");
+    });
+  });
+
+  describe("serialization", () => {
+    it("should round-trip regions through JSON", () => {
+      const regions = [
+        { id: "a", start: 0.1, end: 0.2, label: "Verse", draggable: false },
+        { id: "b", start: 0.5, end: 0.75, color: "rgba(255, 0, 0, 0.3)", resizable: false },
+      ];
+
+      expect(parseRegions(serializeRegions(regions))).toEqual(regions);
+    });
+
+    it("should accept regions without ids and parsed arrays", () => {
+      expect(parseRegions([{ start: 0, end: 0.5 }])).toEqual([{ start: 0, end: 0.5 }]);
+    });
+
+    it("should reject malformed documents", () => {
+      expect(() => parseRegions("{}")).toThrow("Regions JSON must be an array");
+      expect(() => parseRegions("[1]")).toThrow("Each region must be an object");
+      expect(() => parseRegions('[{"id":1,"start":0,"end":1}]')).toThrow("Region ids must be strings");
+      expect(() => parseRegions('[{"start":"0","end":1}]')).toThrow("Region start and end must be between 0 and 1");
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+
+import { resampleChannelPeaks } from "../../src/utils/resample";
+
+describe("resampleChannelPeaks", () => {
+  const peaks = [0.2, 0.8, 0.4, 0.4, 0.1, 0.3];
+
+  describe("downsampling", () => {
+    it("should take the largest peak of each bar by default", () => {
+      expect(resampleChannelPeaks(peaks, 0, 2, 3)).toEqual([0.8, 0.4, 0.3]);
+    });
+
+    it("should average the peaks of each bar", () => {
+      const result = resampleChannelPeaks(peaks, 0, 2, 3, { downsample: "average" }) as number[];
+
+      expect(result[0]).toBeCloseTo(0.5);
+      expect(result[1]).toBeCloseTo(0.4);
+      expect(result[2]).toBeCloseTo(0.2);
+    });
+
+    it("should combine the peaks of each bar as a root mean square", () => {
+      const result = resampleChannelPeaks([0.3, 0.4], 0, 2, 1, { downsample: "rms" }) as number[];
+
+      expect(result[0]).toBeCloseTo(Math.sqrt(0.125));
+    });
+
+    it("should pick the first peak of each bar without downsampling", () => {
+      expect(resampleChannelPeaks(peaks, 0, 2, 3, { downsample: "none" })).toEqual([0.2, 0.4, 0.1]);
+    });
+
+    it("should select real peaks that keep the shape with LTTB", () => {
+      const signal = [0.1, 0, 0.2, 0, 1, 0.3, 0, 0.2, 0];
+
+      const result = resampleChannelPeaks(signal, 0, 3, 3, { downsample: "lttb" }) as number[];
+
+      expect(result[1]).toBe(1);
+      result.forEach(value => expect(signal).toContain(value));
+    });
+
+    it("should aggregate min/max pairs towards their own side", () => {
+      const result = resampleChannelPeaks({ min: [-0.2, -0.6], max: [0.5, 0.1], rms: [0.3, 0.4] }, 0, 2, 1);
+
+      expect(result).toEqual({ min: [-0.6], max: [0.5], rms: [expect.closeTo(Math.sqrt(0.125))] });
+    });
+
+    it("should start at a fractional offset", () => {
+      expect(resampleChannelPeaks(peaks, 2, 2, 2)).toEqual([0.4, 0.3]);
+    });
+  });
+
+  describe("upsampling", () => {
+    it("should interpolate linearly by default", () => {
+      expect(resampleChannelPeaks([0, 1], 0, 0.25, 5)).toEqual([0, 0.25, 0.5, 0.75, 1]);
+    });
+
+    it("should repeat peaks without upsampling", () => {
+      expect(resampleChannelPeaks([0, 1], 0, 0.5, 4, { upsample: "none" })).toEqual([0, 0, 1, 1]);
+    });
+
+    it("should interpolate smoothly with a cubic spline without overshooting", () => {
+      const result = resampleChannelPeaks([0, 0, 1, 1], 0, 0.25, 16, { upsample: "cubic" }) as number[];
+
+      expect(result[4]).toBe(0);
+      expect(result[6]).toBeCloseTo(0.5);
+      expect(result[5]).toBeLessThan(0.25);
+      expect(result[8]).toBe(1);
+      expect(Math.min(...result)).toBe(0);
+      expect(Math.max(...result)).toBe(1);
+    });
+
+    it("should interpolate min/max pairs and RMS levels", () => {
+      const result = resampleChannelPeaks({ min: [-1, 0], max: [0, 1], rms: [0, 0.5] }, 0, 0.5, 2);
+
+      expect(result).toEqual({ min: [-1, -0.5], max: [0, 0.5], rms: [0, 0.25] });
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, expect, it, vi } from "vitest";
+
+import type { CachedBarData, ChannelLane } from "../../src/types";
+import { isStrokedStyle, resolveWaveformStyle, traceWaveformShape } from "../../src/utils/shapes";
+
+function createPath() {
+  return {
+    arc: vi.fn(),
+    bezierCurveTo: vi.fn(),
+    closePath: vi.fn(),
+    lineTo: vi.fn(),
+    moveTo: vi.fn(),
+    rect: vi.fn(),
+    roundRect: vi.fn(),
+  };
+}
+
+describe("waveform shapes", () => {
+  const bars: CachedBarData[] = [
+    { x: 0, y: 50, width: 2, height: 50, peakValue: 0.5 },
+    { x: 4, y: 20, width: 2, height: 80, peakValue: 0.8 },
+    { x: 8, y: 70, width: 2, height: 30, peakValue: 0.3 },
+  ];
+  const bottomLane: ChannelLane[] = [{ top: 0, height: 100, position: "bottom" }];
+
+  describe("resolveWaveformStyle", () => {
+    it("should expand style names", () => {
+      expect(resolveWaveformStyle("line")).toEqual({ type: "line" });
+      expect(resolveWaveformStyle()).toEqual({ type: "bars" });
+      expect(resolveWaveformStyle({ type: "area", smooth: true })).toEqual({ type: "area", smooth: true });
+    });
+
+    it("should only stroke line styles", () => {
+      expect(isStrokedStyle("line")).toBe(true);
+      expect(isStrokedStyle({ type: "line", smooth: true })).toBe(true);
+      expect(isStrokedStyle("area")).toBe(false);
+      expect(isStrokedStyle(undefined)).toBe(false);
+    });
+  });
+
+  it("should trace bars as rectangles", () => {
+    const path = createPath();
+
+    traceWaveformShape(path as unknown as CanvasPath, bars, bottomLane, "bars");
+
+    expect(path.rect).toHaveBeenCalledTimes(3);
+    expect(path.rect).toHaveBeenCalledWith(4, 20, 2, 80);
+  });
+
+  it("should trace rounded bars", () => {
+    const path = createPath();
+
+    traceWaveformShape(path as unknown as CanvasPath, bars, bottomLane, "bars", 2);
+
+    expect(path.roundRect).toHaveBeenCalledWith(0, 50, 2, 50, 2);
+  });
+
+  it("should connect the outer edges of the bars for the line style", () => {
+    const path = createPath();
+
+    traceWaveformShape(path as unknown as CanvasPath, bars, bottomLane, "line");
+
+    expect(path.moveTo).toHaveBeenCalledTimes(1);
+    expect(path.moveTo).toHaveBeenCalledWith(1, 50);
+    expect(path.lineTo.mock.calls).toEqual([
+      [5, 20],
+      [9, 70],
+    ]);
+  });
+
+  it("should trace both edges of centered lanes", () => {
+    const path = createPath();
+
+    traceWaveformShape(path as unknown as CanvasPath, bars, [{ top: 0, height: 100, position: "center" }], "line");
+
+    expect(path.moveTo.mock.calls).toEqual([
+      [1, 50],
+      [1, 100],
+    ]);
+  });
+
+  it("should trace the lower edge of top-aligned lanes", () => {
+    const path = createPath();
+
+    traceWaveformShape(path as unknown as CanvasPath, bars, [{ top: 0, height: 100, position: "top" }], "line");
+
+    expect(path.moveTo.mock.calls).toEqual([[1, 100]]);
+  });
+
+  it("should close a filled envelope for the area style", () => {
+    const path = createPath();
+
+    traceWaveformShape(path as unknown as CanvasPath, bars, bottomLane, "area");
+
+    expect(path.moveTo).toHaveBeenCalledWith(1, 50);
+    expect(path.lineTo.mock.calls).toEqual([
+      [5, 20],
+      [9, 70],
+      [9, 100],
+      [5, 100],
+      [1, 100],
+    ]);
+    expect(path.closePath).toHaveBeenCalledTimes(1);
+  });
+
+  it("should mirror the envelope around the lane center for the mirroredArea style", () => {
+    const path = createPath();
+
+    traceWaveformShape(path as unknown as CanvasPath, bars, bottomLane, "mirroredArea");
+
+    expect(path.moveTo).toHaveBeenCalledWith(1, 25);
+    expect(path.lineTo).toHaveBeenCalledWith(5, 10);
+    expect(path.lineTo).toHaveBeenCalledWith(5, 90);
+  });
+
+  it("should draw one dot per bar for the dots style", () => {
+    const path = createPath();
+
+    traceWaveformShape(path as unknown as CanvasPath, bars, bottomLane, { type: "dots", radius: 3 });
+
+    expect(path.arc).toHaveBeenCalledTimes(3);
+    expect(path.arc).toHaveBeenCalledWith(5, 20, 3, 0, Math.PI * 2);
+    expect(path.moveTo).toHaveBeenCalledWith(8, 20);
+  });
+
+  it("should draw Catmull-Rom curves when smoothing", () => {
+    const path = createPath();
+
+    traceWaveformShape(path as unknown as CanvasPath, bars, bottomLane, { type: "line", smooth: true });
+
+    expect(path.lineTo).not.toHaveBeenCalled();
+    expect(path.bezierCurveTo).toHaveBeenCalledTimes(2);
+    // Tangent at the second point runs from the first to the third
+    const [, , cp2x, cp2y, x, y] = path.bezierCurveTo.mock.calls[0];
+    expect([x, y]).toEqual([5, 20]);
+    expect(cp2x).toBeCloseTo(5 - 8 / 6);
+    expect(cp2y).toBeCloseTo(20 - 20 / 6);
+  });
+
+  it("should keep curve control points inside the lane", () => {
+    const path = createPath();
+    const spiky: CachedBarData[] = [
+      { x: 0, y: 0, width: 2, height: 100, peakValue: 1 },
+      { x: 4, y: 0, width: 2, height: 100, peakValue: 1 },
+      { x: 8, y: 100, width: 2, height: 0, peakValue: 0 },
+    ];
+
+    traceWaveformShape(path as unknown as CanvasPath, spiky, bottomLane, { type: "line", smooth: true });
+
+    for (const [, cp1y, , cp2y] of path.bezierCurveTo.mock.calls) {
+      expect(cp1y).toBeGreaterThanOrEqual(0);
+      expect(cp2y).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  it("should treat bars without lanes as one centered lane", () => {
+    const path = createPath();
+
+    traceWaveformShape(path as unknown as CanvasPath, bars, undefined, { type: "line", smooth: true });
+
+    expect(path.moveTo.mock.calls).toEqual([
+      [1, 50],
+      [1, 100],
+    ]);
+  });
+
+  it("should never connect two channels", () => {
+    const path = createPath();
+    const lanes: ChannelLane[] = [
+      { top: 0, height: 50, position: "bottom" },
+      { top: 50, height: 50, position: "bottom" },
+    ];
+
+    traceWaveformShape(
+      path as unknown as CanvasPath,
+      [
+        { x: 0, y: 20, width: 2, height: 30, peakValue: 0.6, channel: 0 },
+        { x: 4, y: 30, width: 2, height: 20, peakValue: 0.4, channel: 0 },
+        { x: 0, y: 60, width: 2, height: 40, peakValue: 0.8, channel: 1 },
+        { x: 4, y: 90, width: 2, height: 10, peakValue: 0.2, channel: 1 },
+      ],
+      lanes,
+      "line",
+    );
+
+    expect(path.moveTo.mock.calls).toEqual([
+      [1, 20],
+      [1, 60],
+    ]);
+    expect(path.lineTo.mock.calls).toEqual([
+      [5, 30],
+      [5, 90],
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+
+import { DEFAULT_OPTIONS, DEFAULT_TIME_RULER_OPTIONS } from "../../src/constants";
+import type { TimeFormatContext, TimeRulerOptions } from "../../src/types";
+import { formatTime, getTickIntervals, getWaveformArea, hasTimeRuler } from "../../src/utils/time-ruler";
+
+const ruler = (options: TimeRulerOptions = {}) => ({ ...DEFAULT_TIME_RULER_OPTIONS, ...options });
+const context = (options: Partial<TimeFormatContext> = {}): TimeFormatContext => ({
+  beatsPerBar: 4,
+  bpm: 120,
+  fps: 30,
+  interval: 1,
+  locale: "en-US",
+  ...options,
+});
+
+describe("time ruler utilities", () => {
+  describe("getWaveformArea", () => {
+    it("should reserve the ruler height on its side", () => {
+      const options = { ...DEFAULT_OPTIONS, duration: 10, timeRuler: ruler({ height: 24 }) };
+
+      expect(getWaveformArea(200, options)).toEqual({ height: 176, top: 24 });
+      expect(getWaveformArea(200, { ...options, timeRuler: ruler({ height: 24, position: "bottom" }) })).toEqual({
+        height: 176,
+        top: 0,
+      });
+    });
+
+    it("should use the whole canvas without a ruler or duration", () => {
+      expect(getWaveformArea(200, DEFAULT_OPTIONS)).toEqual({ height: 200, top: 0 });
+      expect(hasTimeRuler({ ...DEFAULT_OPTIONS, timeRuler: ruler() })).toBe(false);
+      expect(hasTimeRuler({ ...DEFAULT_OPTIONS, duration: 0, timeRuler: ruler() })).toBe(false);
+    });
+  });
+
+  describe("getTickIntervals", () => {
+    it("should pick the smallest interval that keeps labels apart", () => {
+      // 800px for 3 minutes
+      expect(getTickIntervals(800 / 180, ruler())).toEqual({ major: 30, minor: 5 });
+      // Zoomed in to 2 seconds
+      expect(getTickIntervals(400, ruler())).toEqual({ major: 0.2, minor: 0.02 });
+    });
+
+    it("should drop minor ticks that would be too dense", () => {
+      expect(getTickIntervals(80, ruler({ minTickSpacing: 6 }))).toEqual({ major: 0.1, minor: null });
+    });
+
+    it("should fall back to the longest interval", () => {
+      expect(getTickIntervals(0.000001, ruler()).major).toBe(86400);
+    });
+
+    it("should use frame intervals for SMPTE", () => {
+      const { major, minor } = getTickIntervals(1500, ruler({ format: "smpte", fps: 25 }));
+
+      expect(major).toBeCloseTo(2 / 25);
+      expect(minor).toBeCloseTo(1 / 25);
+    });
+
+    it("should use beats and bars for musical time", () => {
+      // 120 bpm: a beat is half a second, a bar two seconds
+      expect(getTickIntervals(100, ruler({ format: "beats" }))).toEqual({ major: 1, minor: 0.5 });
+      expect(getTickIntervals(30, ruler({ format: "beats" }))).toEqual({ major: 4, minor: 0.5 });
+    });
+  });
+
+  describe("formatTime", () => {
+    it("should format minutes and seconds", () => {
+      expect(formatTime(0, "mm:ss", context())).toBe("0:00");
+      expect(formatTime(754, "mm:ss", context())).toBe("12:34");
+      expect(formatTime(3600, "mm:ss", context())).toBe("60:00");
+    });
+
+    it("should add the decimals sub-second ticks need", () => {
+      expect(formatTime(1.5, "mm:ss", context({ interval: 0.5 }))).toBe("0:01.5");
+      expect(formatTime(59.99, "mm:ss", context({ interval: 0.01 }))).toBe("0:59.99");
+      expect(formatTime(59.999, "mm:ss", context({ interval: 0.1 }))).toBe("1:00.0");
+    });
+
+    it("should format hours with milliseconds", () => {
+      expect(formatTime(3723.456, "hh:mm:ss.ms", context())).toBe("01:02:03.456");
+    });
+
+    it("should format SMPTE timecodes", () => {
+      expect(formatTime(61.5, "smpte", context({ fps: 24 }))).toBe("00:01:01:12");
+      expect(formatTime(1, "smpte", context({ fps: 29.97 }))).toBe("00:00:01:00");
+    });
+
+    it("should format bars and beats", () => {
+      expect(formatTime(0, "beats", context({ interval: 0.5 }))).toBe("1.1");
+      expect(formatTime(2.5, "beats", context({ interval: 0.5 }))).toBe("2.2");
+      expect(formatTime(4, "beats", context({ interval: 2 }))).toBe("3");
+      expect(formatTime(1, "beats", context({ bpm: 90, beatsPerBar: 3, interval: 2 / 3 }))).toBe("1.2");
+    });
+
+    it("should follow the locale", () => {
+      expect(formatTime(1.5, "mm:ss", context({ interval: 0.5, locale: "de-DE" }))).toBe("0:01,5");
+      expect(formatTime(65, "mm:ss", context({ locale: "ar-EG" }))).toBe("١:٠٥");
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+
+import { clampViewport, fromViewportProgress, toViewportProgress } from "../../src/utils/viewport";
+
+describe("viewport utilities", () => {
+  describe("clampViewport", () => {
+    it("should keep a valid viewport unchanged", () => {
+      expect(clampViewport(0.25, 0.5)).toEqual({ start: 0.25, end: 0.5 });
+    });
+
+    it("should shift a viewport that overflows the end while keeping its span", () => {
+      const viewport = clampViewport(0.8, 1.2);
+
+      expect(viewport.start).toBeCloseTo(0.6);
+      expect(viewport.end).toBeCloseTo(1);
+    });
+
+    it("should shift a viewport that starts before zero", () => {
+      expect(clampViewport(-0.25, 0.25)).toEqual({ start: 0, end: 0.5 });
+    });
+
+    it("should limit the span to the full range", () => {
+      expect(clampViewport(-1, 2)).toEqual({ start: 0, end: 1 });
+    });
+
+    it("should enforce the minimum span", () => {
+      const viewport = clampViewport(0.5, 0.5, 0.1);
+
+      expect(viewport.end - viewport.start).toBeCloseTo(0.1);
+    });
+  });
+
+  describe("toViewportProgress", () => {
+    it("should map absolute progress into the visible range", () => {
+      expect(toViewportProgress(0.375, { start: 0.25, end: 0.5 })).toBe(0.5);
+    });
+
+    it("should return values outside 0-1 for positions outside the viewport", () => {
+      expect(toViewportProgress(0.1, { start: 0.25, end: 0.5 })).toBeLessThan(0);
+      expect(toViewportProgress(0.75, { start: 0.25, end: 0.5 })).toBeGreaterThan(1);
+    });
+
+    it("should pass progress through without a viewport", () => {
+      expect(toViewportProgress(0.3)).toBe(0.3);
+    });
+  });
+
+  describe("fromViewportProgress", () => {
+    it("should map a visible position to absolute progress", () => {
+      expect(fromViewportProgress(0.5, { start: 0.25, end: 0.5 })).toBe(0.375);
+    });
+
+    it("should be the inverse of toViewportProgress", () => {
+      const viewport = { start: 0.1, end: 0.35 };
+
+      expect(fromViewportProgress(toViewportProgress(0.2, viewport), viewport)).toBeCloseTo(0.2);
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, expect, it } from "vitest";
+
+import { PeakPyramid } from "../../src/peak-pyramid";
+import { getChannelPeaksFromAudioBuffer, getPeaksFromAudioBuffer } from "../../src/utils/peaks";
+import { decodeWav } from "../../src/utils/wav";
+
+interface WavSpec {
+  bitsPerSample: number;
+  channels: number;
+  extensible?: boolean;
+  formatTag?: number;
+  sampleRate?: number;
+  writeSample: (view: DataView, offset: number, value: number) => void;
+}
+
+/**
+ * Builds a WAV file from interleaved sample values in the target encoding
+ */
+function createWav(spec: WavSpec, samples: number[], extraChunks: [string, number][] = []): ArrayBuffer {
+  const { bitsPerSample, channels, extensible = false, formatTag = 1, sampleRate = 8000 } = spec;
+  const bytesPerSample = bitsPerSample / 8;
+  const fmtSize = extensible ? 40 : 16;
+  const extraSize = extraChunks.reduce((total, [, size]) => total + 8 + size + (size % 2), 0);
+  const dataSize = samples.length * bytesPerSample;
+  const buffer = new ArrayBuffer(12 + extraSize + 8 + fmtSize + 8 + dataSize);
+  const view = new DataView(buffer);
+  const writeTag = (offset: number, tag: string) =>
+    [...tag].forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+
+  writeTag(0, "RIFF");
+  view.setUint32(4, buffer.byteLength - 8, true);
+  writeTag(8, "WAVE");
+
+  let offset = 12;
+  for (const [tag, size] of extraChunks) {
+    writeTag(offset, tag);
+    view.setUint32(offset + 4, size, true);
+    offset += 8 + size + (size % 2);
+  }
+
+  writeTag(offset, "fmt ");
+  view.setUint32(offset + 4, fmtSize, true);
+  view.setUint16(offset + 8, extensible ? 0xfffe : formatTag, true);
+  view.setUint16(offset + 10, channels, true);
+  view.setUint32(offset + 12, sampleRate, true);
+  view.setUint32(offset + 16, sampleRate * channels * bytesPerSample, true);
+  view.setUint16(offset + 20, channels * bytesPerSample, true);
+  view.setUint16(offset + 22, bitsPerSample, true);
+  if (extensible) {
+    view.setUint16(offset + 24, 22, true);
+    view.setUint16(offset + 26, bitsPerSample, true);
+    view.setUint32(offset + 28, 0, true);
+    view.setUint16(offset + 32, formatTag, true);
+  }
+  offset += 8 + fmtSize;
+
+  writeTag(offset, "data");
+  view.setUint32(offset + 4, dataSize, true);
+  offset += 8;
+  samples.forEach((value, i) => spec.writeSample(view, offset + i * bytesPerSample, value));
+
+  return buffer;
+}
+
+const int16: WavSpec = {
+  bitsPerSample: 16,
+  channels: 1,
+  writeSample: (view, offset, value) => view.setInt16(offset, value, true),
+};
+
+describe("decodeWav", () => {
+  it("should decode 16-bit PCM", () => {
+    const wav = decodeWav(createWav(int16, [0, 16384, -32768, 32767]));
+
+    expect(wav.format).toBe("pcm");
+    expect(wav.bitsPerSample).toBe(16);
+    expect(wav.numberOfChannels).toBe(1);
+    expect(wav.length).toBe(4);
+    expect(wav.sampleRate).toBe(8000);
+    expect(wav.duration).toBe(4 / 8000);
+    expect(Array.from(wav.getChannelData(0))).toEqual([0, 0.5, -1, 32767 / 32768]);
+  });
+
+  it("should decode unsigned 8-bit PCM", () => {
+    const wav = decodeWav(
+      createWav({ bitsPerSample: 8, channels: 1, writeSample: (view, o, v) => view.setUint8(o, v) }, [128, 192, 0]),
+    );
+
+    expect(Array.from(wav.getChannelData(0))).toEqual([0, 0.5, -1]);
+  });
+
+  it("should decode 24-bit PCM", () => {
+    const writeInt24 = (view: DataView, offset: number, value: number) => {
+      view.setUint8(offset, value & 0xff);
+      view.setUint8(offset + 1, (value >> 8) & 0xff);
+      view.setUint8(offset + 2, (value >> 16) & 0xff);
+    };
+
+    const wav = decodeWav(createWav({ bitsPerSample: 24, channels: 1, writeSample: writeInt24 }, [4194304, -8388608]));
+
+    expect(Array.from(wav.getChannelData(0))).toEqual([0.5, -1]);
+  });
+
+  it("should decode 32-bit integer PCM", () => {
+    const wav = decodeWav(
+      createWav(
+        { bitsPerSample: 32, channels: 1, writeSample: (view, o, v) => view.setInt32(o, v, true) },
+        [1073741824, -2147483648],
+      ),
+    );
+
+    expect(Array.from(wav.getChannelData(0))).toEqual([0.5, -1]);
+  });
+
+  it("should decode 32-bit float", () => {
+    const wav = decodeWav(
+      createWav(
+        { bitsPerSample: 32, channels: 1, formatTag: 3, writeSample: (view, o, v) => view.setFloat32(o, v, true) },
+        [0.25, -0.75],
+      ),
+    );
+
+    expect(wav.format).toBe("float");
+    expect(Array.from(wav.getChannelData(0))).toEqual([0.25, -0.75]);
+  });
+
+  it("should decode WAVE_FORMAT_EXTENSIBLE files using their sub-format", () => {
+    const wav = decodeWav(
+      createWav(
+        {
+          bitsPerSample: 32,
+          channels: 1,
+          extensible: true,
+          formatTag: 3,
+          writeSample: (view, o, v) => view.setFloat32(o, v, true),
+        },
+        [0.5],
+      ),
+    );
+
+    expect(wav.format).toBe("float");
+    expect(Array.from(wav.getChannelData(0))).toEqual([0.5]);
+  });
+
+  it("should de-interleave multiple channels", () => {
+    const wav = decodeWav(createWav({ ...int16, channels: 3 }, [16384, -16384, 0, 8192, -8192, 32767]));
+
+    expect(wav.numberOfChannels).toBe(3);
+    expect(wav.length).toBe(2);
+    expect(Array.from(wav.getChannelData(0))).toEqual([0.5, 0.25]);
+    expect(Array.from(wav.getChannelData(1))).toEqual([-0.5, -0.25]);
+    expect(Array.from(wav.getChannelData(2))).toEqual([0, 32767 / 32768]);
+  });
+
+  it("should skip unknown chunks, including odd-sized ones", () => {
+    const wav = decodeWav(createWav(int16, [16384], [["LIST", 3]]));
+
+    expect(Array.from(wav.getChannelData(0))).toEqual([0.5]);
+  });
+
+  it("should accept typed array views", () => {
+    const buffer = createWav(int16, [16384]);
+
+    const wav = decodeWav(new Uint8Array(buffer));
+
+    expect(Array.from(wav.getChannelData(0))).toEqual([0.5]);
+  });
+
+  it("should support copyFromChannel", () => {
+    const wav = decodeWav(createWav(int16, [0, 16384, -16384]));
+    const destination = new Float32Array(2);
+
+    wav.copyFromChannel(destination, 0, 1);
+
+    expect(Array.from(destination)).toEqual([0.5, -0.5]);
+    expect(() => wav.getChannelData(1)).toThrow("Channel index 1 is out of range");
+  });
+
+  it("should feed the peak helpers", () => {
+    const wav = decodeWav(createWav({ ...int16, channels: 2 }, [16384, -8192, -32768, 4096]));
+
+    expect(getPeaksFromAudioBuffer(wav, 1)).toEqual([1]);
+    expect(getChannelPeaksFromAudioBuffer(wav, 1)).toEqual([[1], [0.25]]);
+    expect(PeakPyramid.fromAudioBuffer(wav, { allChannels: true, samplesPerPeak: 1 }).channelCount).toBe(2);
+  });
+
+  it("should reject files that are not RIFF/WAVE", () => {
+    expect(() => decodeWav(new ArrayBuffer(4))).toThrow("Data is not a RIFF/WAVE file");
+    expect(() => decodeWav(new TextEncoder().encode("RIFF\0\0\0\0AVI "))).toThrow("Data is not a RIFF/WAVE file");
+  });
+
+  it("should reject unsupported formats and bit depths", () => {
+    expect(() => decodeWav(createWav({ ...int16, formatTag: 2 }, [0]))).toThrow("Unsupported WAV format: 0x2");
+    expect(() =>
+      decodeWav(createWav({ bitsPerSample: 16, channels: 1, formatTag: 3, writeSample: () => {} }, [0])),
+    ).toThrow("Unsupported float bit depth: 16");
+  });
+
+  it("should reject files without fmt or data chunks", () => {
+    const buffer = createWav(int16, [0]);
+    const view = new DataView(buffer);
+
+    // Rename the data chunk so it is skipped as unknown
+    view.setUint8(36, "x".charCodeAt(0));
+    expect(() => decodeWav(buffer)).toThrow("WAV file is missing a data chunk");
+
+    view.setUint8(12, "x".charCodeAt(0));
+    expect(() => decodeWav(buffer)).toThrow("WAV file is missing a fmt chunk");
+  });
+});